@@ -0,0 +1,494 @@
+import { promises as fs } from "fs";
+import { DatabaseDialect, ProjectGeneratorConfig } from "../definitions/index.js";
+import { SchemaChangeImpact, SchemaComparison } from "../definitions/SchemaReaderResult.js";
+import { generateProject } from "../generators/ProjectGenerator.js";
+import { readDdlFile } from "../generators/DdlParser.js";
+import { SchemaReader } from "../generators/SchemaReader.js";
+import { SchemaChangeDetector } from "../generators/SchemaChangeDetector.js";
+import { isGlob } from "../utils/Glob.js";
+import { getConfigJsonSchema } from "../validation/ConfigSchema.js";
+import { formatValidationErrors, validateConfig } from "../validation/ConfigValidator.js";
+
+/**
+ * Exit codes returned by the drizzle-gen command line
+ */
+export enum CliExitCode {
+	SUCCESS = 0,
+	ERROR = 1,
+	BREAKING_CHANGES = 2,
+}
+
+/**
+ * Output streams used by the command line, replaceable for testing
+ */
+export interface CliIO {
+	stdout: (line: string) => void;
+	stderr: (line: string) => void;
+}
+
+/**
+ * Parsed command line arguments
+ */
+interface ParsedArgs {
+	command?: string;
+	positionals: string[];
+	out?: string;
+	dialect?: DatabaseDialect;
+	json: boolean;
+	allowBreaking: boolean;
+	dryRun: boolean;
+	prune: boolean;
+	help: boolean;
+}
+
+const USAGE = `Usage: drizzle-gen <command> [options]
+
+Commands:
+  generate <schema> --out <dir>        Generate a Drizzle project from a JSON schema or SQL DDL file
+  read <dir | files...> [--json]       Read the schema of a generated project or of any Drizzle files/globs
+  diff <old> <new> [--json]            Compare two schemas (JSON, Drizzle or pg_dump .sql files, or project directories)
+  apply <schema> --out <dir>           Apply a JSON schema or SQL DDL file to an existing project
+  validate <schema.json>               Check a JSON schema against the config format
+  schema [--out <file>]                Print or write the JSON Schema of the config format
+
+Options:
+  --out <dir>         Output directory (defaults to the schema's outputDir)
+  --dialect <name>    Database dialect (defaults to the schema's dialect)
+  --json              Print machine readable JSON
+  --allow-breaking    Let apply write breaking changes
+  --dry-run           Report what generate or apply would change without writing files
+  --prune             Let generate delete files of the previous generation the schema no longer produces
+  --help              Show this message
+
+Exit codes: 0 success, 1 error, 2 breaking changes found`;
+
+const defaultIO: CliIO = {
+	stdout: (line) => console.log(line),
+	stderr: (line) => console.error(line),
+};
+
+/**
+ * Run the drizzle-gen command line with the given arguments and return its exit code
+ */
+export async function runCli(argv: string[], io: CliIO = defaultIO): Promise<CliExitCode> {
+	let args: ParsedArgs;
+	try {
+		args = parseArgs(argv);
+	} catch (error) {
+		io.stderr(`${error instanceof Error ? error.message : error}`);
+		io.stderr(USAGE);
+		return CliExitCode.ERROR;
+	}
+
+	if (args.help || !args.command) {
+		(args.help ? io.stdout : io.stderr)(USAGE);
+		return args.help ? CliExitCode.SUCCESS : CliExitCode.ERROR;
+	}
+
+	try {
+		switch (args.command) {
+			case "generate":
+				return await generateCommand(args, io);
+			case "read":
+				return await readCommand(args, io);
+			case "diff":
+				return await diffCommand(args, io);
+			case "apply":
+				return await applyCommand(args, io);
+			case "validate":
+				return await validateCommand(args, io);
+			case "schema":
+				return await schemaCommand(args, io);
+			default:
+				io.stderr(`Unknown command '${args.command}'.`);
+				io.stderr(USAGE);
+				return CliExitCode.ERROR;
+		}
+	} catch (error) {
+		io.stderr(`Error: ${error instanceof Error ? error.message : error}`);
+		return CliExitCode.ERROR;
+	}
+}
+
+/**
+ * drizzle-gen generate <schema.json> --out <dir> [--dry-run] [--prune]
+ */
+async function generateCommand(args: ParsedArgs, io: CliIO): Promise<CliExitCode> {
+	const [schemaPath] = requirePositionals(args, 1, "generate <schema.json>");
+	const schema = await loadSchemaFile(schemaPath, args.dialect);
+	const outputDir = args.out ?? schema.outputDir;
+
+	if (!outputDir) {
+		throw new Error("Output directory is required: pass --out <dir> or set 'outputDir' in the schema.");
+	}
+
+	// The command overwrites generated files, but not those edited by hand
+	const result = await generateProject({
+		...schema,
+		outputDir,
+		overwrite: schema.overwrite ?? true,
+		keepEditedFiles: schema.keepEditedFiles ?? true,
+		dryRun: args.dryRun,
+		prune: schema.prune || args.prune,
+	});
+
+	if (!result.success) {
+		io.stderr(result.message);
+		for (const error of result.errors ?? []) {
+			io.stderr(`  - ${error}`);
+		}
+		return CliExitCode.ERROR;
+	}
+
+	if (args.dryRun && args.json) {
+		io.stdout(JSON.stringify(result.plannedFiles, null, 2));
+		return CliExitCode.SUCCESS;
+	}
+
+	// A dry run lists every planned file with the diff of the modified ones, ready to paste in a review
+	for (const file of result.plannedFiles ?? []) {
+		io.stdout(`${file.status.padEnd(9)} ${file.path}`);
+		if (file.diff) {
+			io.stdout(file.diff.trimEnd());
+		}
+	}
+
+	for (const file of result.removedFiles ?? []) {
+		io.stdout(`removed   ${file}`);
+	}
+	for (const file of result.orphanedFiles ?? []) {
+		io.stdout(`orphaned  ${file}${result.editedFiles?.includes(file) ? " (edited by hand, kept)" : ""}`);
+	}
+	if ((result.orphanedFiles ?? []).some((file) => !result.editedFiles?.includes(file))) {
+		io.stdout("Orphaned files are no longer generated by the schema; pass --prune to delete them.");
+	}
+
+	io.stdout(`${result.message} in ${outputDir}`);
+	return CliExitCode.SUCCESS;
+}
+
+/**
+ * drizzle-gen read <dir | files...> [--json]
+ */
+async function readCommand(args: ParsedArgs, io: CliIO): Promise<CliExitCode> {
+	const [projectPath] = requirePositionals(args, 1, "read <dir | files...>");
+	const result = (await isProjectDirectory(args.positionals))
+		? await new SchemaReader(projectPath, args.dialect).readSchema()
+		: await new SchemaReader(process.cwd(), args.dialect).readFiles(args.positionals);
+
+	if (!result.success || !result.schema) {
+		io.stderr(result.message);
+		for (const error of result.errors ?? []) {
+			io.stderr(`  - ${error}`);
+		}
+		return CliExitCode.ERROR;
+	}
+
+	if (args.json) {
+		io.stdout(JSON.stringify(result.schema, null, 2));
+	} else {
+		io.stdout(result.message);
+		io.stdout(`  Enums:   ${(result.schema.enums ?? []).map((e) => e.name).join(", ") || "-"}`);
+		io.stdout(`  Helpers: ${(result.schema.helpers ?? []).map((h) => h.name).join(", ") || "-"}`);
+		io.stdout(`  Tables:  ${(result.schema.tables ?? []).map((t) => t.name).join(", ") || "-"}`);
+	}
+
+	for (const warning of result.warnings ?? []) {
+		io.stderr(`Warning: ${warning}`);
+	}
+
+	return CliExitCode.SUCCESS;
+}
+
+/**
+ * drizzle-gen diff <old> <new> [--json]
+ */
+async function diffCommand(args: ParsedArgs, io: CliIO): Promise<CliExitCode> {
+	const [oldPath, newPath] = requirePositionals(args, 2, "diff <old> <new>");
+	const currentSchema = await loadSchema(oldPath, args.dialect);
+	const newSchema = await loadSchema(newPath, args.dialect);
+
+	const comparison = await new SchemaChangeDetector().compareSchemas(currentSchema, newSchema);
+
+	if (args.json) {
+		io.stdout(JSON.stringify(comparison, null, 2));
+	} else {
+		printComparison(comparison, io);
+	}
+
+	return comparison.canApply.withBreaking ? CliExitCode.BREAKING_CHANGES : CliExitCode.SUCCESS;
+}
+
+/**
+ * drizzle-gen apply <schema.json> --out <dir> [--allow-breaking] [--dry-run]
+ */
+async function applyCommand(args: ParsedArgs, io: CliIO): Promise<CliExitCode> {
+	const [schemaPath] = requirePositionals(args, 1, "apply <schema.json>");
+	const newSchema = await loadSchemaFile(schemaPath, args.dialect);
+	const outputDir = args.out ?? newSchema.outputDir;
+
+	if (!outputDir) {
+		throw new Error("Output directory is required: pass --out <dir> or set 'outputDir' in the schema.");
+	}
+
+	// A project that has not been generated yet compares as empty, one that cannot be read is left alone
+	const reader = new SchemaReader(outputDir, args.dialect);
+	const isNewProject = !(await reader.checkProjectExists());
+	const current = isNewProject ? undefined : await reader.readSchema();
+	if (current && !current.success) {
+		io.stderr(`Could not read the existing project in ${outputDir}; nothing was written.`);
+		for (const error of current.errors ?? [current.message]) {
+			io.stderr(`  - ${error}`);
+		}
+		return CliExitCode.ERROR;
+	}
+	const currentSchema: ProjectGeneratorConfig = current?.schema ?? { outputDir };
+
+	const comparison = await new SchemaChangeDetector().compareSchemas(currentSchema, newSchema);
+
+	if (args.json) {
+		io.stdout(JSON.stringify(comparison, null, 2));
+	} else {
+		printComparison(comparison, io);
+	}
+
+	if (comparison.canApply.withBreaking && !args.allowBreaking) {
+		io.stderr("Breaking changes found; nothing was written. Pass --allow-breaking to apply them.");
+		return CliExitCode.BREAKING_CHANGES;
+	}
+
+	if (args.dryRun || comparison.changes.length === 0) {
+		return CliExitCode.SUCCESS;
+	}
+
+	// New projects are generated in full, existing ones only get their affected files rewritten
+	let files: string[];
+	let errors: string[] = [];
+	if (isNewProject) {
+		const result = await generateProject({ ...newSchema, outputDir, overwrite: true });
+		files = result.generatedFiles;
+		errors = result.errors ?? [];
+	} else {
+		const result = await new SchemaChangeDetector().applySafeChanges(outputDir, comparison, {
+			allowBreaking: true,
+			allowWarning: true,
+			relations: newSchema.relations,
+		});
+		files = result.files;
+		errors = result.errors ?? [];
+	}
+
+	if (errors.length > 0) {
+		io.stderr(`Failed to apply changes to ${outputDir}`);
+		for (const error of errors) {
+			io.stderr(`  - ${error}`);
+		}
+		return CliExitCode.ERROR;
+	}
+
+	if (!args.json) {
+		io.stdout(`Applied ${comparison.changes.length} changes to ${outputDir} (${files.length} files touched)`);
+	}
+
+	return CliExitCode.SUCCESS;
+}
+
+/**
+ * drizzle-gen validate <schema.json> [--json]
+ */
+async function validateCommand(args: ParsedArgs, io: CliIO): Promise<CliExitCode> {
+	const [schemaPath] = requirePositionals(args, 1, "validate <schema.json>");
+	let config: unknown;
+	try {
+		config = JSON.parse(await fs.readFile(schemaPath, "utf-8"));
+	} catch (error) {
+		throw new Error(`Could not read schema file '${schemaPath}': ${error instanceof Error ? error.message : error}`);
+	}
+
+	const result = validateConfig(config);
+	if (args.json) {
+		io.stdout(JSON.stringify(result, null, 2));
+	} else if (result.valid) {
+		io.stdout(`${schemaPath} is valid`);
+	} else {
+		formatValidationErrors(result.errors).forEach((line) => io.stderr(line));
+	}
+
+	return result.valid ? CliExitCode.SUCCESS : CliExitCode.ERROR;
+}
+
+/**
+ * drizzle-gen schema [--out <file>]
+ */
+async function schemaCommand(args: ParsedArgs, io: CliIO): Promise<CliExitCode> {
+	const json = JSON.stringify(getConfigJsonSchema(), null, "\t");
+
+	if (args.out) {
+		await fs.writeFile(args.out, `${json}\n`);
+		io.stdout(`Wrote JSON Schema to ${args.out}`);
+	} else {
+		io.stdout(json);
+	}
+
+	return CliExitCode.SUCCESS;
+}
+
+/**
+ * Print a schema comparison as a human readable report
+ */
+function printComparison(comparison: SchemaComparison, io: CliIO): void {
+	if (comparison.changes.length === 0) {
+		io.stdout("No changes detected.");
+		return;
+	}
+
+	for (const change of comparison.changes) {
+		io.stdout(`[${change.impact.toUpperCase()}] ${change.description}`);
+	}
+
+	const byImpact = comparison.summary.byImpact;
+	io.stdout("");
+	io.stdout(
+		`${comparison.summary.totalChanges} changes (safe: ${byImpact[SchemaChangeImpact.SAFE] ?? 0}, warning: ${byImpact[SchemaChangeImpact.WARNING] ?? 0}, breaking: ${byImpact[SchemaChangeImpact.BREAKING] ?? 0})`
+	);
+
+	for (const recommendation of comparison.recommendations) {
+		io.stdout(recommendation);
+	}
+}
+
+/**
+ * Load a schema from a JSON file, a Drizzle schema file, a pg_dump file or a generated project directory
+ */
+async function loadSchema(path: string, dialect?: DatabaseDialect): Promise<ProjectGeneratorConfig> {
+	const stats = await fs.stat(path).catch(() => undefined);
+	if (!stats) {
+		throw new Error(`Path '${path}' does not exist.`);
+	}
+
+	if (!stats.isDirectory() && !path.endsWith(".ts")) {
+		return await loadSchemaFile(path, dialect);
+	}
+
+	const result = stats.isDirectory() ? await new SchemaReader(path, dialect).readSchema() : await new SchemaReader(process.cwd(), dialect).readFiles([path]);
+	if (!result.success || !result.schema) {
+		throw new Error(`Could not read project '${path}': ${(result.errors ?? [result.message]).join("; ")}`);
+	}
+
+	return result.schema;
+}
+
+/**
+ * Load a ProjectGeneratorConfig from a JSON file or a PostgreSQL DDL script
+ */
+async function loadSchemaFile(path: string, dialect?: DatabaseDialect): Promise<ProjectGeneratorConfig> {
+	if (path.endsWith(".sql")) {
+		const result = await readDdlFile(path);
+		if (result.errors) {
+			throw new Error(`Could not read SQL file '${path}': ${result.errors.join("; ")}`);
+		}
+		// DDL scripts do not name an output directory, so generate and apply require --out
+		return { outputDir: "", dialect: "postgresql", enums: result.enums, tables: result.tables };
+	}
+
+	let schema: ProjectGeneratorConfig;
+	try {
+		schema = JSON.parse(await fs.readFile(path, "utf-8"));
+	} catch (error) {
+		throw new Error(`Could not read schema file '${path}': ${error instanceof Error ? error.message : error}`);
+	}
+
+	if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+		throw new Error(`Schema file '${path}' must contain a JSON object.`);
+	}
+
+	const validation = validateConfig(schema);
+	if (!validation.valid) {
+		throw new Error(`Schema file '${path}' is invalid:\n  ${formatValidationErrors(validation.errors).join("\n  ")}`);
+	}
+
+	return dialect ? { ...schema, dialect } : schema;
+}
+
+/**
+ * Check whether the read arguments name a single generated project directory rather than files or globs
+ */
+async function isProjectDirectory(paths: string[]): Promise<boolean> {
+	if (paths.length !== 1 || isGlob(paths[0])) {
+		return false;
+	}
+
+	const stats = await fs.stat(paths[0]).catch(() => undefined);
+	if (!stats?.isDirectory()) {
+		return false;
+	}
+
+	// Generated projects have an index.ts or one of the generated subdirectories
+	const markers = ["index.ts", "enums", "helpers", "tables"];
+	const entries = await fs.readdir(paths[0]);
+	return markers.some((marker) => entries.includes(marker));
+}
+
+/**
+ * Ensure a command received its positional arguments
+ */
+function requirePositionals(args: ParsedArgs, count: number, usage: string): string[] {
+	if (args.positionals.length < count) {
+		throw new Error(`Missing arguments. Usage: drizzle-gen ${usage}`);
+	}
+
+	return args.positionals.slice(0, count);
+}
+
+/**
+ * Parse command line arguments into a command, positionals and flags
+ */
+function parseArgs(argv: string[]): ParsedArgs {
+	const args: ParsedArgs = { positionals: [], json: false, allowBreaking: false, dryRun: false, prune: false, help: false };
+
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i];
+
+		if (!arg.startsWith("--")) {
+			if (args.command === undefined) {
+				args.command = arg;
+			} else {
+				args.positionals.push(arg);
+			}
+			continue;
+		}
+
+		const [flag, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+
+		switch (flag) {
+			case "out":
+			case "dialect": {
+				const value = inlineValue ?? argv[++i];
+				if (value === undefined || value.startsWith("--")) {
+					throw new Error(`Option '--${flag}' requires a value.`);
+				}
+				args[flag] = value;
+				break;
+			}
+			case "json":
+				args.json = true;
+				break;
+			case "allow-breaking":
+				args.allowBreaking = true;
+				break;
+			case "dry-run":
+				args.dryRun = true;
+				break;
+			case "prune":
+				args.prune = true;
+				break;
+			case "help":
+				args.help = true;
+				break;
+			default:
+				throw new Error(`Unknown option '--${flag}'.`);
+		}
+	}
+
+	return args;
+}
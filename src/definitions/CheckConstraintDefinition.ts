@@ -0,0 +1,8 @@
+/**
+ * Interface for a named CHECK constraint on a table.
+ */
+export interface CheckConstraintDefinition {
+	name: string;
+	/** SQL boolean expression, e.g. "price >= 0" */
+	expression: string;
+}
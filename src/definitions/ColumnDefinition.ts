@@ -5,6 +5,7 @@ import { ColumnOptions } from "./index.js";
  */
 export interface ColumnDefinition {
 	name: string;
+	dbName?: string;
 	type?: string;
 	options?: ColumnOptions;
 }
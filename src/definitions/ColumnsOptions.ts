@@ -1,13 +1,44 @@
 import { ReferenceDefinition } from "./index.js";
 
+/**
+ * Fields an interval column is restricted to.
+ */
+export type IntervalFields =
+	| "year"
+	| "month"
+	| "day"
+	| "hour"
+	| "minute"
+	| "second"
+	| "year to month"
+	| "day to hour"
+	| "day to minute"
+	| "day to second"
+	| "hour to minute"
+	| "hour to second"
+	| "minute to second";
+
 /**
  * Interface for column configuration options.
  */
 export interface ColumnOptions {
 	notNull?: boolean;
 	primaryKey?: boolean;
+	unique?: boolean;
 	default?: string | number | boolean;
 	length?: number;
+	/** Total digits of numeric columns, or fractional second digits of timestamp, time and interval columns */
+	precision?: number;
+	/** Digits after the decimal point of numeric columns */
+	scale?: number;
+	/** Fields of interval columns, e.g. 'day to second' */
+	fields?: IntervalFields;
+	/** Store timestamp and time columns with their time zone */
+	withTimezone?: boolean;
+	/** Whether timestamp values are read as Date objects or strings */
+	mode?: "date" | "string";
+	/** Make the column an array; a number gives the dimensions of multi-dimensional arrays */
+	array?: boolean | number;
 	enumValues?: string;
 	references?: ReferenceDefinition;
 }
@@ -0,0 +1,24 @@
+/**
+ * Interface for a problem found while validating a config.
+ */
+export interface ConfigValidationError {
+	/** JSON path of the offending value, e.g. "$.tables[0].columns[2].options.notnull" */
+	path: string;
+	message: string;
+}
+
+/**
+ * Interface for the options of validateConfig
+ */
+export interface ConfigValidationOptions {
+	/** Require `outputDir`, which config files may leave to the CLI --out option but generation needs */
+	requireOutputDir?: boolean;
+}
+
+/**
+ * Interface for the return object of validateConfig
+ */
+export interface ConfigValidationResult {
+	valid: boolean;
+	errors: ConfigValidationError[];
+}
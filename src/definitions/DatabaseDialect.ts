@@ -0,0 +1,5 @@
+/**
+ * Name of a registered database dialect. The built-in dialects are listed for
+ * autocompletion; additional ones can be added with `registerDialect`.
+ */
+export type DatabaseDialect = "postgresql" | "mysql" | "sqlite" | (string & {});
@@ -0,0 +1,13 @@
+import { EnumDefinition, TableDefinition } from "./index.js";
+
+/**
+ * Interface for the return object of DdlParser
+ */
+export interface DdlParserResult {
+	enums: EnumDefinition[];
+	tables: TableDefinition[];
+	/** SQL features that could not be represented exactly in the definitions */
+	warnings: string[];
+	/** Statements that could not be parsed, with their line number */
+	errors?: string[];
+}
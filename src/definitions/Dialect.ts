@@ -0,0 +1,66 @@
+import { ColumnOptions } from "./index.js";
+
+/**
+ * Interface for the Drizzle builder that renders a JSON column type.
+ */
+export interface DialectColumnType {
+	/** Builder function name, e.g. 'varchar' */
+	func: string;
+	/** Config entries always passed to the builder, e.g. { mode: "boolean" } */
+	config?: { [key: string]: string | number | boolean };
+	/** Whether `options.length` is passed to the builder config */
+	acceptsLength?: boolean;
+	/** Length used when the column does not declare one */
+	defaultLength?: number;
+	/** Whether primary keys of this type are declared as auto-incrementing */
+	autoIncrement?: boolean;
+	/** Column options passed to the builder config when set, e.g. precision and scale */
+	configOptions?: (keyof ColumnOptions)[];
+	/** SQL type declared through customType() when the dialect has no builder for it; `func` is then 'customType' */
+	customType?: { dataType: string; data: string };
+}
+
+/**
+ * Interface for a rule mapping a parsed Drizzle builder back to a JSON column type.
+ */
+export interface DialectParseRule {
+	func: string;
+	mode?: string;
+	autoIncrement?: boolean;
+	/** Whether the rule only matches builders declaring a length */
+	length?: boolean;
+	type: string;
+}
+
+/**
+ * How a dialect declares enum columns:
+ * - native: the enum file declares an enum object (pgEnum) that columns call directly
+ * - argument: the enum file exports a values tuple passed as the builder's second argument
+ * - config: the enum file exports a values tuple passed as the builder's `enum` config
+ */
+export type DialectEnumStrategy = "native" | "argument" | "config";
+
+/**
+ * Interface for a database dialect shared by the generators and SchemaReader.
+ */
+export interface Dialect {
+	name: string;
+	importPath: string;
+	tableFactory: string;
+	enumFactory: string;
+	enumStrategy: DialectEnumStrategy;
+	types: { [type: string]: DialectColumnType };
+	/** SQL expression rendered for `sql.now()` defaults */
+	nowExpression: string;
+	/**
+	 * How index methods are rendered: "using" replaces `.on()` with `.using(method, ...columns)`,
+	 * "chained" appends `.using(method)` after `.on()`. Index methods are rejected when omitted.
+	 */
+	indexMethodStyle?: "using" | "chained";
+	/** Whether partial indexes (`.where()`) are supported */
+	partialIndexes?: boolean;
+	/** Whether columns can be arrays (`.array()`) */
+	arrays?: boolean;
+	/** Reverse-parse rules, checked in order; derived from `types` when omitted */
+	parseRules?: DialectParseRule[];
+}
@@ -3,5 +3,6 @@
  */
 export interface EnumDefinition {
 	name: string;
+	dbName?: string;
 	values: string[];
 }
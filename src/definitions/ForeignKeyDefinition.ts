@@ -1,9 +1,14 @@
+/**
+ * Referential action applied when a referenced row is deleted or updated.
+ */
+export type ReferentialAction = "cascade" | "restrict" | "set null" | "set default" | "no action";
+
 /**
  * Interface for foreign key constraint definition.
  */
 export interface ForeignKeyDefinition {
 	referencesTable: string;
 	referencesColumn: string;
-	onDelete?: "cascade" | "restrict" | "set null" | "no action";
-	onUpdate?: "cascade" | "restrict" | "set null" | "no action";
+	onDelete?: ReferentialAction;
+	onUpdate?: ReferentialAction;
 }
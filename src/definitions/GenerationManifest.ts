@@ -0,0 +1,9 @@
+/**
+ * Interface for the manifest ProjectGenerator writes alongside the generated files, recording
+ * what the last generation wrote so the next one can find orphaned and hand-edited files.
+ */
+export interface GenerationManifest {
+	version: 1;
+	/** SHA-256 of each generated file outside its custom regions, keyed by its path relative to outputDir */
+	files: { [path: string]: string };
+}
@@ -0,0 +1,14 @@
+/**
+ * Interface for restricting a project generation to a subset of its files.
+ * Entities that are not listed are still validated and kept in the index
+ * files, but their own files are not rewritten.
+ */
+export interface GenerationTargets {
+	enums?: string[];
+	helpers?: string[];
+	tables?: string[];
+	/** Rewrite the index files, needed when entities are added or removed */
+	indexes?: boolean;
+	/** Files of removed or renamed entities to delete, relative to the output directory */
+	remove?: string[];
+}
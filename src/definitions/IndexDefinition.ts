@@ -0,0 +1,12 @@
+/**
+ * Interface for a secondary index on a table.
+ */
+export interface IndexDefinition {
+	name: string;
+	columns: string[];
+	unique?: boolean;
+	/** SQL predicate for a partial index, e.g. "deleted_at is null" */
+	where?: string;
+	/** Index access method, e.g. "btree" or "gin" */
+	method?: string;
+}
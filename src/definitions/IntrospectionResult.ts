@@ -0,0 +1,29 @@
+import { ProjectGeneratorConfig } from "./ProjectGeneratorConfig.js";
+
+/**
+ * Runs a SQL query against the database and resolves to its rows.
+ * With node-postgres: `(sql, params) => client.query(sql, params).then((result) => result.rows)`
+ */
+export type DatabaseQuery = (sql: string, params?: unknown[]) => Promise<Record<string, any>[]>;
+
+/**
+ * Interface for database introspection options.
+ */
+export interface IntrospectionOptions {
+	/** Database schema to read, defaults to "public" */
+	schema?: string;
+	/** Output directory set on the produced config, defaults to "./db" */
+	outputDir?: string;
+}
+
+/**
+ * Interface for the result of introspecting a database or a schema dump.
+ */
+export interface IntrospectionResult {
+	success: boolean;
+	message: string;
+	schema?: ProjectGeneratorConfig;
+	/** Database features that could not be represented exactly in the definitions */
+	warnings: string[];
+	errors?: string[];
+}
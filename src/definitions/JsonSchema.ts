@@ -0,0 +1,26 @@
+/**
+ * JSON types a schema can require.
+ */
+export type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+/**
+ * Interface for the subset of JSON Schema (draft-07) used to describe and validate configs.
+ */
+export interface JsonSchema {
+	$schema?: string;
+	$ref?: string;
+	title?: string;
+	description?: string;
+	type?: JsonSchemaType | JsonSchemaType[];
+	enum?: (string | number | boolean)[];
+	properties?: { [name: string]: JsonSchema };
+	required?: string[];
+	additionalProperties?: boolean;
+	items?: JsonSchema;
+	anyOf?: JsonSchema[];
+	minItems?: number;
+	minLength?: number;
+	minimum?: number;
+	uniqueItems?: boolean;
+	definitions?: { [name: string]: JsonSchema };
+}
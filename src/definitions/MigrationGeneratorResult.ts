@@ -0,0 +1,12 @@
+/**
+ * Interface for the return object of MigrationGenerator
+ */
+export interface MigrationGeneratorResult {
+	/** Statements applying the changes, in execution order */
+	up: string[];
+	/** Statements reverting the changes, in execution order */
+	down: string[];
+	/** Changes that could not be fully expressed in SQL */
+	warnings: string[];
+	error?: string;
+}
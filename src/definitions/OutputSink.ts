@@ -0,0 +1,22 @@
+/**
+ * Interface for the destination ProjectGenerator writes files to, e.g. the file system,
+ * an in-memory map or a zip archive.
+ */
+export interface OutputSink {
+	/** Read a file, resolving to undefined when it does not exist */
+	read(path: string): Promise<string | undefined>;
+	/** Write a file, creating its parent directories */
+	write(path: string, content: string): Promise<void>;
+	/** Delete a file, ignoring files that do not exist */
+	remove(path: string): Promise<void>;
+	/** Create a directory and its parents; sinks without directories can ignore it */
+	mkdir(path: string): Promise<void>;
+}
+
+/**
+ * Interface for ProjectGenerator options that are not part of the JSON config.
+ */
+export interface ProjectGeneratorOptions {
+	/** Where files are written, defaults to the file system */
+	sink?: OutputSink;
+}
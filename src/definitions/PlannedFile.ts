@@ -0,0 +1,15 @@
+/**
+ * What a generation does to a file compared to the existing one.
+ */
+export type PlannedFileStatus = "created" | "modified" | "unchanged" | "deleted";
+
+/**
+ * Interface for a file a dry-run generation would write.
+ */
+export interface PlannedFile {
+	path: string;
+	content: string;
+	status: PlannedFileStatus;
+	/** Unified diff against the existing file, for modified and deleted files */
+	diff?: string;
+}
@@ -1,12 +1,25 @@
-import { EnumDefinition, HelperDefinition, TableDefinition } from "./index.js";
+import { DatabaseDialect, EnumDefinition, HelperDefinition, RelationsConfig, TableDefinition } from "./index.js";
 
 /**
  * Interface for the main project generation configuration
  */
 export interface ProjectGeneratorConfig {
+	/** Human readable name of the schema, not used by the generators */
+	name?: string;
+	/** Human readable description of the schema, not used by the generators */
+	description?: string;
 	outputDir: string;
+	dialect?: DatabaseDialect;
 	enums?: EnumDefinition[];
 	helpers?: HelperDefinition[];
 	tables?: TableDefinition[];
+	/** Generate relations() definitions; pass a config to override names or add many-to-many relations */
+	relations?: boolean | RelationsConfig;
 	overwrite?: boolean;
+	/** Plan the files without writing them; the result lists their content, status and diff */
+	dryRun?: boolean;
+	/** Delete the files of the previous generation that the config no longer produces */
+	prune?: boolean;
+	/** Keep files edited by hand since the last generation and fail the run, instead of overwriting them */
+	keepEditedFiles?: boolean;
 }
\ No newline at end of file
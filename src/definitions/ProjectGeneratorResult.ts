@@ -1,3 +1,5 @@
+import { PlannedFile } from "./PlannedFile.js";
+
 /**
  * Interface for generation results
  */
@@ -6,14 +8,24 @@ export interface ProjectGeneratorResult {
     message: string;
     errors?: string[];
     generatedFiles: string[];
+    /** Files a dry run would write, in generation order */
+    plannedFiles?: PlannedFile[];
+    /** Files of the previous generation that the config no longer produces and were left in place */
+    orphanedFiles?: string[];
+    /** Orphaned files deleted because of the prune option */
+    removedFiles?: string[];
+    /** Files changed by hand since the previous generation, outside their custom regions */
+    editedFiles?: string[];
     structure: {
         enumsDir: string;
         helpersDir: string;
         tablesDir: string;
+        relationsDir: string;
         files: {
             enums: string[];
             helpers: string[];
             tables: string[];
+            relations: string[];
             indexes: string[];
         };
     };
@@ -1,7 +1,11 @@
+import { ReferentialAction } from "./ForeignKeyDefinition.js";
+
 /**
  * Interface for foreign key reference configuration
  */
 export interface ReferenceDefinition {
 	table: string;
 	column: string;
+	onDelete?: ReferentialAction;
+	onUpdate?: ReferentialAction;
 }
@@ -0,0 +1,43 @@
+import { ReferenceDefinition } from "./ReferenceDefinition.js";
+
+/**
+ * Interface for overriding the names of a relation inferred from a foreign key.
+ */
+export interface RelationOverride {
+	/** Table that owns the foreign key column */
+	table: string;
+	/** Foreign key column */
+	column: string;
+	/** Name of the one() relation on the owning table */
+	name?: string;
+	/** Name of the many() relation on the referenced table */
+	inverseName?: string;
+}
+
+/**
+ * Interface for one side of a many-to-many junction table.
+ */
+export interface JunctionSideDefinition {
+	/** Foreign key column on the junction table */
+	column: string;
+	references: ReferenceDefinition;
+	/** Name of the many() relation from the referenced table to the junction table */
+	name?: string;
+}
+
+/**
+ * Interface for an explicit many-to-many relation through a junction table.
+ */
+export interface ManyToManyDefinition {
+	through: string;
+	left: JunctionSideDefinition;
+	right: JunctionSideDefinition;
+}
+
+/**
+ * Interface for relations generation options.
+ */
+export interface RelationsConfig {
+	overrides?: RelationOverride[];
+	manyToMany?: ManyToManyDefinition[];
+}
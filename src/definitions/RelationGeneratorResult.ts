@@ -0,0 +1,9 @@
+/**
+ * Interface for the return object of RelationGenerator
+ */
+export interface RelationGeneratorResult {
+	relationCode: string;
+	imports: { [importPath: string]: string[] };
+	tables: string[];
+	error?: string;
+}
@@ -13,6 +13,8 @@ export interface SchemaReaderResult {
 		tables: string[];
 		indexes: string[];
 	};
+	/** Names and values that a regeneration would not write back exactly as read */
+	warnings?: string[];
 	errors?: string[];
 	metadata: {
 		lastModified: Date;
@@ -49,6 +51,7 @@ export type SchemaChangeType =
 	| "enum_modified"
 	| "enum_value_added"
 	| "enum_value_removed"
+	| "enum_value_renamed"
 	// Helper changes
 	| "helper_added"
 	| "helper_removed"
@@ -60,16 +63,29 @@ export type SchemaChangeType =
 	| "table_added"
 	| "table_removed"
 	| "table_modified"
+	| "table_renamed"
 	| "table_column_added"
 	| "table_column_removed"
 	| "table_column_modified"
 	| "table_helper_reference_added"
 	| "table_helper_reference_removed"
 	| "table_composite_primary_key_changed"
+	// Index changes
+	| "index_added"
+	| "index_removed"
+	// Unique constraint changes
+	| "unique_constraint_added"
+	| "unique_constraint_removed"
+	// Check constraint changes
+	| "check_constraint_added"
+	| "check_constraint_removed"
+	| "check_constraint_modified"
 	// Column changes
+	| "column_renamed"
 	| "column_type_changed"
 	| "column_primary_key_changed"
 	| "column_not_null_changed"
+	| "column_unique_changed"
 	| "column_default_changed"
 	| "column_references_changed";
 
@@ -89,12 +105,36 @@ export interface SchemaChange {
 	details?: any;
 }
 
+/**
+ * Explicit rename hints for a schema comparison, mapping old names to new names
+ */
+export interface SchemaRenameHints {
+	/** Old table name -> new table name */
+	tables?: Record<string, string>;
+	/** New table or helper name -> old column name -> new column name */
+	columns?: Record<string, Record<string, string>>;
+	/** Enum name -> old value -> new value */
+	enumValues?: Record<string, Record<string, string>>;
+}
+
+/**
+ * Interface for schema comparison options
+ */
+export interface SchemaComparisonOptions {
+	renames?: SchemaRenameHints;
+	/** Treat a single removed and added column with the same definition as a rename, defaults to true */
+	detectRenames?: boolean;
+}
+
 /**
  * Interface for schema update results
  */
 export interface SchemaUpdateResult {
 	applied: SchemaChange[];
 	rejected: SchemaChange[];
+	/** Files written or deleted while applying the changes */
+	files: string[];
+	errors?: string[];
 	metadata: {
 		totalChanges: number;
 		appliedCount: number;
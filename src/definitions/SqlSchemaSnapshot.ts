@@ -0,0 +1,65 @@
+/**
+ * Interface for an enum type read from a database or DDL script.
+ */
+export interface SqlEnumSnapshot {
+	name: string;
+	values: string[];
+}
+
+/**
+ * Interface for a table column read from a database or DDL script.
+ */
+export interface SqlColumnSnapshot {
+	name: string;
+	/** SQL type as formatted by PostgreSQL, e.g. "character varying(255)" or "user_status" */
+	type: string;
+	notNull: boolean;
+	/** Default expression, e.g. "now()" or "'Active'::user_status" */
+	default?: string;
+}
+
+/**
+ * Interface for a table constraint read from a database or DDL script.
+ */
+export interface SqlConstraintSnapshot {
+	name: string;
+	type: "primary_key" | "unique" | "foreign_key" | "check";
+	columns: string[];
+	references?: {
+		table: string;
+		columns: string[];
+		onDelete?: string;
+		onUpdate?: string;
+	};
+	/** Expression of a check constraint */
+	expression?: string;
+}
+
+/**
+ * Interface for a secondary index read from a database or DDL script.
+ */
+export interface SqlIndexSnapshot {
+	name: string;
+	columns: string[];
+	unique: boolean;
+	method?: string;
+	where?: string;
+}
+
+/**
+ * Interface for a table read from a database or DDL script.
+ */
+export interface SqlTableSnapshot {
+	name: string;
+	columns: SqlColumnSnapshot[];
+	constraints: SqlConstraintSnapshot[];
+	indexes: SqlIndexSnapshot[];
+}
+
+/**
+ * Interface for the SQL-level structure of a database schema, before it is mapped to definitions.
+ */
+export interface SqlSchemaSnapshot {
+	enums: SqlEnumSnapshot[];
+	tables: SqlTableSnapshot[];
+}
@@ -1,4 +1,7 @@
 import { ColumnDefinition } from "./ColumnDefinition.js";
+import { IndexDefinition } from "./IndexDefinition.js";
+import { UniqueConstraintDefinition } from "./UniqueConstraintDefinition.js";
+import { CheckConstraintDefinition } from "./CheckConstraintDefinition.js";
 
 /**
  * Interface for table definition.
@@ -9,4 +12,7 @@ export interface TableDefinition {
 	columns: ColumnDefinition[];
 	helperReferences?: string[];
 	compositePrimaryKey?: string[];
+	indexes?: IndexDefinition[];
+	uniqueConstraints?: UniqueConstraintDefinition[];
+	checks?: CheckConstraintDefinition[];
 }
@@ -0,0 +1,7 @@
+/**
+ * Interface for a table-level (possibly composite) unique constraint.
+ */
+export interface UniqueConstraintDefinition {
+	name: string;
+	columns: string[];
+}
@@ -2,12 +2,29 @@ export * from "./ForeignKeyDefinition.js";
 export * from "./ColumnDefinition.js";
 export * from "./HelperDefinition.js";
 export * from "./TableDefinition.js";
+export * from "./IndexDefinition.js";
+export * from "./UniqueConstraintDefinition.js";
+export * from "./CheckConstraintDefinition.js";
 export * from "./EnumDefinition.js";
 export * from "./ColumnsOptions.js";
 export * from "./ReferenceDefinition.js";
+export * from "./RelationDefinition.js";
 export * from "./ColumnGeneratorResult.js";
 export * from "./HelperGeneratorResult.js";
 export * from "./TableGeneratorResult.js";
+export * from "./RelationGeneratorResult.js";
+export * from "./MigrationGeneratorResult.js";
+export * from "./SqlSchemaSnapshot.js";
+export * from "./DdlParserResult.js";
+export * from "./IntrospectionResult.js";
 export * from "./ProjectGeneratorConfig.js";
+export * from "./JsonSchema.js";
+export * from "./ConfigValidationResult.js";
+export * from "./GenerationTargets.js";
 export * from "./EnumGeneratorResult.js";
 export * from "./ProjectGeneratorResult.js";
+export * from "./PlannedFile.js";
+export * from "./OutputSink.js";
+export * from "./GenerationManifest.js";
+export * from "./DatabaseDialect.js";
+export * from "./Dialect.js";
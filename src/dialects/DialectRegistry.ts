@@ -0,0 +1,81 @@
+import { ColumnOptions, Dialect, DialectParseRule } from "../definitions/index.js";
+import { PostgresDialect } from "./PostgresDialect.js";
+import { MySqlDialect } from "./MySqlDialect.js";
+import { SqliteDialect } from "./SqliteDialect.js";
+
+const dialects = new Map<string, Dialect>();
+
+/**
+ * Register a dialect so generators and SchemaReader can resolve it by name.
+ * Registering an existing name replaces the previous dialect.
+ */
+export function registerDialect(dialect: Dialect): void {
+	dialects.set(dialect.name, dialect);
+}
+
+/**
+ * Get a registered dialect by name
+ */
+export function getDialect(name: string): Dialect | undefined {
+	return dialects.get(name);
+}
+
+/**
+ * Get all registered dialects
+ */
+export function getRegisteredDialects(): Dialect[] {
+	return [...dialects.values()];
+}
+
+/**
+ * Get the reverse-parse rules of a dialect, deriving them from its type map when
+ * none are declared. Rules with a mode or auto-increment requirement come first;
+ * custom types use their SQL data type as the mode.
+ */
+export function getParseRules(dialect: Dialect): DialectParseRule[] {
+	if (dialect.parseRules) {
+		return dialect.parseRules;
+	}
+
+	const rules: DialectParseRule[] = Object.entries(dialect.types).map(([type, columnType]) => ({
+		func: columnType.func,
+		mode: columnType.customType?.dataType ?? (typeof columnType.config?.mode === "string" ? columnType.config.mode : undefined),
+		autoIncrement: columnType.autoIncrement,
+		type,
+	}));
+
+	const specificity = (rule: DialectParseRule) => (rule.mode || rule.autoIncrement || rule.length ? 0 : 1);
+	return rules.sort((a, b) => specificity(a) - specificity(b));
+}
+
+/**
+ * Resolve a Drizzle builder call back to the JSON column type of a dialect
+ */
+export function resolveColumnType(dialect: Dialect, func: string, mode?: string, autoIncrement = false, hasLength = false): string | undefined {
+	const rule = getParseRules(dialect).find(
+		(r) => r.func === func && (r.mode === undefined || r.mode === mode) && (!r.autoIncrement || autoIncrement) && (!r.length || hasLength)
+	);
+	return rule?.type;
+}
+
+/**
+ * Resolve a JSON column type to the type and length SchemaReader reads back from its generated builder.
+ * Types rendering the same builder, such as MySQL uuid and varchar(36), then compare equal.
+ */
+export function normalizeColumnType(dialect: Dialect, type: string | undefined, options: ColumnOptions = {}): { type?: string; length?: number } {
+	const columnType = type ? dialect.types[type.toLowerCase()] : undefined;
+	if (!columnType) {
+		return { type, length: options.length };
+	}
+
+	const length = columnType.acceptsLength ? (options.length ?? columnType.defaultLength) : undefined;
+	const mode = columnType.customType?.dataType ?? (typeof columnType.config?.mode === "string" ? columnType.config.mode : undefined);
+	const autoIncrement = !!columnType.autoIncrement && !!options.primaryKey;
+	const resolved = resolveColumnType(dialect, columnType.func, mode, autoIncrement, length !== undefined) ?? type!.toLowerCase();
+
+	return { type: resolved, length: length ?? dialect.types[resolved]?.defaultLength };
+}
+
+registerDialect(PostgresDialect);
+registerDialect(MySqlDialect);
+registerDialect(SqliteDialect);
@@ -0,0 +1,36 @@
+import { Dialect } from "../definitions/index.js";
+
+/**
+ * MySQL dialect targeting drizzle-orm/mysql-core.
+ */
+export const MySqlDialect: Dialect = {
+	name: "mysql",
+	importPath: "drizzle-orm/mysql-core",
+	tableFactory: "mysqlTable",
+	enumFactory: "mysqlEnum",
+	enumStrategy: "argument",
+	nowExpression: "now()",
+	indexMethodStyle: "chained",
+	types: {
+		serial: { func: "serial" },
+		// MySQL varchar requires an explicit length
+		string: { func: "varchar", acceptsLength: true, defaultLength: 255 },
+		text: { func: "text" },
+		number: { func: "int" },
+		bigint: { func: "bigint" },
+		boolean: { func: "boolean" },
+		date: { func: "datetime" },
+		json: { func: "json" },
+		uuid: { func: "varchar", acceptsLength: true, defaultLength: 36 },
+	},
+	parseRules: [
+		{ func: "serial", type: "serial" },
+		{ func: "varchar", type: "string" },
+		{ func: "text", type: "text" },
+		{ func: "int", type: "number" },
+		{ func: "bigint", type: "bigint" },
+		{ func: "boolean", type: "boolean" },
+		{ func: "datetime", type: "date" },
+		{ func: "json", type: "json" },
+	],
+};
@@ -0,0 +1,47 @@
+import { Dialect } from "../definitions/index.js";
+
+/**
+ * PostgreSQL dialect targeting drizzle-orm/pg-core.
+ */
+export const PostgresDialect: Dialect = {
+	name: "postgresql",
+	importPath: "drizzle-orm/pg-core",
+	tableFactory: "pgTable",
+	enumFactory: "pgEnum",
+	enumStrategy: "native",
+	nowExpression: "now()",
+	indexMethodStyle: "using",
+	partialIndexes: true,
+	arrays: true,
+	types: {
+		serial: { func: "serial" },
+		string: { func: "varchar", acceptsLength: true },
+		text: { func: "text" },
+		number: { func: "integer" },
+		// bigint and bigserial require a mode; number keeps values as JavaScript numbers
+		bigint: { func: "bigint", config: { mode: "number" } },
+		boolean: { func: "boolean" },
+		date: { func: "timestamp", configOptions: ["precision", "withTimezone", "mode"] },
+		json: { func: "jsonb" },
+		uuid: { func: "uuid" },
+		smallint: { func: "smallint" },
+		smallserial: { func: "smallserial" },
+		bigserial: { func: "bigserial", config: { mode: "number" } },
+		numeric: { func: "numeric", configOptions: ["precision", "scale"] },
+		decimal: { func: "decimal", configOptions: ["precision", "scale"] },
+		real: { func: "real" },
+		double: { func: "doublePrecision" },
+		char: { func: "char", acceptsLength: true },
+		// SQL date; the date type above is timestamp, kept for existing schemas
+		dateonly: { func: "date" },
+		time: { func: "time", configOptions: ["precision", "withTimezone"] },
+		interval: { func: "interval", configOptions: ["fields", "precision"] },
+		inet: { func: "inet" },
+		cidr: { func: "cidr" },
+		macaddr: { func: "macaddr" },
+		// drizzle-orm/pg-core has no bytea builder
+		bytea: { func: "customType", customType: { dataType: "bytea", data: "Buffer" } },
+		// SQL json; the json type above is jsonb, kept for existing schemas
+		plainjson: { func: "json" },
+	},
+};
@@ -0,0 +1,37 @@
+import { Dialect } from "../definitions/index.js";
+
+/**
+ * SQLite dialect targeting drizzle-orm/sqlite-core. SQLite has no native
+ * boolean, date, json or enum types, so those are stored through column modes.
+ */
+export const SqliteDialect: Dialect = {
+	name: "sqlite",
+	importPath: "drizzle-orm/sqlite-core",
+	tableFactory: "sqliteTable",
+	enumFactory: "text",
+	enumStrategy: "config",
+	nowExpression: "(unixepoch())",
+	partialIndexes: true,
+	types: {
+		serial: { func: "integer", autoIncrement: true },
+		string: { func: "text", acceptsLength: true },
+		text: { func: "text" },
+		number: { func: "integer" },
+		bigint: { func: "blob", config: { mode: "bigint" } },
+		boolean: { func: "integer", config: { mode: "boolean" } },
+		date: { func: "integer", config: { mode: "timestamp" } },
+		json: { func: "text", config: { mode: "json" } },
+		uuid: { func: "text" },
+	},
+	parseRules: [
+		{ func: "integer", autoIncrement: true, type: "serial" },
+		{ func: "integer", mode: "boolean", type: "boolean" },
+		{ func: "integer", mode: "timestamp", type: "date" },
+		{ func: "integer", type: "number" },
+		{ func: "blob", mode: "bigint", type: "bigint" },
+		{ func: "text", mode: "json", type: "json" },
+		// string renders text with a length; without one, string and uuid read back as text
+		{ func: "text", length: true, type: "string" },
+		{ func: "text", type: "text" },
+	],
+};
@@ -0,0 +1,4 @@
+export * from "./PostgresDialect.js";
+export * from "./MySqlDialect.js";
+export * from "./SqliteDialect.js";
+export * from "./DialectRegistry.js";
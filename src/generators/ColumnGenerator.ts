@@ -1,11 +1,13 @@
-import { ColumnDefinition, ColumnGeneratorResult } from "../definitions";
-import { TypeMap, addImportToMap, PascalCase } from "../utils";
+import { ColumnDefinition, ColumnGeneratorResult, DatabaseDialect } from "../definitions";
+import { addImportToMap, arrayDimensions, PascalCase } from "../utils";
+import { getDialect } from "../dialects/index.js";
 
 /**
  * Converts a column definition to Drizzle column code with imports and table references.
  */
-export function ColumnGenerator(definition: ColumnDefinition): ColumnGeneratorResult {
-	const { name, type, options = {} } = definition;
+export function ColumnGenerator(definition: ColumnDefinition, dialect: DatabaseDialect = "postgresql"): ColumnGeneratorResult {
+	const { name, dbName, type, options = {} } = definition;
+	const columnName = dbName || name;
 
 	const result: ColumnGeneratorResult = {
 		column: "",
@@ -26,59 +28,112 @@ export function ColumnGenerator(definition: ColumnDefinition): ColumnGeneratorRe
 		}
 	}
 
-	const drizzleFunc = TypeMap[inferredType.toLowerCase()];
-
-	if (!drizzleFunc) {
-		result.error = `Unsupported type '${inferredType}' for column '${name}'.`;
+	const dialectDef = getDialect(dialect);
+	if (!dialectDef) {
+		result.error = `Unsupported dialect '${dialect}'.`;
 		return result;
 	}
 
-	if (inferredType.toLowerCase() !== "enum") {
-		addImport("drizzle-orm/pg-core", drizzleFunc);
+	const isEnum = inferredType.toLowerCase() === "enum";
+	const columnType = isEnum ? undefined : dialectDef.types[inferredType.toLowerCase()];
+
+	if (!isEnum && !columnType) {
+		result.error = `Unsupported type '${inferredType}' for column '${name}'.`;
+		return result;
 	}
 
 	let columnCode = `${name}: `;
-	let functionArgs: (string | number)[] = [`'${name}'`];
-
-	// Handle type-specific configuration
-	if (drizzleFunc === "varchar" && options.length) {
-		functionArgs.push(`{ length: ${options.length ?? 255} }`);
-	} else if (inferredType.toLowerCase() === "enum" && options.enumValues) {
-		columnCode = `${name}: ${options.enumValues}(`;
-		functionArgs = [`'${name}'`];
+
+	if (isEnum) {
+		if (!options.enumValues) {
+			result.error = `Enum column '${name}' requires 'enumValues' in options.`;
+			return result;
+		}
+
+		switch (dialectDef.enumStrategy) {
+			case "native":
+				columnCode += `${options.enumValues}('${columnName}')`;
+				break;
+			case "argument":
+				addImport(dialectDef.importPath, dialectDef.enumFactory);
+				columnCode += `${dialectDef.enumFactory}('${columnName}', ${options.enumValues})`;
+				break;
+			case "config":
+				addImport(dialectDef.importPath, dialectDef.enumFactory);
+				columnCode += `${dialectDef.enumFactory}('${columnName}', { enum: ${options.enumValues} })`;
+				break;
+		}
 		addImport("../enums/index.js", options.enumValues);
-	}
+	} else if (columnType) {
+		addImport(dialectDef.importPath, columnType.func);
+
+		// Handle type-specific configuration
+		const configEntries: string[] = [];
+		const length = options.length ?? columnType.defaultLength;
+		if (columnType.acceptsLength && length) {
+			configEntries.push(`length: ${length}`);
+		}
+		for (const key of columnType.configOptions ?? []) {
+			const value = options[key];
+			if (value !== undefined) {
+				configEntries.push(`${key}: ${typeof value === "string" ? `'${value}'` : value}`);
+			}
+		}
+		for (const [key, value] of Object.entries(columnType.config ?? {})) {
+			configEntries.push(`${key}: ${typeof value === "string" ? `'${value}'` : value}`);
+		}
+
+		const functionArgs = [`'${columnName}'`];
+		if (configEntries.length > 0) {
+			functionArgs.push(`{ ${configEntries.join(", ")} }`);
+		}
 
-	// Build function call
-	if (inferredType.toLowerCase() === "enum" && options.enumValues) {
-		columnCode += functionArgs.join(", ");
-	} else {
-		columnCode += drizzleFunc + "(" + functionArgs.join(", ");
+		// Types without a builder are declared inline, e.g. customType<{ data: Buffer }>({ dataType: () => 'bytea' })('file')
+		const builder = columnType.customType
+			? `${columnType.func}<{ data: ${columnType.customType.data} }>({ dataType: () => '${columnType.customType.dataType}' })`
+			: columnType.func;
+
+		columnCode += `${builder}(${functionArgs.join(", ")})`;
 	}
 
-	columnCode += ")";
+	// Arrays wrap the element builder, so .array() comes before the other modifiers
+	const dimensions = arrayDimensions(options);
+	if (dimensions > 0) {
+		if (!dialectDef.arrays) {
+			result.error = `Dialect '${dialectDef.name}' does not support array columns.`;
+			return result;
+		}
+		columnCode += ".array()".repeat(dimensions);
+	}
 
 	// Add chainable options
 	if (options.primaryKey) {
-		columnCode += ".primaryKey()";
+		columnCode += columnType?.autoIncrement ? ".primaryKey({ autoIncrement: true })" : ".primaryKey()";
 	}
 
 	if (options.notNull) {
 		columnCode += ".notNull()";
 	}
 
+	if (options.unique) {
+		columnCode += ".unique()";
+	}
+
 	if (options.default !== undefined) {
 		let defaultValue = options.default;
 		if (typeof defaultValue === "string") {
 			if (defaultValue === "sql.now()") {
-				defaultValue = "sql`now()`";
+				defaultValue = `sql\`${dialectDef.nowExpression}\``;
 				addImport("drizzle-orm", "sql");
 			} else if (defaultValue.startsWith("sql.")) {
 				const sqlFunction = defaultValue.replace(/^sql\.(\w+)\(\)$/, "sql`$1()`");
 				defaultValue = sqlFunction;
 				addImport("drizzle-orm", "sql");
+			} else if (defaultValue.startsWith("sql`")) {
+				// Raw expressions such as sql`'{}'::text[]` for array defaults
+				addImport("drizzle-orm", "sql");
 			} else if (!defaultValue.includes("(") && !defaultValue.includes(".") && !defaultValue.includes("`")) {
-				if (inferredType.toLowerCase() === "enum") {
+				if (isEnum) {
 					defaultValue = `'${PascalCase(defaultValue)}'`;
 				} else {
 					defaultValue = `'${defaultValue}'`;
@@ -90,9 +145,15 @@ export function ColumnGenerator(definition: ColumnDefinition): ColumnGeneratorRe
 
 	// Handle foreign key references
 	if (options.references) {
-		const { table, column: refColumn } = options.references;
+		const { table, column: refColumn, onDelete, onUpdate } = options.references;
 		result.tables.push(table);
-		columnCode += `.references(() => ${table}.${refColumn})`;
+
+		const actions: string[] = [];
+		if (onDelete) actions.push(`onDelete: '${onDelete}'`);
+		if (onUpdate) actions.push(`onUpdate: '${onUpdate}'`);
+		const actionConfig = actions.length > 0 ? `, { ${actions.join(", ")} }` : "";
+
+		columnCode += `.references(() => ${table}.${refColumn}${actionConfig})`;
 		addImport("../tables/index.js", table);
 	}
 
@@ -0,0 +1,464 @@
+import { promises as fs } from "fs";
+import {
+	ColumnDefinition,
+	DatabaseQuery,
+	EnumDefinition,
+	IntrospectionOptions,
+	IntervalFields,
+	IntrospectionResult,
+	ReferenceDefinition,
+	ReferentialAction,
+	SqlColumnSnapshot,
+	SqlSchemaSnapshot,
+	SqlTableSnapshot,
+	TableDefinition,
+} from "../definitions/index.js";
+import { getDialect, resolveColumnType } from "../dialects/index.js";
+import { PascalCase, SnakeCase } from "../utils/index.js";
+import { SqlSchemaParser } from "./SqlSchemaParser.js";
+
+/**
+ * SQL type names, as printed by PostgreSQL, mapped to the Drizzle builder producing them
+ */
+const SQL_TYPE_BUILDERS: { [sqlType: string]: string } = {
+	serial: "serial",
+	serial4: "serial",
+	smallserial: "smallserial",
+	serial2: "smallserial",
+	bigserial: "bigserial",
+	serial8: "bigserial",
+	"character varying": "varchar",
+	varchar: "varchar",
+	character: "char",
+	char: "char",
+	bpchar: "char",
+	text: "text",
+	smallint: "smallint",
+	int2: "smallint",
+	integer: "integer",
+	int: "integer",
+	int4: "integer",
+	bigint: "bigint",
+	int8: "bigint",
+	numeric: "numeric",
+	decimal: "numeric",
+	real: "real",
+	float4: "real",
+	"double precision": "doublePrecision",
+	float8: "doublePrecision",
+	boolean: "boolean",
+	bool: "boolean",
+	date: "date",
+	"time without time zone": "time",
+	time: "time",
+	"time with time zone": "time",
+	timetz: "time",
+	"timestamp without time zone": "timestamp",
+	timestamp: "timestamp",
+	"timestamp with time zone": "timestamp",
+	timestamptz: "timestamp",
+	interval: "interval",
+	jsonb: "jsonb",
+	json: "json",
+	uuid: "uuid",
+	inet: "inet",
+	cidr: "cidr",
+	macaddr: "macaddr",
+	bytea: "customType",
+};
+
+/**
+ * Builders of integer columns, mapped to the serial builder a sequence default turns them into
+ */
+const SEQUENCE_BUILDERS: { [builder: string]: string } = {
+	smallint: "smallserial",
+	integer: "serial",
+	bigint: "bigserial",
+};
+
+const REFERENTIAL_ACTIONS: ReferentialAction[] = ["cascade", "restrict", "set null", "set default", "no action"];
+
+const ENUMS_QUERY = `SELECT t.typname AS name, e.enumlabel AS value
+FROM pg_type t
+JOIN pg_enum e ON e.enumtypid = t.oid
+JOIN pg_namespace n ON n.oid = t.typnamespace
+WHERE n.nspname = $1
+ORDER BY t.typname, e.enumsortorder`;
+
+const COLUMNS_QUERY = `SELECT c.relname AS table_name, a.attname AS column_name, format_type(a.atttypid, a.atttypmod) AS data_type,
+	a.attnotnull AS not_null, pg_get_expr(d.adbin, d.adrelid) AS column_default
+FROM pg_class c
+JOIN pg_namespace n ON n.oid = c.relnamespace
+JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+LEFT JOIN pg_attrdef d ON d.adrelid = c.oid AND d.adnum = a.attnum
+WHERE n.nspname = $1 AND c.relkind IN ('r', 'p')
+ORDER BY c.relname, a.attnum`;
+
+const CONSTRAINTS_QUERY = `SELECT c.relname AS table_name, con.conname AS name, pg_get_constraintdef(con.oid) AS definition
+FROM pg_constraint con
+JOIN pg_class c ON c.oid = con.conrelid
+JOIN pg_namespace n ON n.oid = c.relnamespace
+WHERE n.nspname = $1 AND con.contype IN ('p', 'u', 'f', 'c')
+ORDER BY c.relname, con.conname`;
+
+const INDEXES_QUERY = `SELECT t.relname AS table_name, i.relname AS name, pg_get_indexdef(x.indexrelid) AS definition
+FROM pg_index x
+JOIN pg_class i ON i.oid = x.indexrelid
+JOIN pg_class t ON t.oid = x.indrelid
+JOIN pg_namespace n ON n.oid = t.relnamespace
+WHERE n.nspname = $1 AND NOT EXISTS (SELECT 1 FROM pg_constraint con WHERE con.conindid = x.indexrelid)
+ORDER BY t.relname, i.relname`;
+
+/**
+ * Reads the enums, tables, constraints and indexes of a PostgreSQL database, live or from a
+ * `pg_dump --schema-only` dump, back to a ProjectGeneratorConfig
+ */
+export class DatabaseIntrospector {
+	private schemaName: string;
+	private outputDir: string;
+	private warnings: string[] = [];
+
+	constructor(options: IntrospectionOptions = {}) {
+		this.schemaName = options.schema ?? "public";
+		this.outputDir = options.outputDir ?? "./db";
+	}
+
+	/**
+	 * Introspect a live database through the system catalogs
+	 */
+	async introspect(query: DatabaseQuery): Promise<IntrospectionResult> {
+		try {
+			const snapshot = await this.readCatalog(query);
+			return this.buildResult(snapshot, []);
+		} catch (error) {
+			return {
+				success: false,
+				message: `Failed to introspect database: ${error instanceof Error ? error.message : String(error)}`,
+				warnings: [],
+				errors: [String(error)],
+			};
+		}
+	}
+
+	/**
+	 * Introspect the SQL of a schema dump
+	 */
+	introspectDump(sql: string): IntrospectionResult {
+		const { snapshot, errors } = new SqlSchemaParser().parse(sql);
+		return this.buildResult(snapshot, errors);
+	}
+
+	/**
+	 * Query the catalogs into the same snapshot a dump is parsed into
+	 */
+	private async readCatalog(query: DatabaseQuery): Promise<SqlSchemaSnapshot> {
+		const parser = new SqlSchemaParser();
+		const snapshot: SqlSchemaSnapshot = { enums: [], tables: [] };
+
+		for (const row of await query(ENUMS_QUERY, [this.schemaName])) {
+			const enumSnapshot = snapshot.enums.find((e) => e.name === row.name);
+			if (enumSnapshot) {
+				enumSnapshot.values.push(row.value);
+			} else {
+				snapshot.enums.push({ name: row.name, values: [row.value] });
+			}
+		}
+
+		const tableOf = (name: string): SqlTableSnapshot => {
+			let table = snapshot.tables.find((t) => t.name === name);
+			if (!table) {
+				table = { name, columns: [], constraints: [], indexes: [] };
+				snapshot.tables.push(table);
+			}
+			return table;
+		};
+
+		for (const row of await query(COLUMNS_QUERY, [this.schemaName])) {
+			tableOf(row.table_name).columns.push({
+				name: row.column_name,
+				type: row.data_type,
+				notNull: row.not_null === true || row.not_null === "t",
+				default: row.column_default ?? undefined,
+			});
+		}
+
+		for (const row of await query(CONSTRAINTS_QUERY, [this.schemaName])) {
+			tableOf(row.table_name).constraints.push(parser.parseConstraint(row.name, row.definition));
+		}
+
+		for (const row of await query(INDEXES_QUERY, [this.schemaName])) {
+			try {
+				tableOf(row.table_name).indexes.push(parser.parseIndex(row.definition).index);
+			} catch (error) {
+				this.warnings.push(`Skipped index '${row.name}': ${error instanceof Error ? error.message : error}`);
+			}
+		}
+
+		return snapshot;
+	}
+
+	/**
+	 * Map a snapshot to definitions and wrap them in a result
+	 */
+	private buildResult(snapshot: SqlSchemaSnapshot, errors: string[]): IntrospectionResult {
+		const enums = snapshot.enums.map((enumSnapshot) => this.toEnum(enumSnapshot.name, enumSnapshot.values));
+		const tables = snapshot.tables.map((table) => this.toTable(table, snapshot));
+		const warnings = this.warnings;
+		this.warnings = [];
+
+		return {
+			success: errors.length === 0,
+			message:
+				errors.length === 0 ? `Introspected ${enums.length} enums and ${tables.length} tables` : `Introspected ${enums.length} enums and ${tables.length} tables with ${errors.length} errors`,
+			schema: {
+				outputDir: this.outputDir,
+				enums: enums.length > 0 ? enums : undefined,
+				tables: tables.length > 0 ? tables : undefined,
+			},
+			warnings,
+			errors: errors.length > 0 ? errors : undefined,
+		};
+	}
+
+	/**
+	 * Map an enum type; the generator writes PascalCase values and snake_case type names
+	 */
+	private toEnum(dbName: string, dbValues: string[]): EnumDefinition {
+		const name = PascalCase(dbName);
+		if (SnakeCase(name) !== dbName) {
+			this.warnings.push(`Enum '${dbName}' will be generated as '${SnakeCase(name)}'`);
+		}
+
+		const values = dbValues.map((value) => {
+			const jsonValue = SnakeCase(value);
+			if (PascalCase(jsonValue) !== value) {
+				this.warnings.push(`Enum '${dbName}' value '${value}' will be generated as '${PascalCase(jsonValue)}'`);
+			}
+			return jsonValue;
+		});
+
+		return { name, values };
+	}
+
+	/**
+	 * Map a table with its columns, keys, constraints and indexes
+	 */
+	private toTable(table: SqlTableSnapshot, snapshot: SqlSchemaSnapshot): TableDefinition {
+		const tableDef: TableDefinition = {
+			name: PascalCase(table.name),
+			columns: table.columns.map((column) => this.toColumn(table, column, snapshot)),
+		};
+
+		if (table.name !== tableDef.name.toLowerCase()) {
+			tableDef.dbName = table.name;
+		}
+
+		const columnOptions = (name: string) => {
+			const column = tableDef.columns.find((c) => c.name === name)!;
+			return (column.options ??= {});
+		};
+
+		for (const constraint of table.constraints) {
+			const [column] = constraint.columns;
+			const single = constraint.columns.length === 1;
+
+			switch (constraint.type) {
+				case "primary_key":
+					if (single) {
+						// Primary keys are implicitly not null
+						columnOptions(column).primaryKey = true;
+						delete columnOptions(column).notNull;
+					} else {
+						tableDef.compositePrimaryKey = constraint.columns;
+					}
+					break;
+				case "unique":
+					// Single-column constraints with a default name are written as .unique()
+					if (single && [`${table.name}_${column}_key`, `${table.name}_${column}_unique`].includes(constraint.name)) {
+						columnOptions(column).unique = true;
+					} else {
+						(tableDef.uniqueConstraints ??= []).push({ name: constraint.name, columns: constraint.columns });
+					}
+					break;
+				case "foreign_key": {
+					const references = single ? this.toReferences(table, constraint.references!, snapshot) : undefined;
+					if (references) {
+						columnOptions(column).references = references;
+					} else if (!single) {
+						this.warnings.push(`Composite foreign key '${constraint.name}' on table '${table.name}' is not supported`);
+					}
+					break;
+				}
+				case "check":
+					(tableDef.checks ??= []).push({ name: constraint.name, expression: constraint.expression! });
+					break;
+			}
+		}
+
+		for (const index of table.indexes) {
+			(tableDef.indexes ??= []).push({
+				name: index.name,
+				columns: index.columns,
+				...(index.unique ? { unique: true } : {}),
+				...(index.method && index.method !== "btree" ? { method: index.method } : {}),
+				...(index.where ? { where: index.where } : {}),
+			});
+		}
+
+		return tableDef;
+	}
+
+	/**
+	 * Map a single-column foreign key to the referenced table variable and column
+	 */
+	private toReferences(table: SqlTableSnapshot, target: NonNullable<SqlTableSnapshot["constraints"][number]["references"]>, snapshot: SqlSchemaSnapshot): ReferenceDefinition | undefined {
+		// Without a column list the key references the primary key of the target
+		const targetTable = snapshot.tables.find((t) => t.name === target.table);
+		const column = target.columns[0] ?? targetTable?.constraints.find((c) => c.type === "primary_key")?.columns[0];
+		if (!column) {
+			this.warnings.push(`Could not resolve the column referenced by table '${table.name}' in '${target.table}'`);
+			return undefined;
+		}
+
+		const references: ReferenceDefinition = { table: PascalCase(target.table).toLowerCase(), column };
+		for (const key of ["onDelete", "onUpdate"] as const) {
+			const action = target[key];
+			if (action && REFERENTIAL_ACTIONS.includes(action as ReferentialAction)) {
+				references[key] = action as ReferentialAction;
+			} else if (action) {
+				this.warnings.push(`Referential action '${action}' on table '${table.name}' is not supported`);
+			}
+		}
+
+		return references;
+	}
+
+	/**
+	 * Map a column type, nullability and default back to a ColumnDefinition
+	 */
+	private toColumn(table: SqlTableSnapshot, column: SqlColumnSnapshot, snapshot: SqlSchemaSnapshot): ColumnDefinition {
+		const dialect = getDialect("postgresql")!;
+		const where = `'${table.name}.${column.name}'`;
+		const columnDef: ColumnDefinition = { name: column.name };
+		const options: NonNullable<ColumnDefinition["options"]> = {};
+
+		// Drop the schema qualifier of user-defined types
+		let sqlType = column.type.replace(/^[\w$]+\./, "");
+		const arrayBrackets = sqlType.match(/(\[\])+$/)?.[0];
+		if (arrayBrackets) {
+			options.array = arrayBrackets.length > 2 ? arrayBrackets.length / 2 : true;
+			sqlType = sqlType.slice(0, -arrayBrackets.length);
+		}
+
+		const params = sqlType.match(/\(([^)]*)\)/)?.[1].split(",").map((p) => p.trim());
+		const baseType = sqlType.replace(/\([^)]*\)/, "").trim();
+		// Interval fields follow the type name: interval day to second(3)
+		const intervalFields = baseType.match(/^interval (.+)$/)?.[1];
+		const enumSnapshot = snapshot.enums.find((e) => e.name === baseType);
+		let builder = SQL_TYPE_BUILDERS[intervalFields ? "interval" : baseType];
+
+		if (enumSnapshot) {
+			options.enumValues = PascalCase(enumSnapshot.name);
+		} else if (!builder) {
+			this.warnings.push(`Unsupported type '${column.type}' of column ${where} is read as text`);
+			builder = "text";
+		}
+
+		// Integer columns backed by a sequence are serials
+		const isSequence = column.default?.startsWith("nextval(") ?? false;
+		if (SEQUENCE_BUILDERS[builder] && isSequence) {
+			builder = SEQUENCE_BUILDERS[builder];
+		}
+		const isSerial = Object.values(SEQUENCE_BUILDERS).includes(builder);
+
+		if (builder) {
+			// Custom types resolve by their SQL type, bigint and bigserial by the mode the dialect declares them with
+			const mode = builder === "customType" ? baseType : builder === "bigint" || builder === "bigserial" ? "number" : undefined;
+			columnDef.type = resolveColumnType(dialect, builder, mode);
+		}
+
+		if ((builder === "varchar" || builder === "char") && params?.[0]) {
+			options.length = Number(params[0]);
+		}
+
+		// numeric(10, 2), timestamp(3), interval(3)
+		if (builder === "numeric" && params?.[0]) {
+			options.precision = Number(params[0]);
+			if (params[1]) options.scale = Number(params[1]);
+		} else if ((builder === "timestamp" || builder === "time" || builder === "interval") && params?.[0]) {
+			options.precision = Number(params[0]);
+		}
+		if (baseType.includes("with time zone") || baseType === "timestamptz" || baseType === "timetz") {
+			options.withTimezone = true;
+		}
+		if (intervalFields) {
+			options.fields = intervalFields as IntervalFields;
+		}
+
+		if (column.notNull && !isSerial) {
+			options.notNull = true;
+		}
+
+		if (column.default !== undefined && !(isSerial && isSequence)) {
+			options.default = this.toDefault(column.default, columnDef.type, !!enumSnapshot, !!options.array);
+		}
+
+		if (Object.keys(options).length > 0) {
+			columnDef.options = options;
+		}
+
+		return columnDef;
+	}
+
+	/**
+	 * Map a default expression to its JSON form: literals become values, functions sql.fn() and the rest sql`...`
+	 */
+	private toDefault(expression: string, type: string | undefined, isEnum: boolean, isArray: boolean): string | number | boolean {
+		const text = expression.trim();
+
+		if (/^(now\(\)|current_timestamp)$/i.test(text)) {
+			return "sql.now()";
+		}
+		if (/^(true|false)$/i.test(text)) {
+			return text.toLowerCase() === "true";
+		}
+
+		const numberMatch = text.match(/^\(?(-?\d+(?:\.\d+)?)\)?(?:::[\w ]+)?$/);
+		if (numberMatch) {
+			return Number(numberMatch[1]);
+		}
+
+		// 'value'::type casts; json documents and array literals stay SQL expressions
+		const stringMatch = text.match(/^'((?:[^']|'')*)'(?:::[\w ."[\]()]+)?$/);
+		if (stringMatch && type !== "json" && type !== "plainjson" && !isArray) {
+			const value = stringMatch[1].replace(/''/g, "'");
+			if (isEnum) return SnakeCase(value);
+			if ((type === "number" || type === "bigint") && /^-?\d+$/.test(value)) return Number(value);
+			if (type === "boolean" && /^(true|false)$/.test(value)) return value === "true";
+			return value;
+		}
+
+		const functionMatch = text.match(/^(\w+)\(\)$/);
+		if (functionMatch) {
+			return `sql.${functionMatch[1]}()`;
+		}
+
+		return `sql\`${text}\``;
+	}
+}
+
+/**
+ * Convenience function to introspect a live PostgreSQL database
+ */
+export async function introspectDatabase(query: DatabaseQuery, options?: IntrospectionOptions): Promise<IntrospectionResult> {
+	return await new DatabaseIntrospector(options).introspect(query);
+}
+
+/**
+ * Convenience function to introspect a `pg_dump --schema-only` file
+ */
+export async function introspectDump(dumpPath: string, options?: IntrospectionOptions): Promise<IntrospectionResult> {
+	const sql = await fs.readFile(dumpPath, "utf-8");
+	const result = new DatabaseIntrospector(options).introspectDump(sql);
+	return result.errors ? { ...result, errors: result.errors.map((error) => `${dumpPath}: ${error}`) } : result;
+}
@@ -0,0 +1,26 @@
+import { promises as fs } from "fs";
+import { DdlParserResult } from "../definitions/index.js";
+import { DatabaseIntrospector } from "./DatabaseIntrospector.js";
+
+/**
+ * Converts a PostgreSQL DDL script (`CREATE TYPE ... AS ENUM`, `CREATE TABLE`, `ALTER TABLE` and
+ * `CREATE INDEX` statements) into enum and table definitions ready for ProjectGenerator.
+ */
+export function DdlParser(sql: string): DdlParserResult {
+	const { schema, warnings, errors } = new DatabaseIntrospector().introspectDump(sql);
+
+	return {
+		enums: schema?.enums ?? [],
+		tables: schema?.tables ?? [],
+		warnings,
+		errors,
+	};
+}
+
+/**
+ * Convenience function to parse a DDL file; errors are prefixed with its path
+ */
+export async function readDdlFile(ddlPath: string): Promise<DdlParserResult> {
+	const result = DdlParser(await fs.readFile(ddlPath, "utf-8"));
+	return result.errors ? { ...result, errors: result.errors.map((error) => `${ddlPath}: ${error}`) } : result;
+}
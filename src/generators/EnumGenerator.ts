@@ -1,11 +1,13 @@
-import { type EnumDefinition, EnumGeneratorResult } from "../definitions/index.js";
+import { type EnumDefinition, EnumGeneratorResult, DatabaseDialect } from "../definitions/index.js";
 import { SnakeCase, PascalCase } from "../utils/index.js";
+import { getDialect } from "../dialects/index.js";
 
 /**
- * Converts an Enum definition to Drizzle pgEnum code.
+ * Converts an Enum definition to a native Drizzle enum (e.g. pgEnum), or to a
+ * values tuple for dialects that declare enums on the column.
  */
-export function EnumGenerator(definition: EnumDefinition): EnumGeneratorResult {
-	const { name, values } = definition;
+export function EnumGenerator(definition: EnumDefinition, dialect: DatabaseDialect = "postgresql"): EnumGeneratorResult {
+	const { name, dbName, values } = definition;
 
 	const result: EnumGeneratorResult = {
 		enumCode: "",
@@ -17,11 +19,22 @@ export function EnumGenerator(definition: EnumDefinition): EnumGeneratorResult {
 		return result;
 	}
 
-	result.imports["drizzle-orm/pg-core"] = ["pgEnum"];
+	const dialectDef = getDialect(dialect);
+	if (!dialectDef) {
+		result.error = `Unsupported dialect '${dialect}'.`;
+		return result;
+	}
 
 	const formattedValues = values.map((v) => `'${PascalCase(v)}'`).join(", ");
 
-	result.enumCode = `export const ${name} = pgEnum('${SnakeCase(name)}', [${formattedValues}] as const);`;
+	if (dialectDef.enumStrategy !== "native") {
+		result.enumCode = `export const ${name} = [${formattedValues}] as const;`;
+		return result;
+	}
+
+	result.imports[dialectDef.importPath] = [dialectDef.enumFactory];
+
+	result.enumCode = `export const ${name} = ${dialectDef.enumFactory}('${dbName || SnakeCase(name)}', [${formattedValues}] as const);`;
 
 	return result;
 }
@@ -1,11 +1,11 @@
-import { HelperDefinition, ColumnGeneratorResult, HelperGeneratorResult } from "../definitions";
+import { HelperDefinition, ColumnGeneratorResult, HelperGeneratorResult, DatabaseDialect } from "../definitions";
 import { ColumnGenerator } from "./index.js";
 import { ImportManager } from "../utils";
 
 /**
  * Generates a reusable column helper set that can be spread into multiple tables.
  */
-export function HelperGenerator(definition: HelperDefinition): HelperGeneratorResult {
+export function HelperGenerator(definition: HelperDefinition, dialect: DatabaseDialect = "postgresql"): HelperGeneratorResult {
 	const { name, columns } = definition;
 
 	const result: HelperGeneratorResult = {
@@ -29,7 +29,7 @@ export function HelperGenerator(definition: HelperDefinition): HelperGeneratorRe
 	const columnCodes: string[] = [];
 
 	for (const columnDef of columns) {
-		const columnResult: ColumnGeneratorResult = ColumnGenerator(columnDef);
+		const columnResult: ColumnGeneratorResult = ColumnGenerator(columnDef, dialect);
 
 		if (columnResult.error) {
 			result.error = `Error in column '${columnDef.name}': ${columnResult.error}`;
@@ -58,16 +58,17 @@ ${columnCodes.join(",\n")}
  * Generates multiple helpers and consolidates their imports
  *
  * @param {HelperDefinition[]} definitions - Array of helper definitions
+ * @param {DatabaseDialect} dialect - Target database dialect
  * @returns Object containing all helper codes, consolidated imports, and tables
  */
-export function generateMultipleHelpers(definitions: HelperDefinition[]) {
+export function generateMultipleHelpers(definitions: HelperDefinition[], dialect: DatabaseDialect = "postgresql") {
 	const importManager = new ImportManager();
 	const allTables: string[] = [];
 	const helperCodes: string[] = [];
 	const errors: string[] = [];
 
 	for (const definition of definitions) {
-		const result = HelperGenerator(definition);
+		const result = HelperGenerator(definition, dialect);
 
 		if (result.error) {
 			errors.push(`Error in helper '${definition.name}': ${result.error}`);
@@ -0,0 +1,629 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import { ColumnDefinition, ColumnOptions, Dialect, HelperDefinition, MigrationGeneratorResult, ProjectGeneratorConfig, TableDefinition } from "../definitions";
+import { SchemaChange, SchemaComparison } from "../definitions/SchemaReaderResult.js";
+import { getDialect } from "../dialects/index.js";
+import { arrayDimensions, PascalCase, SnakeCase } from "../utils";
+
+/**
+ * Execution phases of a migration. Statements run phase by phase so that types exist
+ * before the tables using them, and constraints are dropped before they are recreated.
+ */
+enum MigrationPhase {
+	CREATE_TYPES,
+	RENAMES,
+	CREATE_TABLES,
+	ADD_COLUMNS,
+	DROP_CONSTRAINTS,
+	ALTER_COLUMNS,
+	ADD_CONSTRAINTS,
+	DROP_COLUMNS,
+	DROP_TABLES,
+	DROP_TYPES,
+}
+
+/**
+ * Statements produced for a single change, with their inverse
+ */
+interface MigrationStep {
+	/** A MigrationPhase, offset by a fraction to order tables by their dependencies */
+	phase: number;
+	up: string[];
+	down: string[];
+}
+
+/**
+ * Schemas on both sides of a comparison, used to resolve full definitions of changed entities
+ */
+interface MigrationSchemas {
+	current: ProjectGeneratorConfig;
+	next: ProjectGeneratorConfig;
+}
+
+/**
+ * Converts a SchemaComparison into ordered PostgreSQL DDL statements with up and down scripts.
+ */
+export function MigrationGenerator(comparison: SchemaComparison, schemas: MigrationSchemas): MigrationGeneratorResult {
+	const result: MigrationGeneratorResult = {
+		up: [],
+		down: [],
+		warnings: [],
+	};
+
+	const dialectName = schemas.next.dialect ?? "postgresql";
+	const dialect = getDialect(dialectName);
+	if (dialectName !== "postgresql" || !dialect) {
+		result.error = `SQL migrations are not supported for dialect '${dialectName}'.`;
+		return result;
+	}
+
+	const context = new MigrationContext(schemas, dialect, result.warnings);
+	const steps: MigrationStep[] = [];
+
+	try {
+		for (const change of comparison.changes) {
+			steps.push(...context.stepsFor(change));
+		}
+	} catch (error) {
+		result.error = error instanceof Error ? error.message : String(error);
+		return result;
+	}
+
+	// Tables are created in dependency order and dropped in reverse dependency order
+	const ordered = [...steps].sort((a, b) => a.phase - b.phase);
+
+	result.up = ordered.flatMap((step) => step.up);
+	result.down = [...ordered].reverse().flatMap((step) => step.down);
+
+	return result;
+}
+
+/**
+ * Write a migration to a timestamped SQL file with Up and Down sections, returning its path
+ */
+export async function writeMigrationFile(
+	migration: MigrationGeneratorResult,
+	outputDir: string,
+	options: { name?: string; timestamp?: Date } = {}
+): Promise<string> {
+	if (migration.error) {
+		throw new Error(`Cannot write migration with errors: ${migration.error}`);
+	}
+
+	const timestamp = options.timestamp ?? new Date();
+	const name = SnakeCase(options.name ?? "migration").replace(/[^a-z0-9_]+/g, "_");
+	const fileName = `${timestamp.toISOString().replace(/\D/g, "").slice(0, 14)}_${name}.sql`;
+	const filePath = join(outputDir, fileName);
+
+	const warnings = migration.warnings.map((warning) => `-- WARNING: ${warning}`);
+	const content = [
+		`-- Migration: ${name}`,
+		`-- Generated at ${timestamp.toISOString()}`,
+		...warnings,
+		"",
+		"-- Up",
+		...migration.up,
+		"",
+		"-- Down",
+		...migration.down,
+		"",
+	].join("\n");
+
+	await fs.mkdir(outputDir, { recursive: true });
+	await fs.writeFile(filePath, content, "utf-8");
+
+	return filePath;
+}
+
+/**
+ * Resolves definitions from both schemas and renders the statements of each change
+ */
+class MigrationContext {
+	constructor(
+		private schemas: MigrationSchemas,
+		private dialect: Dialect,
+		private warnings: string[]
+	) {}
+
+	/**
+	 * Statements for a single schema change
+	 */
+	stepsFor(change: SchemaChange): MigrationStep[] {
+		const { current, next } = this.schemas;
+		const target = change.target;
+
+		switch (change.type) {
+			case "enum_added": {
+				const enumDef = this.findEnum(next, target.name);
+				const typeName = this.enumTypeName(target.name);
+				const values = (enumDef?.values ?? change.details?.values ?? []).map((v: string) => literal(PascalCase(v))).join(", ");
+				return [step(MigrationPhase.CREATE_TYPES, [`CREATE TYPE ${typeName} AS ENUM (${values});`], [`DROP TYPE ${typeName};`])];
+			}
+			case "enum_removed": {
+				const enumDef = this.findEnum(current, target.name);
+				const typeName = this.enumTypeName(target.name);
+				const values = (enumDef?.values ?? []).map((v) => literal(PascalCase(v))).join(", ");
+				return [step(MigrationPhase.DROP_TYPES, [`DROP TYPE ${typeName};`], [`CREATE TYPE ${typeName} AS ENUM (${values});`])];
+			}
+			case "enum_value_added": {
+				const typeName = this.enumTypeName(target.name);
+				const value = PascalCase(change.details.value);
+				this.warnings.push(`PostgreSQL cannot remove value '${value}' from enum ${typeName}; the down script leaves it in place.`);
+				return [
+					step(
+						MigrationPhase.CREATE_TYPES,
+						[`ALTER TYPE ${typeName} ADD VALUE ${literal(value)};`],
+						[`-- Cannot remove value ${literal(value)} from enum ${typeName}; recreate the type to roll back.`]
+					),
+				];
+			}
+			case "enum_value_removed": {
+				const typeName = this.enumTypeName(target.name);
+				const value = PascalCase(change.details.value);
+				this.warnings.push(`PostgreSQL cannot remove value '${value}' from enum ${typeName}; recreate the type manually.`);
+				return [
+					step(
+						MigrationPhase.DROP_TYPES,
+						[`-- Cannot remove value ${literal(value)} from enum ${typeName}; recreate the type manually.`],
+						[`ALTER TYPE ${typeName} ADD VALUE IF NOT EXISTS ${literal(value)};`]
+					),
+				];
+			}
+			case "table_added": {
+				const table = this.findTable(next, target.name) ?? change.details?.table;
+				if (!table) throw new Error(`Table '${target.name}' not found in the new schema.`);
+				return [step(MigrationPhase.CREATE_TABLES + this.dependencyDepth(table, next) / 1000, this.createTable(table, next), [`DROP TABLE ${this.tableName(table)};`])];
+			}
+			case "table_removed": {
+				const table = this.findTable(current, target.name);
+				if (!table) throw new Error(`Table '${target.name}' not found in the current schema.`);
+				return [step(MigrationPhase.DROP_TABLES - this.dependencyDepth(table, current) / 1000, [`DROP TABLE ${this.tableName(table)};`], this.createTable(table, current))];
+			}
+			case "table_renamed": {
+				const from = this.requireTable(current, change.details.from);
+				const to = this.requireTable(next, change.details.to);
+				if (this.tableDbName(from) === this.tableDbName(to)) return [];
+				return [step(MigrationPhase.RENAMES, [`ALTER TABLE ${this.tableName(from)} RENAME TO ${this.tableName(to)};`], [`ALTER TABLE ${this.tableName(to)} RENAME TO ${this.tableName(from)};`])];
+			}
+			case "column_renamed": {
+				const from = quote(columnDbName(this.findColumn(current, change, change.details.from) ?? { name: change.details.from }));
+				const to = quote(columnDbName(this.findColumn(next, change, change.details.to) ?? { name: change.details.to }));
+				if (from === to) return [];
+				return this.columnTables(change).map((table) =>
+					step(MigrationPhase.RENAMES, [`ALTER TABLE ${this.tableName(table)} RENAME COLUMN ${from} TO ${to};`], [`ALTER TABLE ${this.tableName(table)} RENAME COLUMN ${to} TO ${from};`])
+				);
+			}
+			case "enum_value_renamed": {
+				const typeName = this.enumTypeName(target.name);
+				const from = literal(PascalCase(change.details.from));
+				const to = literal(PascalCase(change.details.to));
+				return [step(MigrationPhase.RENAMES, [`ALTER TYPE ${typeName} RENAME VALUE ${from} TO ${to};`], [`ALTER TYPE ${typeName} RENAME VALUE ${to} TO ${from};`])];
+			}
+			case "helper_added":
+			case "helper_removed":
+				// Helpers only exist in the code; their columns are migrated through the tables using them
+				return [];
+			case "table_column_added":
+			case "helper_column_added":
+				return this.columnTables(change).map((table) => {
+					const column = this.findColumn(next, change) ?? change.details?.column;
+					return step(MigrationPhase.ADD_COLUMNS, [this.addColumn(table, column)], [this.dropColumn(table, column)]);
+				});
+			case "table_column_removed":
+			case "helper_column_removed":
+				return this.columnTables(change, true).map((table) => {
+					const column = this.findColumn(current, change) ?? { name: target.column! };
+					return step(MigrationPhase.DROP_COLUMNS, [this.dropColumn(table, column)], [this.addColumn(table, column)]);
+				});
+			case "table_helper_reference_added": {
+				const table = this.requireTable(next, target.name);
+				const helper = this.findHelper(next, change.details.helperReference);
+				return (helper?.columns ?? []).map((column) => step(MigrationPhase.ADD_COLUMNS, [this.addColumn(table, column)], [this.dropColumn(table, column)]));
+			}
+			case "table_helper_reference_removed": {
+				const table = this.requireTable(next, target.name);
+				const helper = this.findHelper(current, change.details.helperReference);
+				return (helper?.columns ?? []).map((column) => step(MigrationPhase.DROP_COLUMNS, [this.dropColumn(table, column)], [this.addColumn(table, column)]));
+			}
+			case "column_type_changed":
+			case "column_primary_key_changed":
+			case "column_not_null_changed":
+			case "column_unique_changed":
+			case "column_default_changed":
+			case "column_references_changed":
+				return this.columnTables(change).flatMap((table) => this.alterColumn(table, change));
+			case "table_composite_primary_key_changed": {
+				const table = this.requireTable(next, target.name);
+				const tableName = this.tableName(table);
+				const constraint = quote(`${this.tableDbName(table)}_pkey`);
+				const from = this.columnDbNames(table, change.details?.from ?? []);
+				const to = this.columnDbNames(table, change.details?.to ?? []);
+				return [
+					step(MigrationPhase.DROP_CONSTRAINTS, from.length > 0 ? [`ALTER TABLE ${tableName} DROP CONSTRAINT ${constraint};`] : [], from.length > 0 ? [`ALTER TABLE ${tableName} ADD CONSTRAINT ${constraint} PRIMARY KEY (${columnList(from)});`] : []),
+					step(MigrationPhase.ADD_CONSTRAINTS, to.length > 0 ? [`ALTER TABLE ${tableName} ADD CONSTRAINT ${constraint} PRIMARY KEY (${columnList(to)});`] : [], to.length > 0 ? [`ALTER TABLE ${tableName} DROP CONSTRAINT ${constraint};`] : []),
+				];
+			}
+			case "index_added": {
+				const table = this.requireTable(next, target.name);
+				return [step(MigrationPhase.ADD_CONSTRAINTS, [this.createIndex(table, change.details.index)], [`DROP INDEX ${quote(change.details.index.name)};`])];
+			}
+			case "index_removed": {
+				const table = this.requireTable(current, target.name);
+				return [step(MigrationPhase.DROP_CONSTRAINTS, [`DROP INDEX ${quote(change.details.index.name)};`], [this.createIndex(table, change.details.index)])];
+			}
+			case "unique_constraint_added":
+			case "unique_constraint_removed": {
+				const table = this.requireTable(change.type === "unique_constraint_added" ? next : current, target.name);
+				const tableName = this.tableName(table);
+				const constraint = change.details.constraint;
+				const add = `ALTER TABLE ${tableName} ADD CONSTRAINT ${quote(constraint.name)} UNIQUE (${columnList(this.columnDbNames(table, constraint.columns))});`;
+				const drop = `ALTER TABLE ${tableName} DROP CONSTRAINT ${quote(constraint.name)};`;
+				return change.type === "unique_constraint_added" ? [step(MigrationPhase.ADD_CONSTRAINTS, [add], [drop])] : [step(MigrationPhase.DROP_CONSTRAINTS, [drop], [add])];
+			}
+			case "check_constraint_added":
+			case "check_constraint_removed":
+			case "check_constraint_modified":
+				return this.checkSteps(change);
+			default:
+				this.warnings.push(`Change '${change.type}' has no SQL equivalent: ${change.description}`);
+				return [];
+		}
+	}
+
+	/**
+	 * Statements for check constraint changes
+	 */
+	private checkSteps(change: SchemaChange): MigrationStep[] {
+		const { current, next } = this.schemas;
+		const table = this.requireTable(change.type === "check_constraint_removed" ? current : next, change.target.name);
+		const tableName = this.tableName(table);
+		const name = change.details?.name;
+		if (!name) throw new Error(`Check constraint name is missing for table '${change.target.name}'.`);
+
+		if (change.type === "check_constraint_modified") {
+			return [
+				step(MigrationPhase.DROP_CONSTRAINTS, [`ALTER TABLE ${tableName} DROP CONSTRAINT ${quote(name)};`], [`ALTER TABLE ${tableName} ADD CONSTRAINT ${quote(name)} CHECK (${change.details.from});`]),
+				step(MigrationPhase.ADD_CONSTRAINTS, [`ALTER TABLE ${tableName} ADD CONSTRAINT ${quote(name)} CHECK (${change.details.to});`], [`ALTER TABLE ${tableName} DROP CONSTRAINT ${quote(name)};`]),
+			];
+		}
+
+		const add = `ALTER TABLE ${tableName} ADD CONSTRAINT ${quote(name)} CHECK (${change.details.expression});`;
+		const drop = `ALTER TABLE ${tableName} DROP CONSTRAINT ${quote(name)};`;
+		return change.type === "check_constraint_added" ? [step(MigrationPhase.ADD_CONSTRAINTS, [add], [drop])] : [step(MigrationPhase.DROP_CONSTRAINTS, [drop], [add])];
+	}
+
+	/**
+	 * Statements for a column option or type change
+	 */
+	private alterColumn(table: TableDefinition, change: SchemaChange): MigrationStep[] {
+		const { current, next } = this.schemas;
+		const tableName = this.tableName(table);
+		const dbTable = this.tableDbName(table);
+		const newColumn = this.findColumn(next, change) ?? { name: change.target.column! };
+		const currentColumn = this.findColumn(current, change) ?? { name: change.target.column! };
+		const columnName = columnDbName(newColumn);
+		const column = quote(columnName);
+		const alter = `ALTER TABLE ${tableName} ALTER COLUMN ${column}`;
+
+		switch (change.type) {
+			case "column_type_changed": {
+				const newType = this.columnType(newColumn);
+				const currentType = this.columnType(currentColumn);
+				return [step(MigrationPhase.ALTER_COLUMNS, [`${alter} SET DATA TYPE ${newType} USING ${column}::${newType};`], [`${alter} SET DATA TYPE ${currentType} USING ${column}::${currentType};`])];
+			}
+			case "column_not_null_changed": {
+				const set = `${alter} SET NOT NULL;`;
+				const drop = `${alter} DROP NOT NULL;`;
+				return [step(MigrationPhase.ALTER_COLUMNS, newColumn.options?.notNull ? [set] : [drop], newColumn.options?.notNull ? [drop] : [set])];
+			}
+			case "column_default_changed": {
+				const isEnum = !newColumn.type && !!newColumn.options?.enumValues;
+				const toDefault = (value: any) => (value === undefined ? `${alter} DROP DEFAULT;` : `${alter} SET DEFAULT ${defaultValue(value, isEnum)};`);
+				return [step(MigrationPhase.ALTER_COLUMNS, [toDefault(change.details?.to)], [toDefault(change.details?.from)])];
+			}
+			case "column_unique_changed": {
+				const constraint = quote(`${dbTable}_${columnName}_key`);
+				const add = `ALTER TABLE ${tableName} ADD CONSTRAINT ${constraint} UNIQUE (${column});`;
+				const drop = `ALTER TABLE ${tableName} DROP CONSTRAINT ${constraint};`;
+				return newColumn.options?.unique ? [step(MigrationPhase.ADD_CONSTRAINTS, [add], [drop])] : [step(MigrationPhase.DROP_CONSTRAINTS, [drop], [add])];
+			}
+			case "column_primary_key_changed": {
+				const constraint = quote(`${dbTable}_pkey`);
+				const add = `ALTER TABLE ${tableName} ADD CONSTRAINT ${constraint} PRIMARY KEY (${column});`;
+				const drop = `ALTER TABLE ${tableName} DROP CONSTRAINT ${constraint};`;
+				return newColumn.options?.primaryKey ? [step(MigrationPhase.ADD_CONSTRAINTS, [add], [drop])] : [step(MigrationPhase.DROP_CONSTRAINTS, [drop], [add])];
+			}
+			case "column_references_changed": {
+				const constraint = quote(`${dbTable}_${columnName}_fkey`);
+				const drop = `ALTER TABLE ${tableName} DROP CONSTRAINT ${constraint};`;
+				const add = (ref: any) => `ALTER TABLE ${tableName} ADD CONSTRAINT ${constraint} FOREIGN KEY (${column}) ${this.referencesClause(ref)};`;
+				const from = change.details?.from;
+				const to = change.details?.to;
+				return [
+					step(MigrationPhase.DROP_CONSTRAINTS, from ? [drop] : [], from ? [add(from)] : []),
+					step(MigrationPhase.ADD_CONSTRAINTS, to ? [add(to)] : [], to ? [drop] : []),
+				];
+			}
+			default:
+				return [];
+		}
+	}
+
+	/**
+	 * CREATE TABLE statement followed by the table's indexes
+	 */
+	private createTable(table: TableDefinition, schema: ProjectGeneratorConfig): string[] {
+		const entries = this.tableColumns(table, schema).map((column) => `    ${this.columnDefinition(column)}`);
+
+		if (table.compositePrimaryKey && table.compositePrimaryKey.length > 1) {
+			entries.push(`    PRIMARY KEY (${columnList(this.columnDbNames(table, table.compositePrimaryKey))})`);
+		}
+		for (const constraint of table.uniqueConstraints ?? []) {
+			entries.push(`    CONSTRAINT ${quote(constraint.name)} UNIQUE (${columnList(this.columnDbNames(table, constraint.columns))})`);
+		}
+		for (const check of table.checks ?? []) {
+			entries.push(`    CONSTRAINT ${quote(check.name)} CHECK (${check.expression})`);
+		}
+
+		const statements = [`CREATE TABLE ${this.tableName(table)} (\n${entries.join(",\n")}\n);`];
+		for (const index of table.indexes ?? []) {
+			statements.push(this.createIndex(table, index));
+		}
+
+		return statements;
+	}
+
+	/**
+	 * CREATE INDEX statement
+	 */
+	private createIndex(table: TableDefinition, index: { name: string; columns: string[]; unique?: boolean; where?: string; method?: string }): string {
+		const using = index.method ? `USING ${index.method} ` : "";
+		const where = index.where ? ` WHERE ${index.where}` : "";
+		return `CREATE ${index.unique ? "UNIQUE " : ""}INDEX ${quote(index.name)} ON ${this.tableName(table)} ${using}(${columnList(this.columnDbNames(table, index.columns))})${where};`;
+	}
+
+	/**
+	 * ALTER TABLE ... ADD COLUMN statement
+	 */
+	private addColumn(table: TableDefinition, column: ColumnDefinition | undefined): string {
+		if (!column?.type && !column?.options?.enumValues) {
+			throw new Error(`Column '${column?.name}' of table '${table.name}' not found in the schema.`);
+		}
+
+		return `ALTER TABLE ${this.tableName(table)} ADD COLUMN ${this.columnDefinition(column)};`;
+	}
+
+	/**
+	 * ALTER TABLE ... DROP COLUMN statement
+	 */
+	private dropColumn(table: TableDefinition, column: ColumnDefinition): string {
+		return `ALTER TABLE ${this.tableName(table)} DROP COLUMN ${quote(columnDbName(column))};`;
+	}
+
+	/**
+	 * Column definition as used in CREATE TABLE and ADD COLUMN
+	 */
+	private columnDefinition(column: ColumnDefinition): string {
+		const options = column.options ?? {};
+		const parts = [quote(columnDbName(column)), this.columnType(column)];
+
+		if (options.primaryKey) parts.push("PRIMARY KEY");
+		if (options.notNull) parts.push("NOT NULL");
+		if (options.unique) parts.push("UNIQUE");
+		if (options.default !== undefined) {
+			parts.push(`DEFAULT ${defaultValue(options.default, !column.type || column.type.toLowerCase() === "enum")}`);
+		}
+		if (options.references) parts.push(this.referencesClause(options.references));
+
+		return parts.join(" ");
+	}
+
+	/**
+	 * SQL type of a column, resolved through the dialect's type map
+	 */
+	private columnType(column: ColumnDefinition): string {
+		return `${this.elementType(column)}${"[]".repeat(arrayDimensions(column.options))}`;
+	}
+
+	/**
+	 * SQL type of a column, or of its elements for array columns
+	 */
+	private elementType(column: ColumnDefinition): string {
+		const options = column.options ?? {};
+		if (!column.type || column.type.toLowerCase() === "enum") {
+			if (!options.enumValues) throw new Error(`Enum column '${column.name}' requires 'enumValues' in options.`);
+			return this.enumTypeName(options.enumValues);
+		}
+
+		const columnType = this.dialect.types[column.type.toLowerCase()];
+		if (!columnType) throw new Error(`Unsupported type '${column.type}' for column '${column.name}'.`);
+
+		// Drizzle builder names map to SQL type names (doublePrecision -> double precision)
+		let sqlType = columnType.customType?.dataType ?? columnType.func.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+		const length = options.length ?? columnType.defaultLength;
+		if (columnType.acceptsLength && length) {
+			return `${sqlType}(${length})`;
+		}
+
+		// Type-specific options: numeric(10, 2), interval day to second(3), timestamp(3) with time zone
+		const accepts = (key: keyof ColumnOptions) => columnType.configOptions?.includes(key) && options[key] !== undefined;
+		if (accepts("fields")) {
+			sqlType += ` ${options.fields}`;
+		}
+		const params = (["precision", "scale"] as const).filter(accepts).map((key) => options[key]);
+		if (params.length > 0) {
+			sqlType += `(${params.join(", ")})`;
+		}
+		return accepts("withTimezone") && options.withTimezone ? `${sqlType} with time zone` : sqlType;
+	}
+
+	/**
+	 * REFERENCES clause of a foreign key
+	 */
+	private referencesClause(ref: { table: string; column: string; onDelete?: string; onUpdate?: string }): string {
+		const referenced = [...(this.schemas.next.tables ?? []), ...(this.schemas.current.tables ?? [])].find((t) => t.name.toLowerCase() === ref.table.toLowerCase());
+		const tableName = quote(referenced ? this.tableDbName(referenced) : SnakeCase(ref.table));
+
+		const [column] = referenced ? this.columnDbNames(referenced, [ref.column]) : [ref.column];
+
+		let clause = `REFERENCES ${tableName}(${quote(column)})`;
+		if (ref.onDelete) clause += ` ON DELETE ${ref.onDelete.toUpperCase()}`;
+		if (ref.onUpdate) clause += ` ON UPDATE ${ref.onUpdate.toUpperCase()}`;
+		return clause;
+	}
+
+	/**
+	 * Tables affected by a column change: the table itself, or every table spreading the helper
+	 */
+	private columnTables(change: SchemaChange, removed = false): TableDefinition[] {
+		const { current, next } = this.schemas;
+
+		if (change.target.type === "table") {
+			return [this.requireTable(removed ? current : next, change.target.name)];
+		}
+
+		// Tables created or dropped in this migration already get the helper's columns from their own statements
+		const currentNames = new Set((current.tables ?? []).map((t) => t.name));
+		const nextNames = new Set((next.tables ?? []).map((t) => t.name));
+		return (next.tables ?? []).filter((t) => currentNames.has(t.name) && nextNames.has(t.name) && (t.helperReferences ?? []).includes(change.target.name));
+	}
+
+	/**
+	 * Own columns of a table followed by the columns of its helpers
+	 */
+	private tableColumns(table: TableDefinition, schema: ProjectGeneratorConfig): ColumnDefinition[] {
+		const helperColumns = (table.helperReferences ?? []).flatMap((ref) => this.findHelper(schema, ref)?.columns ?? []);
+		return [...table.columns, ...helperColumns];
+	}
+
+	/**
+	 * Number of added tables a table transitively references, used to order CREATE and DROP statements
+	 */
+	private dependencyDepth(table: TableDefinition, schema: ProjectGeneratorConfig, seen = new Set<string>()): number {
+		if (seen.has(table.name)) return 0;
+		seen.add(table.name);
+
+		let depth = 0;
+		for (const column of this.tableColumns(table, schema)) {
+			const ref = column.options?.references;
+			const referenced = ref && (schema.tables ?? []).find((t) => t.name.toLowerCase() === ref.table.toLowerCase() && t.name !== table.name);
+			if (referenced) {
+				depth = Math.max(depth, 1 + this.dependencyDepth(referenced, schema, seen));
+			}
+		}
+		return depth;
+	}
+
+	private findEnum(schema: ProjectGeneratorConfig, name: string) {
+		return (schema.enums ?? []).find((e) => e.name === name);
+	}
+
+	private findHelper(schema: ProjectGeneratorConfig, name: string): HelperDefinition | undefined {
+		return (schema.helpers ?? []).find((h) => h.name === name);
+	}
+
+	private findTable(schema: ProjectGeneratorConfig, name: string): TableDefinition | undefined {
+		return (schema.tables ?? []).find((t) => t.name === name);
+	}
+
+	private requireTable(schema: ProjectGeneratorConfig, name: string): TableDefinition {
+		const table = this.findTable(schema, name) ?? this.findTable(this.schemas.next, name) ?? this.findTable(this.schemas.current, name);
+		if (!table) throw new Error(`Table '${name}' not found in the schema.`);
+		return table;
+	}
+
+	private findColumn(schema: ProjectGeneratorConfig, change: SchemaChange, name = change.target.column): ColumnDefinition | undefined {
+		const owner = change.target.type === "helper" ? this.findHelper(schema, change.target.name) : this.findTable(schema, change.target.name);
+		return owner?.columns.find((c) => c.name === name);
+	}
+
+	/**
+	 * Database names of a table's columns, given their property names
+	 */
+	private columnDbNames(table: TableDefinition, columns: string[]): string[] {
+		const { current, next } = this.schemas;
+		const known = [...this.tableColumns(table, next), ...this.tableColumns(table, current)];
+		return columns.map((name) => columnDbName(known.find((c) => c.name === name) ?? { name }));
+	}
+
+	/**
+	 * Quoted type name of an enum, from either schema
+	 */
+	private enumTypeName(name: string): string {
+		const enumDef = this.findEnum(this.schemas.next, name) ?? this.findEnum(this.schemas.current, name);
+		return quote(enumDef?.dbName || SnakeCase(name));
+	}
+
+	private tableDbName(table: TableDefinition): string {
+		return table.dbName || SnakeCase(table.name);
+	}
+
+	private tableName(table: TableDefinition): string {
+		return quote(this.tableDbName(table));
+	}
+}
+
+/**
+ * Build a migration step
+ */
+function step(phase: number, up: string[], down: string[]): MigrationStep {
+	return { phase, up, down };
+}
+
+/**
+ * Database name of a column, which defaults to its property name
+ */
+function columnDbName(column: ColumnDefinition): string {
+	return column.dbName || column.name;
+}
+
+/**
+ * Quote an SQL identifier
+ */
+function quote(identifier: string): string {
+	return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quote an SQL string literal
+ */
+function literal(value: string): string {
+	return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Comma separated list of quoted column names
+ */
+function columnList(columns: string[]): string {
+	return columns.map(quote).join(", ");
+}
+
+/**
+ * SQL expression for a column default, following the conventions of ColumnGenerator
+ */
+function defaultValue(value: string | number | boolean, isEnum: boolean): string {
+	if (typeof value !== "string") {
+		return String(value);
+	}
+
+	if (value === "sql.now()") {
+		return "now()";
+	}
+
+	const sqlFunction = value.match(/^sql\.(\w+)\(\)$/);
+	if (sqlFunction) {
+		return `${sqlFunction[1]}()`;
+	}
+
+	const rawSql = value.match(/^sql`([\s\S]*)`$/);
+	if (rawSql) {
+		return rawSql[1];
+	}
+
+	// Expressions are emitted verbatim by ColumnGenerator as well
+	if (value.includes("(")) {
+		return value;
+	}
+
+	return literal(isEnum ? PascalCase(value) : value);
+}
@@ -1,39 +1,62 @@
-import { promises as fs } from "fs";
-import { join, dirname } from "path";
+import { join, relative } from "path";
 import { EnumGenerator } from "./EnumGenerator";
 import { HelperGenerator } from "./HelperGenerator";
 import { TableGenerator } from "./TableGenerator";
-import { ImportManager } from "../utils";
-import { ProjectGeneratorConfig, ProjectGeneratorResult } from "../definitions";
+import { RelationGenerator } from "./RelationGenerator";
+import { findCustomRegions, hashGeneratedContent, ImportManager, MANIFEST_FILE_NAME, mergeCustomRegions, parseManifest, serializeManifest, unifiedDiff } from "../utils";
+import { formatValidationErrors, validateConfig } from "../validation";
+import { GenerationManifest, GenerationTargets, OutputSink, PlannedFile, ProjectGeneratorConfig, ProjectGeneratorOptions, ProjectGeneratorResult } from "../definitions";
+import { FileSystemSink } from "../output";
 
 /**
  * Main project generator that creates the complete Drizzle structure
  */
 export class ProjectGenerator {
 	private config: ProjectGeneratorConfig;
+	private sink: OutputSink;
 	private generatedFiles: string[] = [];
+	private plannedFiles: PlannedFile[] = [];
 	private errors: string[] = [];
-
-	constructor(config: ProjectGeneratorConfig) {
+	private targets?: GenerationTargets;
+	private previousManifest?: GenerationManifest;
+	private manifestFiles: GenerationManifest["files"] = {};
+	private orphanedFiles: string[] = [];
+	private removedFiles: string[] = [];
+	private editedFiles: string[] = [];
+
+	constructor(config: ProjectGeneratorConfig, options: ProjectGeneratorOptions = {}) {
 		this.config = config;
+		this.sink = options.sink ?? new FileSystemSink();
 	}
 
 	/**
-	 * Generate the complete project structure
+	 * Generate the complete project structure, or only the targeted files when targets are given
 	 */
-	async generate(): Promise<ProjectGeneratorResult> {
-		try {
-			// Create base output directory
-			await this.ensureDirectory(this.config.outputDir);
+	async generate(targets?: GenerationTargets): Promise<ProjectGeneratorResult> {
+		this.targets = targets;
+
+		// Reject malformed configs before any file is written
+		const validation = validateConfig(this.config, { requireOutputDir: true });
+		if (!validation.valid) {
+			return this.failureResult(`Invalid config: ${validation.errors.length} errors`, formatValidationErrors(validation.errors));
+		}
 
-			// Create subdirectories
+		try {
 			const enumsDir = join(this.config.outputDir, "enums");
 			const helpersDir = join(this.config.outputDir, "helpers");
 			const tablesDir = join(this.config.outputDir, "tables");
+			const relationsDir = join(this.config.outputDir, "relations");
+			const manifestPath = join(this.config.outputDir, MANIFEST_FILE_NAME);
+
+			this.previousManifest = parseManifest(await this.sink.read(manifestPath));
 
-			await this.ensureDirectory(enumsDir);
-			await this.ensureDirectory(helpersDir);
-			await this.ensureDirectory(tablesDir);
+			// Create the output directory and its subdirectories, unless only planning
+			if (!this.config.dryRun) {
+				await this.sink.mkdir(this.config.outputDir);
+				await this.sink.mkdir(enumsDir);
+				await this.sink.mkdir(helpersDir);
+				await this.sink.mkdir(tablesDir);
+			}
 
 			// Generate enums
 			const enumFiles = await this.generateEnums(enumsDir);
@@ -44,29 +67,48 @@ export class ProjectGenerator {
 			// Generate tables
 			const tableFiles = await this.generateTables(tablesDir);
 
+			// Generate relations
+			const relationFiles = await this.generateRelations(relationsDir);
+
 			// Generate index files
 			const indexFiles = await this.generateIndexFiles({
 				enumsDir,
 				helpersDir,
 				tablesDir,
+				relationsDir,
 				enumFiles,
 				helperFiles,
 				tableFiles,
+				relationFiles,
 			});
 
+			await this.handleOrphanedFiles();
+			await this.removeTargetedFiles();
+
+			// The manifest lets the next generation find orphaned and hand-edited files
+			if (!this.config.dryRun && (this.previousManifest || Object.keys(this.manifestFiles).length > 0)) {
+				await this.sink.write(manifestPath, serializeManifest({ version: 1, files: this.manifestFiles }));
+			}
+
 			const result: ProjectGeneratorResult = {
 				success: this.errors.length === 0,
-				message: this.errors.length === 0 ? `Successfully generated ${this.generatedFiles.length} files` : `Generated with ${this.errors.length} errors`,
+				message: this.errors.length > 0 ? `Generated with ${this.errors.length} errors` : this.config.dryRun ? this.dryRunSummary() : `Successfully generated ${this.generatedFiles.length} files`,
 				errors: this.errors.length > 0 ? this.errors : undefined,
 				generatedFiles: this.generatedFiles,
+				plannedFiles: this.config.dryRun ? this.plannedFiles : undefined,
+				orphanedFiles: this.orphanedFiles.length > 0 ? this.orphanedFiles : undefined,
+				removedFiles: this.removedFiles.length > 0 ? this.removedFiles : undefined,
+				editedFiles: this.editedFiles.length > 0 ? this.editedFiles : undefined,
 				structure: {
 					enumsDir,
 					helpersDir,
 					tablesDir,
+					relationsDir,
 					files: {
 						enums: enumFiles,
 						helpers: helperFiles,
 						tables: tableFiles,
+						relations: relationFiles,
 						indexes: indexFiles,
 					},
 				},
@@ -74,21 +116,29 @@ export class ProjectGenerator {
 
 			return result;
 		} catch (error) {
-			return {
-				success: false,
-				message: `Failed to generate project: ${error instanceof Error ? error.message : String(error)}`,
-				errors: [String(error)],
-				generatedFiles: this.generatedFiles,
-				structure: {
-					enumsDir: "",
-					helpersDir: "",
-					tablesDir: "",
-					files: { enums: [], helpers: [], tables: [], indexes: [] },
-				},
-			};
+			return this.failureResult(`Failed to generate project: ${error instanceof Error ? error.message : String(error)}`, [String(error)]);
 		}
 	}
 
+	/**
+	 * Build the result of a generation that could not complete
+	 */
+	private failureResult(message: string, errors: string[]): ProjectGeneratorResult {
+		return {
+			success: false,
+			message,
+			errors,
+			generatedFiles: this.generatedFiles,
+			structure: {
+				enumsDir: "",
+				helpersDir: "",
+				tablesDir: "",
+				relationsDir: "",
+				files: { enums: [], helpers: [], tables: [], relations: [], indexes: [] },
+			},
+		};
+	}
+
 	/**
 	 * Generate enum files
 	 */
@@ -101,7 +151,7 @@ export class ProjectGenerator {
 
 		for (const enumDef of this.config.enums) {
 			try {
-				const result = EnumGenerator(enumDef);
+				const result = EnumGenerator(enumDef, this.config.dialect);
 
 				if (result.error) {
 					this.errors.push(`Enum '${enumDef.name}': ${result.error}`);
@@ -115,9 +165,12 @@ export class ProjectGenerator {
 				const importManager = new ImportManager();
 				importManager.merge(result.imports);
 
-				const fileContent = `${importManager.toString()}\n\n${result.enumCode}\n`;
+				const importStatements = importManager.toString();
+				const fileContent = importStatements ? `${importStatements}\n\n${result.enumCode}\n` : `${result.enumCode}\n`;
 
-				await this.writeFile(filePath, fileContent);
+				if (this.isTargeted("enums", enumDef.name)) {
+					await this.writeFile(filePath, fileContent);
+				}
 				enumFiles.push(fileName);
 			} catch (error) {
 				this.errors.push(`Error generating enum '${enumDef.name}': ${error}`);
@@ -139,7 +192,7 @@ export class ProjectGenerator {
 
 		for (const helperDef of this.config.helpers) {
 			try {
-				const result = HelperGenerator(helperDef);
+				const result = HelperGenerator(helperDef, this.config.dialect);
 
 				if (result.error) {
 					this.errors.push(`Helper '${helperDef.name}': ${result.error}`);
@@ -155,7 +208,9 @@ export class ProjectGenerator {
 
 				const fileContent = `${importManager.toString()}\n\n${result.helperCode}\n`;
 
-				await this.writeFile(filePath, fileContent);
+				if (this.isTargeted("helpers", helperDef.name)) {
+					await this.writeFile(filePath, fileContent);
+				}
 				helperFiles.push(fileName);
 			} catch (error) {
 				this.errors.push(`Error generating helper '${helperDef.name}': ${error}`);
@@ -177,7 +232,7 @@ export class ProjectGenerator {
 
 		for (const tableDef of this.config.tables) {
 			try {
-				const result = TableGenerator(tableDef);
+				const result = TableGenerator(tableDef, this.config.dialect);
 
 				if (result.error) {
 					this.errors.push(`Table '${tableDef.name}': ${result.error}`);
@@ -193,7 +248,9 @@ export class ProjectGenerator {
 
 				const fileContent = `${importManager.toString()}\n\n${result.tableCode}\n`;
 
-				await this.writeFile(filePath, fileContent);
+				if (this.isTargeted("tables", tableDef.name)) {
+					await this.writeFile(filePath, fileContent);
+				}
 				tableFiles.push(fileName);
 			} catch (error) {
 				this.errors.push(`Error generating table '${tableDef.name}': ${error}`);
@@ -203,12 +260,74 @@ export class ProjectGenerator {
 		return tableFiles;
 	}
 
+	/**
+	 * Generate relation files when relations are enabled
+	 */
+	private async generateRelations(relationsDir: string): Promise<string[]> {
+		const relationFiles: string[] = [];
+
+		if (!this.config.relations || !this.config.tables || this.config.tables.length === 0) {
+			return relationFiles;
+		}
+
+		const relationsConfig = typeof this.config.relations === "object" ? this.config.relations : {};
+		const project = { tables: this.config.tables, helpers: this.config.helpers };
+
+		for (const tableDef of this.config.tables) {
+			try {
+				const result = RelationGenerator(tableDef, project, relationsConfig);
+
+				if (result.error) {
+					this.errors.push(`Relations for table '${tableDef.name}': ${result.error}`);
+					continue;
+				}
+
+				// Tables without foreign keys in either direction get no relations file
+				if (!result.relationCode) {
+					continue;
+				}
+
+				const fileName = `${tableDef.name}.ts`;
+				const filePath = join(relationsDir, fileName);
+
+				// Create complete file content with imports
+				const importManager = new ImportManager();
+				importManager.merge(result.imports);
+
+				const fileContent = `${importManager.toString()}\n\n${result.relationCode}\n`;
+
+				// Relations span several tables, so they follow any targeted, added or removed table
+				if (!this.targets || (this.targets.tables ?? []).length > 0 || this.targets.indexes) {
+					await this.writeFile(filePath, fileContent);
+				}
+				relationFiles.push(fileName);
+			} catch (error) {
+				this.errors.push(`Error generating relations for table '${tableDef.name}': ${error}`);
+			}
+		}
+
+		return relationFiles;
+	}
+
 	/**
 	 * Generate index files for each directory
 	 */
-	private async generateIndexFiles(params: { enumsDir: string; helpersDir: string; tablesDir: string; enumFiles: string[]; helperFiles: string[]; tableFiles: string[] }): Promise<string[]> {
+	private async generateIndexFiles(params: {
+		enumsDir: string;
+		helpersDir: string;
+		tablesDir: string;
+		relationsDir: string;
+		enumFiles: string[];
+		helperFiles: string[];
+		tableFiles: string[];
+		relationFiles: string[];
+	}): Promise<string[]> {
 		const indexFiles: string[] = [];
 
+		if (this.targets && !this.targets.indexes) {
+			return indexFiles;
+		}
+
 		try {
 			// Generate enums index
 			if (params.enumFiles.length > 0) {
@@ -237,6 +356,15 @@ export class ProjectGenerator {
 				indexFiles.push("tables/index.ts");
 			}
 
+			// Generate relations index
+			if (params.relationFiles.length > 0) {
+				const relationIndexPath = join(params.relationsDir, "index.ts");
+				const relationExports = params.relationFiles.map((file) => `export * from './${file.replace(".ts", "")}.js';`).join("\n");
+
+				await this.writeFile(relationIndexPath, `${relationExports}\n`);
+				indexFiles.push("relations/index.ts");
+			}
+
 			// Generate main index file
 			const mainIndexPath = join(this.config.outputDir, "index.ts");
 			const mainExports: string[] = [];
@@ -250,6 +378,9 @@ export class ProjectGenerator {
 			if (params.tableFiles.length > 0) {
 				mainExports.push("export * from './tables/index.js';");
 			}
+			if (params.relationFiles.length > 0) {
+				mainExports.push("export * from './relations/index.js';");
+			}
 
 			if (mainExports.length > 0) {
 				await this.writeFile(mainIndexPath, `${mainExports.join("\n")}\n`);
@@ -263,44 +394,177 @@ export class ProjectGenerator {
 	}
 
 	/**
-	 * Ensure directory exists
+	 * Check whether an entity's file should be written in this generation
 	 */
-	private async ensureDirectory(dirPath: string): Promise<void> {
-		try {
-			await fs.access(dirPath);
-		} catch {
-			await fs.mkdir(dirPath, { recursive: true });
-		}
+	private isTargeted(kind: "enums" | "helpers" | "tables", name: string): boolean {
+		return !this.targets || (this.targets[kind] ?? []).includes(name);
 	}
 
 	/**
-	 * Write file with overwrite check
+	 * Write a file to the sink with overwrite check, keeping the custom regions of the existing file.
+	 * Files edited by hand since the previous generation are reported, and kept with keepEditedFiles.
 	 */
-	private async writeFile(filePath: string, content: string): Promise<void> {
-		// Check if file exists and overwrite is disabled
-		if (!this.config.overwrite) {
-			try {
-				await fs.access(filePath);
-				this.errors.push(`File already exists: ${filePath} (use overwrite: true to replace)`);
+	private async writeFile(filePath: string, generated: string): Promise<void> {
+		const existing = await this.sink.read(filePath);
+		const manifestPath = this.manifestPath(filePath);
+		const previousHash = this.previousManifest?.files[manifestPath];
+		let content = generated;
+
+		// Files that are not written this time keep their previous entry
+		if (previousHash) {
+			this.manifestFiles[manifestPath] = previousHash;
+		}
+
+		if (existing !== undefined) {
+			const merged = mergeCustomRegions(generated, existing);
+			if (merged.error) {
+				// Overwriting would lose the hand-written code the markers were meant to protect
+				this.errors.push(`${filePath}: ${merged.error}, file not regenerated`);
 				return;
-			} catch {
-				// File doesn't exist, proceed
 			}
+			content = merged.content;
 		}
 
-		// Ensure directory exists
-		await this.ensureDirectory(dirname(filePath));
+		if (existing !== undefined && previousHash && hashGeneratedContent(existing) !== previousHash) {
+			this.editedFiles.push(filePath);
+			if (this.config.keepEditedFiles) {
+				this.errors.push(`${filePath}: edited by hand since the last generation, file not regenerated (move the changes into a custom region or delete the file)`);
+				return;
+			}
+		}
+
+		if (this.config.dryRun) {
+			this.planFile(filePath, content, existing);
+			return;
+		}
 
-		// Write file
-		await fs.writeFile(filePath, content, "utf-8");
+		// Check if file exists and overwrite is disabled
+		if (!this.config.overwrite && existing !== undefined) {
+			this.errors.push(`File already exists: ${filePath} (use overwrite: true to replace)`);
+			return;
+		}
+
+		await this.sink.write(filePath, content);
 		this.generatedFiles.push(filePath);
+		this.manifestFiles[manifestPath] = hashGeneratedContent(content);
+	}
+
+	/**
+	 * Find the files of the previous generation that were not generated this time, deleting them
+	 * with the prune option. Only complete generations without errors can tell: a targeted run
+	 * skips files on purpose and a failed entity would look removed, so their entries are kept.
+	 */
+	private async handleOrphanedFiles(): Promise<void> {
+		const complete = !this.targets && this.errors.length === 0;
+
+		for (const [manifestPath, hash] of Object.entries(this.previousManifest?.files ?? {})) {
+			if (manifestPath in this.manifestFiles) {
+				continue;
+			}
+			if (!complete) {
+				this.manifestFiles[manifestPath] = hash;
+				continue;
+			}
+
+			const filePath = join(this.config.outputDir, manifestPath);
+			const existing = await this.sink.read(filePath);
+			if (existing === undefined) {
+				continue;
+			}
+
+			const edited = hashGeneratedContent(existing) !== hash;
+			if (edited) {
+				this.editedFiles.push(filePath);
+			}
+
+			if (!this.config.prune || !(await this.removeGeneratedFile(filePath, existing, edited))) {
+				this.orphanedFiles.push(filePath);
+				this.manifestFiles[manifestPath] = hash;
+			}
+		}
+	}
+
+	/**
+	 * Delete the files a targeted run was asked to remove, e.g. those of entities removed from the
+	 * config. Files the manifest shows as edited by hand are kept and reported as orphans.
+	 */
+	private async removeTargetedFiles(): Promise<void> {
+		for (const manifestPath of this.targets?.remove ?? []) {
+			const filePath = join(this.config.outputDir, manifestPath);
+			const existing = await this.sink.read(filePath);
+			if (existing === undefined) {
+				continue;
+			}
+
+			const hash = this.previousManifest?.files[manifestPath];
+			const edited = hash !== undefined && hashGeneratedContent(existing) !== hash;
+			if (edited) {
+				this.editedFiles.push(filePath);
+			}
+
+			if (await this.removeGeneratedFile(filePath, existing, edited)) {
+				delete this.manifestFiles[manifestPath];
+			} else {
+				this.orphanedFiles.push(filePath);
+			}
+		}
+	}
+
+	/**
+	 * Delete a generated file from the sink, or plan its deletion in a dry run. Hand-edited files
+	 * and files with custom regions may hold code worth keeping, so they are never deleted.
+	 */
+	private async removeGeneratedFile(filePath: string, existing: string, edited: boolean): Promise<boolean> {
+		if (edited || findCustomRegions(existing).regions.length > 0) {
+			return false;
+		}
+
+		if (this.config.dryRun) {
+			const manifestPath = this.manifestPath(filePath);
+			this.plannedFiles.push({ path: filePath, content: "", status: "deleted", diff: unifiedDiff(existing, "", `a/${manifestPath}`, "/dev/null") });
+		} else {
+			await this.sink.remove(filePath);
+			this.removedFiles.push(filePath);
+		}
+		return true;
+	}
+
+	/**
+	 * Path of a file relative to the output directory, as recorded in the manifest
+	 */
+	private manifestPath(filePath: string): string {
+		return relative(this.config.outputDir, filePath).split("\\").join("/");
+	}
+
+	/**
+	 * Record the file a dry run would write, comparing it with the one in the sink.
+	 * Existing files are compared whatever `overwrite` is, so a preview shows every change.
+	 */
+	private planFile(filePath: string, content: string, existing: string | undefined): void {
+		if (existing === undefined) {
+			this.plannedFiles.push({ path: filePath, content, status: "created" });
+		} else if (existing === content) {
+			this.plannedFiles.push({ path: filePath, content, status: "unchanged" });
+		} else {
+			const diffPath = this.manifestPath(filePath);
+			this.plannedFiles.push({ path: filePath, content, status: "modified", diff: unifiedDiff(existing, content, `a/${diffPath}`, `b/${diffPath}`) });
+		}
+	}
+
+	/**
+	 * Summarize the planned files of a dry run
+	 */
+	private dryRunSummary(): string {
+		const count = (status: PlannedFile["status"]) => this.plannedFiles.filter((file) => file.status === status).length;
+		const deleted = count("deleted") > 0 ? `, ${count("deleted")} to delete` : "";
+		return `Dry run: ${count("created")} files to create, ${count("modified")} to modify${deleted}, ${count("unchanged")} unchanged`;
 	}
 }
 
 /**
  * Convenience function to generate a complete project
  */
-export async function generateProject(config: ProjectGeneratorConfig): Promise<ProjectGeneratorResult> {
-	const generator = new ProjectGenerator(config);
+export async function generateProject(config: ProjectGeneratorConfig, options?: ProjectGeneratorOptions): Promise<ProjectGeneratorResult> {
+	const generator = new ProjectGenerator(config, options);
 	return await generator.generate();
 }
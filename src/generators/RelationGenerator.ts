@@ -0,0 +1,152 @@
+import { TableDefinition, HelperDefinition, RelationsConfig, RelationGeneratorResult, ColumnDefinition } from "../definitions";
+import { ImportManager } from "../utils";
+
+/**
+ * A foreign key edge between two tables, from which a one()/many() pair is generated
+ */
+interface RelationEdge {
+	source: string;
+	column: string;
+	target: string;
+	targetColumn: string;
+	name?: string;
+	inverseName?: string;
+}
+
+/**
+ * Generates the Drizzle relations() definition of a table, inferring one() relations
+ * from its own foreign keys and many() relations from the foreign keys pointing at it.
+ */
+export function RelationGenerator(
+	definition: TableDefinition,
+	project: { tables: TableDefinition[]; helpers?: HelperDefinition[] },
+	config: RelationsConfig = {}
+): RelationGeneratorResult {
+	const result: RelationGeneratorResult = {
+		relationCode: "",
+		imports: {},
+		tables: [],
+	};
+
+	if (!definition.name || !definition.name.trim()) {
+		result.error = "Table name is required.";
+		return result;
+	}
+
+	const tableVarName = definition.name.toLowerCase();
+	const edges = inferRelationEdges(project.tables, project.helpers ?? [], config);
+
+	const importManager = new ImportManager();
+	const relationEntries: string[] = [];
+	let usesOne = false;
+	let usesMany = false;
+
+	for (const edge of edges) {
+		const parallelEdges = edges.filter((e) => e.source === edge.source && e.target === edge.target);
+		// Drizzle needs a relationName to pair up self references and multiple keys to the same table
+		const relationName = parallelEdges.length > 1 || edge.source === edge.target ? `${edge.source}_${edge.column}` : undefined;
+		const oneName = edge.name ?? relationFieldName(edge.column);
+
+		if (edge.source === tableVarName) {
+			const relationNameConfig = relationName ? `, relationName: '${relationName}'` : "";
+			relationEntries.push(
+				`    ${oneName}: one(${edge.target}, { fields: [${edge.source}.${edge.column}], references: [${edge.target}.${edge.targetColumn}]${relationNameConfig} })`
+			);
+			importManager.addImport("../tables/index.js", edge.target);
+			result.tables.push(edge.target);
+			usesOne = true;
+		}
+
+		if (edge.target === tableVarName) {
+			const manyName = edge.inverseName ?? (relationName ? `${edge.source}By${capitalize(oneName)}` : edge.source);
+			const relationNameConfig = relationName ? `, { relationName: '${relationName}' }` : "";
+			relationEntries.push(`    ${manyName}: many(${edge.source}${relationNameConfig})`);
+			importManager.addImport("../tables/index.js", edge.source);
+			result.tables.push(edge.source);
+			usesMany = true;
+		}
+	}
+
+	if (relationEntries.length === 0) {
+		return result;
+	}
+
+	importManager.addImport("drizzle-orm", "relations");
+	importManager.addImport("../tables/index.js", tableVarName);
+
+	const helpersUsed = [usesOne ? "one" : "", usesMany ? "many" : ""].filter(Boolean).join(", ");
+
+	result.relationCode = `export const ${tableVarName}Relations = relations(${tableVarName}, ({ ${helpersUsed} }) => ({
+${relationEntries.join(",\n")}
+}));`;
+	result.imports = importManager.getImports();
+	result.tables = [...new Set(result.tables)];
+
+	return result;
+}
+
+/**
+ * Collect the foreign key edges between the project's tables, including columns
+ * spread in from helpers, explicit many-to-many junctions and name overrides.
+ */
+function inferRelationEdges(tables: TableDefinition[], helpers: HelperDefinition[], config: RelationsConfig): RelationEdge[] {
+	const tableNames = new Set(tables.map((t) => t.name.toLowerCase()));
+	const edges = new Map<string, RelationEdge>();
+
+	for (const table of tables) {
+		const source = table.name.toLowerCase();
+		const helperColumns = (table.helperReferences ?? []).flatMap((ref) => helpers.find((h) => h.name === ref)?.columns ?? []);
+		const columns: ColumnDefinition[] = [...table.columns, ...helperColumns];
+
+		for (const column of columns) {
+			const references = column.options?.references;
+			if (!references || !tableNames.has(references.table.toLowerCase())) continue;
+
+			edges.set(`${source}.${column.name}`, {
+				source,
+				column: column.name,
+				target: references.table.toLowerCase(),
+				targetColumn: references.column,
+			});
+		}
+	}
+
+	// Explicit junctions take precedence over references declared on the junction table
+	for (const junction of config.manyToMany ?? []) {
+		const source = junction.through.toLowerCase();
+		for (const side of [junction.left, junction.right]) {
+			edges.set(`${source}.${side.column}`, {
+				source,
+				column: side.column,
+				target: side.references.table.toLowerCase(),
+				targetColumn: side.references.column,
+				inverseName: side.name,
+			});
+		}
+	}
+
+	for (const override of config.overrides ?? []) {
+		const edge = edges.get(`${override.table.toLowerCase()}.${override.column}`);
+		if (!edge) continue;
+
+		if (override.name) edge.name = override.name;
+		if (override.inverseName) edge.inverseName = override.inverseName;
+	}
+
+	return [...edges.values()];
+}
+
+/**
+ * Name of a one() relation derived from its foreign key column (authorId -> author)
+ */
+function relationFieldName(column: string): string {
+	const stripped = column.replace(/(Id|_id|ID)$/, "");
+	return stripped && stripped !== column ? stripped : `${column}Relation`;
+}
+
+/**
+ * Uppercase the first letter of a name
+ */
+function capitalize(value: string): string {
+	return value.charAt(0).toUpperCase() + value.slice(1);
+}
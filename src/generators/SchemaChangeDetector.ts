@@ -1,28 +1,44 @@
 import { promises as fs } from "fs";
 import { join } from "path";
-import { ProjectGeneratorConfig } from "../definitions/index.js";
-import { SchemaChange, SchemaChangeCategory, SchemaChangeImpact, SchemaComparison, SchemaUpdateResult } from "../definitions/SchemaReaderResult.js";
+import { ColumnDefinition, ColumnOptions, Dialect, GenerationTargets, OutputSink, ProjectGeneratorConfig, TableDefinition } from "../definitions/index.js";
+import {
+	SchemaChange,
+	SchemaChangeCategory,
+	SchemaChangeImpact,
+	SchemaComparison,
+	SchemaComparisonOptions,
+	SchemaUpdateResult,
+} from "../definitions/SchemaReaderResult.js";
+import { getDialect, normalizeColumnType, PostgresDialect } from "../dialects/index.js";
+import { arrayDimensions } from "../utils/ArrayDimensions.js";
+import { ProjectGenerator } from "./ProjectGenerator.js";
+import { SchemaReader } from "./SchemaReader.js";
 
 /**
  * Intelligent schema change detector and validator
  */
 export class SchemaChangeDetector {
+	/** Dialect of the compared schemas, used to tell apart column types rendering the same builder */
+	private dialect: Dialect = PostgresDialect;
+
 	/**
-	 * Compare two schemas and detect changes
+	 * Compare two schemas and detect changes. Renames are detected from the explicit hints
+	 * in options and, unless disabled, heuristically for columns.
 	 */
-	async compareSchemas(currentSchema: ProjectGeneratorConfig, newSchema: ProjectGeneratorConfig): Promise<SchemaComparison> {
+	async compareSchemas(currentSchema: ProjectGeneratorConfig, newSchema: ProjectGeneratorConfig, options: SchemaComparisonOptions = {}): Promise<SchemaComparison> {
 		const changes: SchemaChange[] = [];
+		this.dialect = getDialect(newSchema.dialect ?? currentSchema.dialect ?? "postgresql") ?? PostgresDialect;
 
 		// Compare enums
-		const enumChanges = this.compareEnums(currentSchema.enums || [], newSchema.enums || []);
+		const enumChanges = this.compareEnums(currentSchema.enums || [], newSchema.enums || [], options);
 		changes.push(...enumChanges);
 
 		// Compare helpers
-		const helperChanges = this.compareHelpers(currentSchema.helpers || [], newSchema.helpers || []);
+		const helperChanges = this.compareHelpers(currentSchema.helpers || [], newSchema.helpers || [], options);
 		changes.push(...helperChanges);
 
 		// Compare tables
-		const tableChanges = this.compareTables(currentSchema.tables || [], newSchema.tables || []);
+		const tableChanges = this.compareTables(currentSchema.tables || [], newSchema.tables || [], options);
 		changes.push(...tableChanges);
 
 		// Generate summary
@@ -56,9 +72,13 @@ export class SchemaChangeDetector {
 			allowBreaking?: boolean;
 			allowWarning?: boolean;
 			dryRun?: boolean;
+			/** Relations config of the project; defaults to regenerating relations when the project has a relations directory */
+			relations?: ProjectGeneratorConfig["relations"];
+			/** Where files are written and deleted, defaults to the file system */
+			sink?: OutputSink;
 		} = {}
 	): Promise<SchemaUpdateResult> {
-		const { allowBreaking = false, allowWarning = true, dryRun = false } = options;
+		const { allowBreaking = false, allowWarning = true, dryRun = false, relations, sink } = options;
 
 		const applied: SchemaChange[] = [];
 		const rejected: SchemaChange[] = [];
@@ -74,13 +94,17 @@ export class SchemaChangeDetector {
 		}
 
 		// If not dry run, actually apply changes
+		let files: string[] = [];
+		let errors: string[] = [];
 		if (!dryRun && applied.length > 0) {
-			await this.applyChangesToFiles(projectPath, applied);
+			({ files, errors } = await this.applyChangesToFiles(projectPath, applied, relations, sink));
 		}
 
 		return {
 			applied,
 			rejected,
+			files,
+			errors: errors.length > 0 ? errors : undefined,
 			metadata: {
 				totalChanges: comparison.changes.length,
 				appliedCount: applied.length,
@@ -93,7 +117,7 @@ export class SchemaChangeDetector {
 	/**
 	 * Compare enum definitions
 	 */
-	private compareEnums(currentEnums: any[], newEnums: any[]): SchemaChange[] {
+	private compareEnums(currentEnums: any[], newEnums: any[], options: SchemaComparisonOptions): SchemaChange[] {
 		const changes: SchemaChange[] = [];
 
 		// Track enum names for comparison
@@ -139,7 +163,7 @@ export class SchemaChangeDetector {
 		for (const newEnum of newEnums) {
 			const currentEnum = currentEnums.find((e) => e.name === newEnum.name);
 			if (currentEnum) {
-				const enumChanges = this.compareEnumValues(currentEnum, newEnum);
+				const enumChanges = this.compareEnumValues(currentEnum, newEnum, options);
 				changes.push(...enumChanges);
 			}
 		}
@@ -150,15 +174,39 @@ export class SchemaChangeDetector {
 	/**
 	 * Compare enum values
 	 */
-	private compareEnumValues(currentEnum: any, newEnum: any): SchemaChange[] {
+	private compareEnumValues(currentEnum: any, newEnum: any, options: SchemaComparisonOptions): SchemaChange[] {
 		const changes: SchemaChange[] = [];
 
 		const currentValues = new Set(currentEnum.values);
 		const newValues = new Set(newEnum.values);
 
+		// Values are only renamed through explicit hints: they have no shape to match, and RENAME VALUE rewrites existing rows
+		const renamed = matchRenames(
+			currentEnum.values.filter((v: string) => !newValues.has(v)),
+			newEnum.values.filter((v: string) => !currentValues.has(v)),
+			options.renames?.enumValues?.[newEnum.name],
+			false
+		);
+		for (const [from, to] of renamed) {
+			changes.push({
+				type: "enum_value_renamed",
+				category: SchemaChangeCategory.MODIFICATION,
+				impact: SchemaChangeImpact.WARNING,
+				description: `Renamed value '${from}' to '${to}' in enum '${newEnum.name}'`,
+				target: {
+					type: "enum",
+					name: newEnum.name,
+				},
+				details: {
+					from,
+					to,
+				},
+			});
+		}
+
 		// Check for added values
 		for (const value of newEnum.values) {
-			if (!currentValues.has(value)) {
+			if (!currentValues.has(value) && ![...renamed.values()].includes(value)) {
 				changes.push({
 					type: "enum_value_added",
 					category: SchemaChangeCategory.ADDITION,
@@ -177,7 +225,7 @@ export class SchemaChangeDetector {
 
 		// Check for removed values
 		for (const value of currentEnum.values) {
-			if (!newValues.has(value)) {
+			if (!newValues.has(value) && !renamed.has(value)) {
 				changes.push({
 					type: "enum_value_removed",
 					category: SchemaChangeCategory.REMOVAL,
@@ -200,7 +248,7 @@ export class SchemaChangeDetector {
 	/**
 	 * Compare helper definitions
 	 */
-	private compareHelpers(currentHelpers: any[], newHelpers: any[]): SchemaChange[] {
+	private compareHelpers(currentHelpers: any[], newHelpers: any[], options: SchemaComparisonOptions): SchemaChange[] {
 		const changes: SchemaChange[] = [];
 
 		const currentHelperNames = new Set(currentHelpers.map((h) => h.name));
@@ -218,6 +266,9 @@ export class SchemaChangeDetector {
 						type: "helper",
 						name: newHelper.name,
 					},
+					details: {
+						helper: newHelper,
+					},
 				});
 			}
 		}
@@ -242,7 +293,7 @@ export class SchemaChangeDetector {
 		for (const newHelper of newHelpers) {
 			const currentHelper = currentHelpers.find((h) => h.name === newHelper.name);
 			if (currentHelper) {
-				const helperChanges = this.compareHelperColumns(currentHelper, newHelper);
+				const helperChanges = this.compareHelperColumns(currentHelper, newHelper, options);
 				changes.push(...helperChanges);
 			}
 		}
@@ -253,15 +304,19 @@ export class SchemaChangeDetector {
 	/**
 	 * Compare helper columns
 	 */
-	private compareHelperColumns(currentHelper: any, newHelper: any): SchemaChange[] {
+	private compareHelperColumns(currentHelper: any, newHelper: any, options: SchemaComparisonOptions): SchemaChange[] {
 		const changes: SchemaChange[] = [];
 
-		const currentColumns = new Map(currentHelper.columns.map((c: any) => [c.name, c]));
-		const newColumns = new Map(newHelper.columns.map((c: any) => [c.name, c]));
+		const currentColumns = new Map<string, any>(currentHelper.columns.map((c: any) => [c.name, c]));
+		const newColumns = new Map<string, any>(newHelper.columns.map((c: any) => [c.name, c]));
+
+		// Check for renamed columns
+		const renamed = this.compareColumnRenames(currentColumns, newColumns, "helper", newHelper.name, options);
+		changes.push(...renamed.changes);
 
 		// Check for added columns
 		for (const [name, column] of newColumns) {
-			if (!currentColumns.has(name)) {
+			if (!currentColumns.has(name) && !renamed.newNames.has(name)) {
 				changes.push({
 					type: "helper_column_added",
 					category: SchemaChangeCategory.ADDITION,
@@ -272,13 +327,16 @@ export class SchemaChangeDetector {
 						name: newHelper.name,
 						column: String(name),
 					},
+					details: {
+						column,
+					},
 				});
 			}
 		}
 
 		// Check for removed columns
 		for (const [name, column] of currentColumns) {
-			if (!newColumns.has(name)) {
+			if (!newColumns.has(name) && !renamed.pairs.has(name)) {
 				changes.push({
 					type: "helper_column_removed",
 					category: SchemaChangeCategory.REMOVAL,
@@ -308,15 +366,24 @@ export class SchemaChangeDetector {
 	/**
 	 * Compare table definitions
 	 */
-	private compareTables(currentTables: any[], newTables: any[]): SchemaChange[] {
+	private compareTables(currentTables: any[], newTables: any[], options: SchemaComparisonOptions): SchemaChange[] {
 		const changes: SchemaChange[] = [];
 
 		const currentTableNames = new Set(currentTables.map((t) => t.name));
 		const newTableNames = new Set(newTables.map((t) => t.name));
 
+		// Tables are only renamed through explicit hints: tables with identical columns (e.g. only an id) are too common to guess
+		const renamed = matchRenames(
+			currentTables.map((t) => t.name).filter((name) => !newTableNames.has(name)),
+			newTables.map((t) => t.name).filter((name) => !currentTableNames.has(name)),
+			options.renames?.tables,
+			false
+		);
+		const renamedTo = new Set(renamed.values());
+
 		// Find added tables
 		for (const newTable of newTables) {
-			if (!currentTableNames.has(newTable.name)) {
+			if (!currentTableNames.has(newTable.name) && !renamedTo.has(newTable.name)) {
 				changes.push({
 					type: "table_added",
 					category: SchemaChangeCategory.ADDITION,
@@ -326,13 +393,16 @@ export class SchemaChangeDetector {
 						type: "table",
 						name: newTable.name,
 					},
+					details: {
+						table: newTable,
+					},
 				});
 			}
 		}
 
 		// Find removed tables
 		for (const currentTable of currentTables) {
-			if (!newTableNames.has(currentTable.name)) {
+			if (!newTableNames.has(currentTable.name) && !renamed.has(currentTable.name)) {
 				changes.push({
 					type: "table_removed",
 					category: SchemaChangeCategory.REMOVAL,
@@ -346,11 +416,30 @@ export class SchemaChangeDetector {
 			}
 		}
 
+		// Find renamed tables
+		for (const [from, to] of renamed) {
+			changes.push({
+				type: "table_renamed",
+				category: SchemaChangeCategory.MODIFICATION,
+				impact: SchemaChangeImpact.WARNING,
+				description: `Renamed table '${from}' to '${to}'`,
+				target: {
+					type: "table",
+					name: to,
+				},
+				details: {
+					from,
+					to,
+				},
+			});
+		}
+
 		// Find modified tables
 		for (const newTable of newTables) {
-			const currentTable = currentTables.find((t) => t.name === newTable.name);
+			const currentName = [...renamed].find(([, to]) => to === newTable.name)?.[0] ?? newTable.name;
+			const currentTable = currentTables.find((t) => t.name === currentName);
 			if (currentTable) {
-				const tableChanges = this.compareTableStructure(currentTable, newTable);
+				const tableChanges = this.compareTableStructure(currentTable, newTable, options);
 				changes.push(...tableChanges);
 			}
 		}
@@ -361,12 +450,12 @@ export class SchemaChangeDetector {
 	/**
 	 * Compare table structure
 	 */
-	private compareTableStructure(currentTable: any, newTable: any): SchemaChange[] {
+	private compareTableStructure(currentTable: any, newTable: any, options: SchemaComparisonOptions): SchemaChange[] {
 		const changes: SchemaChange[] = [];
 
 		// Compare columns
 		if (currentTable.columns && newTable.columns) {
-			const columnChanges = this.compareTableColumns(currentTable, newTable);
+			const columnChanges = this.compareTableColumns(currentTable, newTable, options);
 			changes.push(...columnChanges);
 		}
 
@@ -378,21 +467,37 @@ export class SchemaChangeDetector {
 		const pkChanges = this.compareCompositePrimaryKeys(currentTable, newTable);
 		changes.push(...pkChanges);
 
+		// Compare indexes
+		const indexChanges = this.compareIndexes(currentTable, newTable);
+		changes.push(...indexChanges);
+
+		// Compare unique constraints
+		const uniqueChanges = this.compareUniqueConstraints(currentTable, newTable);
+		changes.push(...uniqueChanges);
+
+		// Compare check constraints
+		const checkChanges = this.compareCheckConstraints(currentTable, newTable);
+		changes.push(...checkChanges);
+
 		return changes;
 	}
 
 	/**
 	 * Compare table columns
 	 */
-	private compareTableColumns(currentTable: any, newTable: any): SchemaChange[] {
+	private compareTableColumns(currentTable: any, newTable: any, options: SchemaComparisonOptions): SchemaChange[] {
 		const changes: SchemaChange[] = [];
 
-		const currentColumns = new Map(currentTable.columns.map((c: any) => [c.name, c]));
-		const newColumns = new Map(newTable.columns.map((c: any) => [c.name, c]));
+		const currentColumns = new Map<string, any>(currentTable.columns.map((c: any) => [c.name, c]));
+		const newColumns = new Map<string, any>(newTable.columns.map((c: any) => [c.name, c]));
+
+		// Check for renamed columns
+		const renamed = this.compareColumnRenames(currentColumns, newColumns, "table", newTable.name, options);
+		changes.push(...renamed.changes);
 
 		// Check for added columns
 		for (const [name, column] of newColumns) {
-			if (!currentColumns.has(name)) {
+			if (!currentColumns.has(name) && !renamed.newNames.has(name)) {
 				const col = column as any;
 				const impact = col.options?.notNull ? SchemaChangeImpact.WARNING : SchemaChangeImpact.SAFE;
 				changes.push({
@@ -405,13 +510,16 @@ export class SchemaChangeDetector {
 						name: newTable.name,
 						column: String(name),
 					},
+					details: {
+						column,
+					},
 				});
 			}
 		}
 
 		// Check for removed columns
 		for (const [name, column] of currentColumns) {
-			if (!newColumns.has(name)) {
+			if (!newColumns.has(name) && !renamed.pairs.has(name)) {
 				changes.push({
 					type: "table_column_removed",
 					category: SchemaChangeCategory.REMOVAL,
@@ -438,34 +546,93 @@ export class SchemaChangeDetector {
 		return changes;
 	}
 
+	/**
+	 * Detect renamed columns of a table or helper, including changes to their definitions
+	 */
+	private compareColumnRenames(
+		currentColumns: Map<string, any>,
+		newColumns: Map<string, any>,
+		targetType: "table" | "helper",
+		targetName: string,
+		options: SchemaComparisonOptions
+	): { changes: SchemaChange[]; pairs: Map<string, string>; newNames: Set<string> } {
+		const changes: SchemaChange[] = [];
+
+		const pairs = matchRenames(
+			[...currentColumns.keys()].filter((name) => !newColumns.has(name)),
+			[...newColumns.keys()].filter((name) => !currentColumns.has(name)),
+			options.renames?.columns?.[targetName],
+			options.detectRenames !== false,
+			(from, to) => stableStringify({ ...currentColumns.get(from), name: undefined }) === stableStringify({ ...newColumns.get(to), name: undefined })
+		);
+
+		for (const [from, to] of pairs) {
+			changes.push({
+				type: "column_renamed",
+				category: SchemaChangeCategory.MODIFICATION,
+				impact: SchemaChangeImpact.WARNING,
+				description: `Renamed column '${from}' to '${to}' in ${targetType} '${targetName}'`,
+				target: {
+					type: targetType,
+					name: targetName,
+					column: to,
+				},
+				details: {
+					from,
+					to,
+				},
+			});
+
+			// A hinted rename may also change the column definition
+			changes.push(...this.compareColumnDefinitions(currentColumns.get(from), newColumns.get(to), targetType, targetName));
+		}
+
+		return { changes, pairs, newNames: new Set(pairs.values()) };
+	}
+
 	/**
 	 * Compare column definitions
 	 */
-	private compareColumnDefinitions(currentColumn: any, newColumn: any, targetType: string, targetName: string): SchemaChange[] {
+	private compareColumnDefinitions(currentColumn: any, newColumn: any, targetType: SchemaChange["target"]["type"], targetName: string): SchemaChange[] {
 		const changes: SchemaChange[] = [];
+		const currentOptions = currentColumn.options || {};
+		const newOptions = newColumn.options || {};
 
-		// Type change
-		if (currentColumn.type !== newColumn.type) {
+		// Type change; switching the time zone changes how stored values are read and arrays
+		// change the stored type, so both count as one, as do lengths, precisions and interval fields.
+		// Types and lengths are compared as generated, so MySQL uuid equals varchar(36).
+		const currentType = normalizeColumnType(this.dialect, currentColumn.type, currentOptions);
+		const newType = normalizeColumnType(this.dialect, newColumn.type, newOptions);
+		const currentSize = { ...currentOptions, length: currentType.length };
+		const newSize = { ...newOptions, length: newType.length };
+		const timezoneChanged = !!currentOptions.withTimezone !== !!newOptions.withTimezone;
+		const arrayChanged = arrayDimensions(currentOptions) !== arrayDimensions(newOptions);
+		const sizeKeys = TYPE_SIZE_OPTIONS.filter((key) => currentSize[key] !== newSize[key]);
+		const typeChanged = currentType.type !== newType.type;
+		if (typeChanged || timezoneChanged || arrayChanged || sizeKeys.length > 0) {
+			// Only a wider size of the same type keeps every stored value
+			const impact = typeChanged || timezoneChanged || arrayChanged || isNarrowed(currentSize, newSize) ? SchemaChangeImpact.BREAKING : SchemaChangeImpact.SAFE;
 			changes.push({
 				type: "column_type_changed",
 				category: SchemaChangeCategory.MODIFICATION,
-				impact: SchemaChangeImpact.BREAKING,
-				description: `Changed column '${newColumn.name}' type from '${currentColumn.type}' to '${newColumn.type}' in ${targetType} '${targetName}'`,
+				impact,
+				description: `Changed column '${newColumn.name}' type from '${describeType(currentColumn)}' to '${describeType(newColumn)}' in ${targetType} '${targetName}'`,
 				target: {
-					type: targetType as any,
+					type: targetType,
 					name: targetName,
 					column: newColumn.name,
 				},
 				details: {
 					from: currentColumn.type,
 					to: newColumn.type,
+					...(timezoneChanged && { withTimezone: { from: !!currentOptions.withTimezone, to: !!newOptions.withTimezone } }),
+					...(arrayChanged && { array: { from: currentOptions.array, to: newOptions.array } }),
+					...Object.fromEntries(sizeKeys.map((key) => [key, { from: currentSize[key], to: newSize[key] }])),
 				},
 			});
 		}
 
 		// Options changes
-		const currentOptions = currentColumn.options || {};
-		const newOptions = newColumn.options || {};
 
 		// Primary key change
 		if (currentOptions.primaryKey !== newOptions.primaryKey) {
@@ -475,10 +642,14 @@ export class SchemaChangeDetector {
 				impact: SchemaChangeImpact.BREAKING,
 				description: `${newOptions.primaryKey ? "Added" : "Removed"} primary key on column '${newColumn.name}' in ${targetType} '${targetName}'`,
 				target: {
-					type: targetType as any,
+					type: targetType,
 					name: targetName,
 					column: newColumn.name,
 				},
+				details: {
+					from: currentOptions.primaryKey,
+					to: newOptions.primaryKey,
+				},
 			});
 		}
 
@@ -491,10 +662,35 @@ export class SchemaChangeDetector {
 				impact,
 				description: `${newOptions.notNull ? "Added NOT NULL constraint" : "Removed NOT NULL constraint"} on column '${newColumn.name}' in ${targetType} '${targetName}'`,
 				target: {
-					type: targetType as any,
+					type: targetType,
 					name: targetName,
 					column: newColumn.name,
 				},
+				details: {
+					from: currentOptions.notNull,
+					to: newOptions.notNull,
+				},
+			});
+		}
+
+		// Unique change
+		if (!!currentOptions.unique !== !!newOptions.unique) {
+			// Existing duplicate values make a new unique constraint fail
+			const impact = newOptions.unique ? SchemaChangeImpact.WARNING : SchemaChangeImpact.SAFE;
+			changes.push({
+				type: "column_unique_changed",
+				category: SchemaChangeCategory.MODIFICATION,
+				impact,
+				description: `${newOptions.unique ? "Added UNIQUE constraint" : "Removed UNIQUE constraint"} on column '${newColumn.name}' in ${targetType} '${targetName}'`,
+				target: {
+					type: targetType,
+					name: targetName,
+					column: newColumn.name,
+				},
+				details: {
+					from: currentOptions.unique,
+					to: newOptions.unique,
+				},
 			});
 		}
 
@@ -506,7 +702,7 @@ export class SchemaChangeDetector {
 				impact: SchemaChangeImpact.SAFE,
 				description: `Changed default value for column '${newColumn.name}' in ${targetType} '${targetName}'`,
 				target: {
-					type: targetType as any,
+					type: targetType,
 					name: targetName,
 					column: newColumn.name,
 				},
@@ -517,9 +713,69 @@ export class SchemaChangeDetector {
 			});
 		}
 
+		// References change
+		const referencesChange = this.compareColumnReferences(currentOptions.references, newOptions.references);
+		if (referencesChange) {
+			changes.push({
+				type: "column_references_changed",
+				category: SchemaChangeCategory.MODIFICATION,
+				impact: referencesChange.impact,
+				description: `${referencesChange.description} on column '${newColumn.name}' in ${targetType} '${targetName}'`,
+				target: {
+					type: targetType,
+					name: targetName,
+					column: newColumn.name,
+				},
+				details: {
+					from: currentOptions.references,
+					to: newOptions.references,
+				},
+			});
+		}
+
 		return changes;
 	}
 
+	/**
+	 * Compare foreign key references of a column
+	 */
+	private compareColumnReferences(currentRef: any, newRef: any): { impact: SchemaChangeImpact; description: string } | null {
+		if (!currentRef && !newRef) {
+			return null;
+		}
+
+		if (!currentRef) {
+			// Existing rows may not satisfy the new constraint
+			return {
+				impact: SchemaChangeImpact.WARNING,
+				description: `Added reference to '${newRef.table}.${newRef.column}'`,
+			};
+		}
+
+		if (!newRef) {
+			return {
+				impact: SchemaChangeImpact.SAFE,
+				description: `Removed reference to '${currentRef.table}.${currentRef.column}'`,
+			};
+		}
+
+		if (currentRef.table !== newRef.table || currentRef.column !== newRef.column) {
+			return {
+				impact: SchemaChangeImpact.BREAKING,
+				description: `Changed reference from '${currentRef.table}.${currentRef.column}' to '${newRef.table}.${newRef.column}'`,
+			};
+		}
+
+		if (currentRef.onDelete !== newRef.onDelete || currentRef.onUpdate !== newRef.onUpdate) {
+			return {
+				impact: SchemaChangeImpact.WARNING,
+				description: `Changed referential actions for '${newRef.table}.${newRef.column}'`,
+			};
+		}
+
+		return null;
+	}
+
 	/**
 	 * Compare helper references
 	 */
@@ -599,6 +855,192 @@ export class SchemaChangeDetector {
 		return changes;
 	}
 
+	/**
+	 * Compare secondary indexes. A changed definition is reported as a removal
+	 * followed by an addition, since indexes are recreated rather than altered.
+	 */
+	private compareIndexes(currentTable: any, newTable: any): SchemaChange[] {
+		const changes: SchemaChange[] = [];
+
+		const currentIndexes = new Map<string, any>((currentTable.indexes || []).map((i: any) => [i.name, i]));
+		const newIndexes = new Map<string, any>((newTable.indexes || []).map((i: any) => [i.name, i]));
+
+		const isSameIndex = (a: any, b: any) =>
+			!!a.unique === !!b.unique && a.where === b.where && a.method === b.method && JSON.stringify(a.columns) === JSON.stringify(b.columns);
+
+		// Removed or redefined indexes
+		for (const [name, index] of currentIndexes) {
+			const newIndex = newIndexes.get(name);
+			if (!newIndex || !isSameIndex(index, newIndex)) {
+				changes.push({
+					type: "index_removed",
+					category: SchemaChangeCategory.REMOVAL,
+					// Dropping a unique index removes a constraint the application may rely on
+					impact: index.unique ? SchemaChangeImpact.WARNING : SchemaChangeImpact.SAFE,
+					description: `${newIndex ? "Dropped changed" : "Removed"} ${index.unique ? "unique index" : "index"} '${name}' from table '${newTable.name}'`,
+					target: {
+						type: "table",
+						name: newTable.name,
+					},
+					details: {
+						index,
+					},
+				});
+			}
+		}
+
+		// Added or redefined indexes
+		for (const [name, index] of newIndexes) {
+			const currentIndex = currentIndexes.get(name);
+			if (!currentIndex || !isSameIndex(currentIndex, index)) {
+				changes.push({
+					type: "index_added",
+					category: SchemaChangeCategory.ADDITION,
+					// Existing duplicate rows make a new unique index fail
+					impact: index.unique ? SchemaChangeImpact.WARNING : SchemaChangeImpact.SAFE,
+					description: `${currentIndex ? "Recreated" : "Added"} ${index.unique ? "unique index" : "index"} '${name}' on table '${newTable.name}' (${index.columns.join(", ")})`,
+					target: {
+						type: "table",
+						name: newTable.name,
+					},
+					details: {
+						index,
+					},
+				});
+			}
+		}
+
+		return changes;
+	}
+
+	/**
+	 * Compare table-level unique constraints. A changed column list is reported as
+	 * a removal followed by an addition.
+	 */
+	private compareUniqueConstraints(currentTable: any, newTable: any): SchemaChange[] {
+		const changes: SchemaChange[] = [];
+
+		const currentConstraints = new Map<string, any>((currentTable.uniqueConstraints || []).map((u: any) => [u.name, u]));
+		const newConstraints = new Map<string, any>((newTable.uniqueConstraints || []).map((u: any) => [u.name, u]));
+
+		const isSameConstraint = (a: any, b: any) => JSON.stringify(a.columns) === JSON.stringify(b.columns);
+
+		for (const [name, constraint] of currentConstraints) {
+			const newConstraint = newConstraints.get(name);
+			if (!newConstraint || !isSameConstraint(constraint, newConstraint)) {
+				changes.push({
+					type: "unique_constraint_removed",
+					category: SchemaChangeCategory.REMOVAL,
+					impact: SchemaChangeImpact.SAFE,
+					description: `Removed unique constraint '${name}' from table '${newTable.name}'`,
+					target: {
+						type: "table",
+						name: newTable.name,
+					},
+					details: {
+						constraint,
+					},
+				});
+			}
+		}
+
+		for (const [name, constraint] of newConstraints) {
+			const currentConstraint = currentConstraints.get(name);
+			if (!currentConstraint || !isSameConstraint(currentConstraint, constraint)) {
+				changes.push({
+					type: "unique_constraint_added",
+					category: SchemaChangeCategory.ADDITION,
+					// Existing duplicate rows make the constraint fail
+					impact: SchemaChangeImpact.WARNING,
+					description: `Added unique constraint '${name}' on table '${newTable.name}' (${constraint.columns.join(", ")})`,
+					target: {
+						type: "table",
+						name: newTable.name,
+					},
+					details: {
+						constraint,
+					},
+				});
+			}
+		}
+
+		return changes;
+	}
+
+	/**
+	 * Compare check constraints
+	 */
+	private compareCheckConstraints(currentTable: any, newTable: any): SchemaChange[] {
+		const changes: SchemaChange[] = [];
+
+		const currentChecks = new Map<string, any>((currentTable.checks || []).map((c: any) => [c.name, c]));
+		const newChecks = new Map<string, any>((newTable.checks || []).map((c: any) => [c.name, c]));
+
+		// Added checks
+		for (const [name, check] of newChecks) {
+			if (!currentChecks.has(name)) {
+				changes.push({
+					type: "check_constraint_added",
+					category: SchemaChangeCategory.ADDITION,
+					impact: SchemaChangeImpact.WARNING, // Existing rows may violate the constraint
+					description: `Added check constraint '${name}' (${check.expression}) to table '${newTable.name}'`,
+					target: {
+						type: "table",
+						name: newTable.name,
+					},
+					details: {
+						name,
+						expression: check.expression,
+					},
+				});
+			}
+		}
+
+		// Removed checks
+		for (const [name, check] of currentChecks) {
+			if (!newChecks.has(name)) {
+				changes.push({
+					type: "check_constraint_removed",
+					category: SchemaChangeCategory.REMOVAL,
+					impact: SchemaChangeImpact.SAFE,
+					description: `Removed check constraint '${name}' from table '${newTable.name}'`,
+					target: {
+						type: "table",
+						name: newTable.name,
+					},
+					details: {
+						name,
+						expression: check.expression,
+					},
+				});
+			}
+		}
+
+		// Modified checks
+		for (const [name, check] of newChecks) {
+			const currentCheck = currentChecks.get(name);
+			if (currentCheck && currentCheck.expression !== check.expression) {
+				changes.push({
+					type: "check_constraint_modified",
+					category: SchemaChangeCategory.MODIFICATION,
+					impact: SchemaChangeImpact.WARNING,
+					description: `Changed check constraint '${name}' on table '${newTable.name}'`,
+					target: {
+						type: "table",
+						name: newTable.name,
+					},
+					details: {
+						name,
+						from: currentCheck.expression,
+						to: check.expression,
+					},
+				});
+			}
+		}
+
+		return changes;
+	}
+
 	/**
 	 * Generate summary of changes
 	 */
@@ -658,6 +1100,11 @@ export class SchemaChangeDetector {
 			if (notNullAdditions.length > 0) {
 				recommendations.push("🔧 Add default values or populate data for new NOT NULL columns.");
 			}
+
+			const uniqueAdditions = warningChanges.filter((c) => c.type === "column_unique_changed" || c.type === "unique_constraint_added");
+			if (uniqueAdditions.length > 0) {
+				recommendations.push("🔍 Check existing data for duplicates before adding UNIQUE constraints.");
+			}
 		}
 
 		const safeChanges = changes.filter((c) => c.impact === SchemaChangeImpact.SAFE);
@@ -689,17 +1136,387 @@ export class SchemaChangeDetector {
 	}
 
 	/**
-	 * Apply changes to actual files (placeholder for now)
+	 * Apply changes to the project files: the current schema is read back, the changes are
+	 * applied to it and only the affected enum, helper and table files are regenerated. Files of
+	 * removed entities are deleted by the generator, which keeps the ones edited by hand.
 	 */
-	private async applyChangesToFiles(projectPath: string, changes: SchemaChange[]): Promise<void> {
-		// This would implement the actual file modification logic
-		// For now, this is a placeholder that would integrate with ProjectGenerator
-		console.log(`Would apply ${changes.length} changes to ${projectPath}`);
-
-		// TODO: Implement actual file modification logic
-		// This could work by:
-		// 1. Reading current schema using SchemaReader
-		// 2. Applying changes to the schema object
-		// 3. Regenerating files using ProjectGenerator
+	private async applyChangesToFiles(
+		projectPath: string,
+		changes: SchemaChange[],
+		relations: ProjectGeneratorConfig["relations"],
+		sink: OutputSink | undefined
+	): Promise<{ files: string[]; errors: string[] }> {
+		const readResult = await new SchemaReader(projectPath).readSchema();
+		if (!readResult.success || !readResult.schema) {
+			return { files: [], errors: readResult.errors ?? [readResult.message] };
+		}
+
+		// Relations are not part of the files read back, so a generated relations directory turns them on
+		const hasRelations = relations ?? (await fs.stat(join(projectPath, "relations")).then((stats) => stats.isDirectory(), () => false));
+		const config: ProjectGeneratorConfig = { ...readResult.schema, outputDir: projectPath, overwrite: true, relations: hasRelations };
+		const targets: Required<GenerationTargets> = { enums: [], helpers: [], tables: [], indexes: false, remove: [] };
+		const errors: string[] = [];
+
+		for (const change of changes) {
+			const error = this.applyChangeToConfig(config, change);
+			if (error) {
+				errors.push(`${change.description}: ${error}`);
+				continue;
+			}
+
+			const kind = `${change.target.type}s` as "enums" | "helpers" | "tables";
+			if (change.type === "enum_removed" || change.type === "helper_removed" || change.type === "table_removed") {
+				targets[kind] = targets[kind].filter((name) => name !== change.target.name);
+				targets.remove.push(`${kind}/${change.target.name}.ts`);
+				if (change.type === "table_removed") {
+					targets.remove.push(`relations/${change.target.name}.ts`);
+				}
+				targets.indexes = true;
+				continue;
+			}
+
+			if (change.type === "table_renamed") {
+				targets.tables = targets.tables.filter((name) => name !== change.details.from);
+				targets.remove.push(`tables/${change.details.from}.ts`, `relations/${change.details.from}.ts`);
+				targets.indexes = true;
+			}
+
+			// Tables and helpers referencing a renamed table or column are rewritten with the new name,
+			// as are the tables whose keys, indexes and constraints use a renamed helper column
+			const renamedTables =
+				change.type === "table_renamed" ? [change.target.name] : change.type === "column_renamed" ? this.columnTables(config, change).map((t) => t.name) : [];
+			for (const tableName of renamedTables) {
+				for (const owner of [{ kind: "tables" as const, name: tableName }, ...this.referencingOwners(config, tableName)]) {
+					if (!targets[owner.kind].includes(owner.name)) {
+						targets[owner.kind].push(owner.name);
+					}
+				}
+			}
+
+			if (!targets[kind].includes(change.target.name)) {
+				targets[kind].push(change.target.name);
+			}
+			if (change.type === "enum_added" || change.type === "helper_added" || change.type === "table_added") {
+				targets.indexes = true;
+			}
+		}
+
+		// Index files of directories that became empty are no longer rewritten
+		for (const kind of ["enums", "helpers", "tables"] as const) {
+			if ((config[kind] ?? []).length === 0) {
+				targets.remove.push(`${kind}/index.ts`);
+			}
+		}
+
+		const result = await new ProjectGenerator(config, { sink }).generate(targets);
+		errors.push(...(result.errors ?? []));
+
+		return { files: [...(result.removedFiles ?? []), ...result.generatedFiles], errors };
 	}
+
+	/**
+	 * Apply a single change to a schema config, returning an error message when it cannot be applied
+	 */
+	private applyChangeToConfig(config: ProjectGeneratorConfig, change: SchemaChange): string | undefined {
+		const details = change.details ?? {};
+		const enums = (config.enums ??= []);
+		const helpers = (config.helpers ??= []);
+		const tables = (config.tables ??= []);
+
+		switch (change.type) {
+			case "enum_added":
+				if (!details.values) return "Missing enum values";
+				enums.push({ name: change.target.name, values: [...details.values] });
+				return;
+			case "helper_added":
+				if (!details.helper) return "Missing helper definition";
+				helpers.push(structuredClone(details.helper));
+				return;
+			case "table_added":
+				if (!details.table) return "Missing table definition";
+				tables.push(structuredClone(details.table));
+				return;
+			case "enum_removed":
+				config.enums = enums.filter((e) => e.name !== change.target.name);
+				return;
+			case "helper_removed":
+				config.helpers = helpers.filter((h) => h.name !== change.target.name);
+				return;
+			case "table_removed":
+				config.tables = tables.filter((t) => t.name !== change.target.name);
+				return;
+			case "table_renamed": {
+				const table = tables.find((t) => t.name === details.from);
+				if (!table) return `Table '${details.from}' not found`;
+
+				table.name = details.to;
+				for (const column of [...tables, ...helpers].flatMap((owner) => owner.columns)) {
+					const ref = column.options?.references;
+					if (ref && ref.table.toLowerCase() === String(details.from).toLowerCase()) {
+						column.options = { ...column.options, references: { ...ref, table: String(details.to).toLowerCase() } };
+					}
+				}
+				return;
+			}
+		}
+
+		if (change.target.type === "enum") {
+			const enumDef = enums.find((e) => e.name === change.target.name);
+			if (!enumDef) return `Enum '${change.target.name}' not found`;
+
+			if (change.type === "enum_value_added") {
+				enumDef.values.push(details.value);
+			} else if (change.type === "enum_value_renamed") {
+				enumDef.values = enumDef.values.map((v) => (v === details.from ? details.to : v));
+			} else if (change.type === "enum_value_removed") {
+				enumDef.values = enumDef.values.filter((v) => v !== details.value);
+			} else {
+				return `Unsupported change type '${change.type}'`;
+			}
+			return;
+		}
+
+		const owner = change.target.type === "helper" ? helpers.find((h) => h.name === change.target.name) : tables.find((t) => t.name === change.target.name);
+		if (!owner) return `${change.target.type === "helper" ? "Helper" : "Table"} '${change.target.name}' not found`;
+
+		if (change.type === "column_renamed") {
+			return this.applyColumnRename(config, owner, change);
+		}
+
+		if (change.target.column) {
+			return this.applyColumnChange(owner.columns, change);
+		}
+
+		return this.applyTableChange(owner as TableDefinition, change);
+	}
+
+	/**
+	 * Apply a column level change to the columns of a helper or table
+	 */
+	private applyColumnChange(columns: ColumnDefinition[], change: SchemaChange): string | undefined {
+		const details = change.details ?? {};
+		const columnName = change.target.column;
+
+		if (change.type === "helper_column_added" || change.type === "table_column_added") {
+			if (!details.column) return "Missing column definition";
+			columns.push(structuredClone(details.column));
+			return;
+		}
+
+		const index = columns.findIndex((c) => c.name === columnName);
+		if (index === -1) return `Column '${columnName}' not found`;
+
+		if (change.type === "helper_column_removed" || change.type === "table_column_removed") {
+			columns.splice(index, 1);
+			return;
+		}
+
+		const column = columns[index];
+		const optionKeys: Partial<Record<SchemaChange["type"], string>> = {
+			column_primary_key_changed: "primaryKey",
+			column_not_null_changed: "notNull",
+			column_unique_changed: "unique",
+			column_default_changed: "default",
+			column_references_changed: "references",
+		};
+
+		if (change.type === "column_type_changed") {
+			column.type = details.to;
+			for (const key of ["withTimezone", "array", ...TYPE_SIZE_OPTIONS] as const) {
+				if (details[key]) {
+					const options: Record<string, any> = { ...column.options };
+					delete options[key];
+					if (details[key].to !== undefined && details[key].to !== false) options[key] = details[key].to;
+					column.options = options;
+				}
+			}
+			return;
+		}
+
+		const optionKey = optionKeys[change.type];
+		if (!optionKey) return `Unsupported change type '${change.type}'`;
+
+		const options: Record<string, any> = { ...column.options };
+		if (details.to === undefined) {
+			delete options[optionKey];
+		} else {
+			options[optionKey] = structuredClone(details.to);
+		}
+		column.options = options;
+	}
+
+	/**
+	 * Rename a column along with the keys, indexes, constraints and references using it
+	 */
+	private applyColumnRename(config: ProjectGeneratorConfig, owner: { name: string; columns: ColumnDefinition[] }, change: SchemaChange): string | undefined {
+		const { from, to } = change.details ?? {};
+		const column = owner.columns.find((c) => c.name === from);
+		if (!column) return `Column '${from}' not found`;
+
+		column.name = to;
+
+		const rename = (columns: string[]) => columns.map((c) => (c === from ? to : c));
+		for (const table of this.columnTables(config, change)) {
+			if (table.compositePrimaryKey) table.compositePrimaryKey = rename(table.compositePrimaryKey);
+			table.indexes = table.indexes?.map((index) => ({ ...index, columns: rename(index.columns) }));
+			table.uniqueConstraints = table.uniqueConstraints?.map((constraint) => ({ ...constraint, columns: rename(constraint.columns) }));
+
+			for (const other of [...(config.tables ?? []), ...(config.helpers ?? [])].flatMap((o) => o.columns)) {
+				const ref = other.options?.references;
+				if (ref && ref.table.toLowerCase() === table.name.toLowerCase() && ref.column === from) {
+					other.options = { ...other.options, references: { ...ref, column: to } };
+				}
+			}
+		}
+	}
+
+	/**
+	 * Tables holding the column of a column change: the table itself, or every table spreading the helper
+	 */
+	private columnTables(config: ProjectGeneratorConfig, change: SchemaChange): TableDefinition[] {
+		if (change.target.type === "table") {
+			return (config.tables ?? []).filter((t) => t.name === change.target.name);
+		}
+		return (config.tables ?? []).filter((t) => (t.helperReferences ?? []).includes(change.target.name));
+	}
+
+	/**
+	 * Tables and helpers with a column referencing the given table
+	 */
+	private referencingOwners(config: ProjectGeneratorConfig, tableName: string): { kind: "tables" | "helpers"; name: string }[] {
+		const owners = [
+			...(config.tables ?? []).map((t) => ({ kind: "tables" as const, name: t.name, columns: t.columns })),
+			...(config.helpers ?? []).map((h) => ({ kind: "helpers" as const, name: h.name, columns: h.columns })),
+		];
+
+		return owners
+			.filter((owner) => owner.columns.some((c) => c.options?.references?.table.toLowerCase() === tableName.toLowerCase()))
+			.map(({ kind, name }) => ({ kind, name }));
+	}
+
+	/**
+	 * Apply a table level change (helper references, keys, indexes and constraints)
+	 */
+	private applyTableChange(table: TableDefinition, change: SchemaChange): string | undefined {
+		const details = change.details ?? {};
+
+		switch (change.type) {
+			case "table_helper_reference_added":
+				table.helperReferences = [...(table.helperReferences ?? []), details.helperReference];
+				return;
+			case "table_helper_reference_removed":
+				table.helperReferences = (table.helperReferences ?? []).filter((ref) => ref !== details.helperReference);
+				return;
+			case "table_composite_primary_key_changed":
+				table.compositePrimaryKey = details.to?.length ? [...details.to] : undefined;
+				return;
+			case "index_added":
+				if (!details.index) return "Missing index definition";
+				table.indexes = [...(table.indexes ?? []), structuredClone(details.index)];
+				return;
+			case "index_removed":
+				table.indexes = (table.indexes ?? []).filter((i) => i.name !== details.index?.name);
+				return;
+			case "unique_constraint_added":
+				if (!details.constraint) return "Missing unique constraint definition";
+				table.uniqueConstraints = [...(table.uniqueConstraints ?? []), structuredClone(details.constraint)];
+				return;
+			case "unique_constraint_removed":
+				table.uniqueConstraints = (table.uniqueConstraints ?? []).filter((u) => u.name !== details.constraint?.name);
+				return;
+			case "check_constraint_added":
+				if (!details.name) return "Missing check constraint name";
+				table.checks = [...(table.checks ?? []), { name: details.name, expression: details.expression }];
+				return;
+			case "check_constraint_removed":
+				table.checks = (table.checks ?? []).filter((c) => c.name !== details.name);
+				return;
+			case "check_constraint_modified":
+				if (!details.name) return "Missing check constraint name";
+				table.checks = (table.checks ?? []).map((c) => (c.name === details.name ? { ...c, expression: details.to } : c));
+				return;
+			default:
+				return `Unsupported change type '${change.type}'`;
+		}
+	}
+}
+
+/**
+ * Column options that size a type: varchar(255), numeric(10, 2), timestamp(3), interval day to second
+ */
+const TYPE_SIZE_OPTIONS = ["length", "precision", "scale", "fields"] as const;
+
+/**
+ * Describe a column type with its size, array dimensions and time zone, e.g. numeric(10, 2)[]
+ */
+function describeType(column: ColumnDefinition): string {
+	const options = column.options ?? {};
+	const params = options.length !== undefined ? [options.length] : [options.precision, options.scale].filter((value) => value !== undefined);
+	return `${column.type}${options.fields ? ` ${options.fields}` : ""}${params.length > 0 ? `(${params.join(", ")})` : ""}${options.withTimezone ? " with time zone" : ""}${"[]".repeat(arrayDimensions(options))}`;
+}
+
+/**
+ * Whether new size options can no longer hold every value of the current ones. A missing size
+ * is unbounded; precision counts the digits before the point, scale those after it.
+ */
+function isNarrowed(current: ColumnOptions, next: ColumnOptions): boolean {
+	const shrinks = (from: number | undefined, to: number | undefined) => to !== undefined && (from === undefined || to < from);
+	const integerDigits = (options: ColumnOptions) => (options.precision === undefined ? undefined : options.precision - (options.scale ?? 0));
+	const fractionDigits = (options: ColumnOptions) => options.scale ?? (options.precision === undefined ? undefined : 0);
+
+	return (
+		shrinks(current.length, next.length) ||
+		shrinks(integerDigits(current), integerDigits(next)) ||
+		shrinks(fractionDigits(current), fractionDigits(next)) ||
+		(next.fields !== undefined && next.fields !== current.fields)
+	);
+}
+
+/**
+ * Pair removed names with added names as renames. Explicit hints (old name -> new name) win;
+ * otherwise a single removed and a single added name are paired when the heuristic is enabled
+ * and the optional shape check agrees.
+ */
+function matchRenames(
+	removed: string[],
+	added: string[],
+	hints: Record<string, string> | undefined,
+	heuristic: boolean,
+	sameShape: (from: string, to: string) => boolean = () => true
+): Map<string, string> {
+	const pairs = new Map<string, string>();
+
+	for (const from of removed) {
+		const to = hints?.[from];
+		if (to && added.includes(to)) {
+			pairs.set(from, to);
+		}
+	}
+
+	const remainingRemoved = removed.filter((name) => !pairs.has(name));
+	const remainingAdded = added.filter((name) => ![...pairs.values()].includes(name));
+	if (heuristic && remainingRemoved.length === 1 && remainingAdded.length === 1 && sameShape(remainingRemoved[0], remainingAdded[0])) {
+		pairs.set(remainingRemoved[0], remainingAdded[0]);
+	}
+
+	return pairs;
+}
+
+/**
+ * JSON representation with sorted keys, so definitions compare equal regardless of key order
+ */
+function stableStringify(value: any): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(",")}]`;
+	}
+
+	if (value && typeof value === "object") {
+		const entries = Object.keys(value)
+			.filter((key) => value[key] !== undefined)
+			.sort()
+			.map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+		return `{${entries.join(",")}}`;
+	}
+
+	return JSON.stringify(value);
 }
@@ -1,17 +1,32 @@
 import { promises as fs } from "fs";
-import { join, dirname } from "path";
-import { EnumDefinition, HelperDefinition, TableDefinition, ProjectGeneratorConfig } from "../definitions/index.js";
+import { join, basename, relative } from "path";
+import ts from "typescript";
+import { EnumDefinition, HelperDefinition, TableDefinition, ColumnDefinition, ColumnOptions, IndexDefinition, ReferenceDefinition, ProjectGeneratorConfig, DatabaseDialect, Dialect } from "../definitions/index.js";
 import { SchemaReaderResult } from "../definitions/SchemaReaderResult.js";
+import { getDialect, getParseRules, getRegisteredDialects, resolveColumnType } from "../dialects/index.js";
+import { expandGlobs } from "../utils/Glob.js";
+import { blankCustomRegions } from "../utils/CustomRegions.js";
+import { arrayDimensions } from "../utils/ArrayDimensions.js";
+import { PascalCase } from "../utils/PascalCase.js";
+import { SnakeCase } from "../utils/SnakeCase.js";
 
 /**
  * Reads and parses existing Drizzle schema files back to JSON format
  */
 export class SchemaReader {
 	private projectPath: string;
+	private dialectName?: DatabaseDialect;
+	private dialect!: Dialect;
 	private errors: string[] = [];
+	private warnings: string[] = [];
 
-	constructor(projectPath: string) {
+	/**
+	 * @param projectPath - Directory of the generated project
+	 * @param dialect - Dialect of the project; detected from the core imports when omitted
+	 */
+	constructor(projectPath: string, dialect?: DatabaseDialect) {
 		this.projectPath = projectPath;
+		this.dialectName = dialect;
 	}
 
 	/**
@@ -38,6 +53,14 @@ export class SchemaReader {
 			// Read file structure
 			const files = await this.getFileStructure();
 
+			// Resolve the dialect used to parse the files
+			const candidates = [...files.tables.map((f) => join("tables", f)), ...files.enums.map((f) => join("enums", f))];
+			const dialect = this.dialectName ? getDialect(this.dialectName) : await this.detectDialect(candidates);
+			if (!dialect) {
+				throw new Error(`Unsupported dialect '${this.dialectName}'`);
+			}
+			this.dialect = dialect;
+
 			// Parse each category
 			const enums = await this.parseEnums(files.enums);
 			const helpers = await this.parseHelpers(files.helpers);
@@ -46,41 +69,159 @@ export class SchemaReader {
 			// Get metadata
 			const metadata = await this.getMetadata(files);
 
-			const schema: ProjectGeneratorConfig = {
-				outputDir: this.projectPath,
-				enums: enums.length > 0 ? enums : undefined,
-				helpers: helpers.length > 0 ? helpers : undefined,
-				tables: tables.length > 0 ? tables : undefined,
-				overwrite: true,
-			};
+			return this.buildResult(enums, helpers, tables, files, metadata);
+		} catch (error) {
+			return this.failureResult(error);
+		}
+	}
 
-			return {
-				success: this.errors.length === 0,
-				message: this.errors.length === 0 ? `Successfully read schema with ${enums.length} enums, ${helpers.length} helpers, ${tables.length} tables` : `Read schema with ${this.errors.length} errors`,
-				schema,
-				files,
-				errors: this.errors.length > 0 ? this.errors : undefined,
-				metadata,
-			};
+	/**
+	 * Read a schema from arbitrary Drizzle files instead of a generated project layout.
+	 * Every exported enum, table and helper object is classified by what it declares,
+	 * whichever file it lives in.
+	 * @param patterns - Files, directories or glob patterns, relative to the project path
+	 */
+	async readFiles(patterns: string[]): Promise<SchemaReaderResult> {
+		this.errors = [];
+		this.warnings = [];
+
+		try {
+			const paths = (await expandGlobs(patterns, this.projectPath)).map((path) => relative(this.projectPath, path));
+			if (paths.length === 0) {
+				throw new Error(`No files match ${patterns.map((p) => `'${p}'`).join(", ")}`);
+			}
+
+			// Resolve the dialect used to parse the files
+			const dialect = this.dialectName ? getDialect(this.dialectName) : await this.detectDialect(paths);
+			if (!dialect) {
+				throw new Error(`Unsupported dialect '${this.dialectName}'`);
+			}
+			this.dialect = dialect;
+
+			const files = { enums: [] as string[], helpers: [] as string[], tables: [] as string[], indexes: [] as string[] };
+			const enums: EnumDefinition[] = [];
+			const helpers: HelperDefinition[] = [];
+			const tables: TableDefinition[] = [];
+			// Table variable in the source files -> table variable the generator will emit
+			const tableVariables = new Map<string, string>();
+			const seen = new Map<string, string>();
+			let lastModified = new Date(0);
+
+			for (const file of paths) {
+				let content: string;
+				try {
+					content = await fs.readFile(join(this.projectPath, file), "utf-8");
+					const stats = await fs.stat(join(this.projectPath, file));
+					lastModified = stats.mtime > lastModified ? stats.mtime : lastModified;
+				} catch (error) {
+					this.errors.push(`Error reading file ${file}: ${error}`);
+					continue;
+				}
+
+				const sourceFile = this.parseSourceFile(content, file);
+				if (!sourceFile) continue;
+
+				for (const declaration of exportedConsts(sourceFile)) {
+					const kind = this.classifyDeclaration(declaration.initializer!);
+					if (!kind) continue;
+
+					const variable = declaration.name.getText(sourceFile);
+					const definition =
+						kind === "enum"
+							? this.parseEnumDeclaration(declaration, sourceFile)
+							: kind === "helper"
+								? this.parseHelperDeclaration(declaration, sourceFile)
+								: this.parseTableDeclaration(declaration, sourceFile, variable.charAt(0).toUpperCase() + variable.slice(1));
+					if (!definition) continue;
+
+					const key = `${kind} '${definition.name}'`;
+					if (seen.has(key)) {
+						this.reportError(sourceFile, declaration, `Duplicate ${key}, already declared in ${seen.get(key)}`);
+						continue;
+					}
+					seen.set(key, file);
+
+					const list = kind === "enum" ? files.enums : kind === "helper" ? files.helpers : files.tables;
+					if (!list.includes(file)) {
+						list.push(file);
+					}
+
+					if (kind === "enum") {
+						enums.push(definition as EnumDefinition);
+					} else if (kind === "helper") {
+						helpers.push(definition as HelperDefinition);
+					} else {
+						tables.push(definition as TableDefinition);
+						tableVariables.set(variable, definition.name.toLowerCase());
+					}
+				}
+			}
+
+			// References point at source variables; rename them to the generated table variables
+			for (const column of [...tables, ...helpers].flatMap((owner) => owner.columns)) {
+				const references = column.options?.references;
+				if (references && tableVariables.has(references.table)) {
+					references.table = tableVariables.get(references.table)!;
+				}
+			}
+
+			return this.buildResult(enums, helpers, tables, files, { lastModified, totalFiles: paths.length, projectPath: this.projectPath });
 		} catch (error) {
-			return {
-				success: false,
-				message: `Failed to read schema: ${error instanceof Error ? error.message : String(error)}`,
-				files: { enums: [], helpers: [], tables: [], indexes: [] },
-				errors: [String(error)],
-				metadata: {
-					lastModified: new Date(),
-					totalFiles: 0,
-					projectPath: this.projectPath,
-				},
-			};
+			return this.failureResult(error);
 		}
 	}
 
+	/**
+	 * Assemble the result of a read from the parsed definitions
+	 */
+	private buildResult(
+		enums: EnumDefinition[],
+		helpers: HelperDefinition[],
+		tables: TableDefinition[],
+		files: SchemaReaderResult["files"],
+		metadata: SchemaReaderResult["metadata"]
+	): SchemaReaderResult {
+		const schema: ProjectGeneratorConfig = {
+			outputDir: this.projectPath,
+			dialect: this.dialect.name !== "postgresql" ? this.dialect.name : undefined,
+			enums: enums.length > 0 ? enums : undefined,
+			helpers: helpers.length > 0 ? helpers : undefined,
+			tables: tables.length > 0 ? tables : undefined,
+			overwrite: true,
+		};
+
+		return {
+			success: this.errors.length === 0,
+			message: this.errors.length === 0 ? `Successfully read schema with ${enums.length} enums, ${helpers.length} helpers, ${tables.length} tables` : `Read schema with ${this.errors.length} errors`,
+			schema,
+			files,
+			warnings: this.warnings.length > 0 ? this.warnings : undefined,
+			errors: this.errors.length > 0 ? this.errors : undefined,
+			metadata,
+		};
+	}
+
+	/**
+	 * Result returned when reading fails altogether
+	 */
+	private failureResult(error: unknown): SchemaReaderResult {
+		return {
+			success: false,
+			message: `Failed to read schema: ${error instanceof Error ? error.message : String(error)}`,
+			files: { enums: [], helpers: [], tables: [], indexes: [] },
+			errors: [String(error)],
+			metadata: {
+				lastModified: new Date(),
+				totalFiles: 0,
+				projectPath: this.projectPath,
+			},
+		};
+	}
+
 	/**
 	 * Check if the project directory exists and is valid
 	 */
-	private async checkProjectExists(): Promise<boolean> {
+	async checkProjectExists(): Promise<boolean> {
 		try {
 			await fs.access(this.projectPath);
 
@@ -162,6 +303,25 @@ export class SchemaReader {
 		return files;
 	}
 
+	/**
+	 * Detect the dialect from the Drizzle core module the given files import
+	 */
+	private async detectDialect(candidates: string[]): Promise<Dialect | undefined> {
+		for (const file of candidates) {
+			try {
+				const content = await fs.readFile(join(this.projectPath, file), "utf-8");
+				const dialect = getRegisteredDialects().find((d) => content.includes(`'${d.importPath}'`) || content.includes(`"${d.importPath}"`));
+				if (dialect) {
+					return dialect;
+				}
+			} catch {
+				// Unreadable files are reported while parsing
+			}
+		}
+
+		return getDialect("postgresql");
+	}
+
 	/**
 	 * Parse enum files back to EnumDefinition
 	 */
@@ -171,7 +331,7 @@ export class SchemaReader {
 		for (const file of enumFiles) {
 			try {
 				const content = await fs.readFile(join(this.projectPath, "enums", file), "utf-8");
-				const enumDef = this.parseEnumContent(content, file);
+				const enumDef = this.parseEnumContent(content, join("enums", file));
 				if (enumDef) {
 					enums.push(enumDef);
 				}
@@ -187,39 +347,58 @@ export class SchemaReader {
 	 * Parse enum file content
 	 */
 	private parseEnumContent(content: string, filename: string): EnumDefinition | null {
-		try {
-			// Match: export const UserStatus = pgEnum('user_status', ['Active', 'Inactive'] as const);
-			const enumMatch = content.match(/export const (\w+) = pgEnum\('([^']+)', \[([^\]]+)\] as const\);/);
+		const sourceFile = this.parseSourceFile(content, filename);
+		if (!sourceFile) return null;
 
-			if (!enumMatch) {
-				this.errors.push(`Could not parse enum in ${filename}`);
-				return null;
-			}
+		// export const UserStatus = pgEnum('user_status', ['Active', 'Inactive'] as const);
+		// export const UserStatus = ['Active', 'Inactive'] as const;
+		const declaration = findExportedConst(sourceFile, (initializer) => this.classifyDeclaration(initializer) === "enum");
+
+		if (!declaration) {
+			this.reportError(sourceFile, undefined, "Could not parse enum: expected an exported enum declaration");
+			return null;
+		}
+
+		return this.parseEnumDeclaration(declaration, sourceFile);
+	}
 
-			const name = enumMatch[1];
-			const valuesString = enumMatch[3];
+	/**
+	 * Parse an enum declaration back to EnumDefinition
+	 */
+	private parseEnumDeclaration(declaration: ts.VariableDeclaration, sourceFile: ts.SourceFile): EnumDefinition | null {
+		const initializer = unwrapExpression(declaration.initializer!);
+		const valuesNode = ts.isCallExpression(initializer) ? initializer.arguments[1] && unwrapExpression(initializer.arguments[1]) : initializer;
 
-			// Extract values from ['Value1', 'Value2', ...]
-			const valuesMatch = valuesString.match(/'([^']+)'/g);
-			if (!valuesMatch) {
-				this.errors.push(`Could not parse enum values in ${filename}`);
+		if (!valuesNode || !ts.isArrayLiteralExpression(valuesNode)) {
+			this.reportError(sourceFile, initializer, "Could not parse enum values: expected an array of strings");
+			return null;
+		}
+
+		const name = declaration.name.getText(sourceFile);
+		const values: string[] = [];
+		for (const element of valuesNode.elements) {
+			const value = literalValue(element);
+			if (typeof value !== "string") {
+				this.reportError(sourceFile, element, "Could not parse enum value: expected a string literal");
 				return null;
 			}
+			// Convert PascalCase back to original format; other spellings cannot be written back
+			const jsonValue = fromPascalCase(value);
+			if (PascalCase(jsonValue) !== value) {
+				this.warnings.push(`Enum '${name}' value '${value}' will be generated as '${PascalCase(jsonValue)}'`);
+			}
+			values.push(jsonValue);
+		}
 
-			// Convert PascalCase back to original format
-			const values = valuesMatch.map((v) => {
-				const cleaned = v.replace(/'/g, "");
-				// Convert PascalCase to snake_case
-				return cleaned.replace(/([A-Z])/g, (match, p1, offset) => {
-					return (offset > 0 ? "_" : "") + p1.toLowerCase();
-				});
-			});
+		const enumDef: EnumDefinition = { name, values };
 
-			return { name, values };
-		} catch (error) {
-			this.errors.push(`Error parsing enum content in ${filename}: ${error}`);
-			return null;
+		// Keep the type name of native enums when it is not the one the generator derives
+		const dbName = ts.isCallExpression(initializer) && initializer.arguments[0] && literalValue(initializer.arguments[0]);
+		if (typeof dbName === "string" && dbName !== SnakeCase(name)) {
+			enumDef.dbName = dbName;
 		}
+
+		return enumDef;
 	}
 
 	/**
@@ -231,7 +410,7 @@ export class SchemaReader {
 		for (const file of helperFiles) {
 			try {
 				const content = await fs.readFile(join(this.projectPath, "helpers", file), "utf-8");
-				const helperDef = this.parseHelperContent(content, file);
+				const helperDef = this.parseHelperContent(content, join("helpers", file));
 				if (helperDef) {
 					helpers.push(helperDef);
 				}
@@ -247,54 +426,33 @@ export class SchemaReader {
 	 * Parse helper file content
 	 */
 	private parseHelperContent(content: string, filename: string): HelperDefinition | null {
-		try {
-			// Match: export const HelperName = { ... };
-			const helperMatch = content.match(/export const (\w+) = \{([\s\S]*?)\};/);
+		const sourceFile = this.parseSourceFile(content, filename);
+		if (!sourceFile) return null;
 
-			if (!helperMatch) {
-				this.errors.push(`Could not parse helper in ${filename}`);
-				return null;
-			}
-
-			const name = helperMatch[1];
-			const bodyContent = helperMatch[2];
+		// export const HelperName = { ... };
+		const declaration = findExportedConst(sourceFile, (initializer) => ts.isObjectLiteralExpression(unwrapExpression(initializer)));
 
-			// Parse individual columns
-			const columns = this.parseHelperColumns(bodyContent, filename);
-
-			return { name, columns };
-		} catch (error) {
-			this.errors.push(`Error parsing helper content in ${filename}: ${error}`);
+		if (!declaration) {
+			this.reportError(sourceFile, undefined, "Could not parse helper: expected an exported object of columns");
 			return null;
 		}
+
+		return this.parseHelperDeclaration(declaration, sourceFile);
 	}
 
 	/**
-	 * Parse helper columns from body content
+	 * Parse a helper declaration back to HelperDefinition
 	 */
-	private parseHelperColumns(bodyContent: string, filename: string): any[] {
-		const columns: any[] = [];
-
-		// Match column definitions like: columnName: type('name').constraint()
-		const columnMatches = bodyContent.match(/(\w+):\s*([^,\n}]+)/g);
+	private parseHelperDeclaration(declaration: ts.VariableDeclaration, sourceFile: ts.SourceFile): HelperDefinition | null {
+		const body = unwrapExpression(declaration.initializer!) as ts.ObjectLiteralExpression;
+		const { columns } = this.parseTableBody(body, sourceFile);
 
-		if (!columnMatches) {
-			this.errors.push(`Could not parse helper columns in ${filename}`);
-			return [];
-		}
-
-		for (const columnMatch of columnMatches) {
-			try {
-				const column = this.parseColumnDefinition(columnMatch, filename);
-				if (column) {
-					columns.push(column);
-				}
-			} catch (error) {
-				this.errors.push(`Error parsing column in ${filename}: ${error}`);
-			}
+		if (columns.length === 0) {
+			this.reportError(sourceFile, body, "Could not parse helper columns");
+			return null;
 		}
 
-		return columns;
+		return { name: declaration.name.getText(sourceFile), columns };
 	}
 
 	/**
@@ -306,7 +464,7 @@ export class SchemaReader {
 		for (const file of tableFiles) {
 			try {
 				const content = await fs.readFile(join(this.projectPath, "tables", file), "utf-8");
-				const tableDef = this.parseTableContent(content, file);
+				const tableDef = this.parseTableContent(content, join("tables", file));
 				if (tableDef) {
 					tables.push(tableDef);
 				}
@@ -322,78 +480,112 @@ export class SchemaReader {
 	 * Parse table file content
 	 */
 	private parseTableContent(content: string, filename: string): TableDefinition | null {
-		try {
-			// Match: export const tableName = pgTable('table_name', { ... });
-			const tableMatch = content.match(/export const (\w+) = pgTable\('([^']+)', \{([\s\S]*?)\}(?:, \([^)]+\) => \(\{[\s\S]*?\}\))?\);/);
+		const sourceFile = this.parseSourceFile(content, filename);
+		if (!sourceFile) return null;
 
-			if (!tableMatch) {
-				this.errors.push(`Could not parse table in ${filename}`);
-				return null;
-			}
+		// export const tableName = pgTable('table_name', { ... }, (table) => ({ ... }));
+		const declaration = findExportedConst(sourceFile, (initializer) => this.classifyDeclaration(initializer) === "table");
 
-			const variableName = tableMatch[1];
-			const dbName = tableMatch[2];
-			const bodyContent = tableMatch[3];
+		if (!declaration) {
+			this.reportError(sourceFile, undefined, `Could not parse table: expected an exported ${this.dialect.tableFactory}() declaration`);
+			return null;
+		}
 
-			// Derive table name from filename (remove .ts extension)
-			const name = filename.replace(".ts", "");
+		// Derive table name from filename (remove directory and .ts extension)
+		return this.parseTableDeclaration(declaration, sourceFile, basename(filename, ".ts"));
+	}
 
-			// Parse columns and helper references
-			const { columns, helperReferences } = this.parseTableBody(bodyContent, filename);
+	/**
+	 * Parse a table declaration back to TableDefinition
+	 */
+	private parseTableDeclaration(declaration: ts.VariableDeclaration, sourceFile: ts.SourceFile, name: string): TableDefinition | null {
+		const call = unwrapExpression(declaration.initializer!) as ts.CallExpression;
+		const [nameArg, bodyArg, configArg] = call.arguments;
+		const dbName = nameArg && literalValue(nameArg);
+		const body = bodyArg && unwrapExpression(bodyArg);
+
+		if (typeof dbName !== "string") {
+			this.reportError(sourceFile, nameArg ?? call, "Could not parse table: expected the table name as a string literal");
+			return null;
+		}
 
-			// Check for composite primary key
-			const compositePrimaryKey = this.parseCompositePrimaryKey(content);
+		if (!body || !ts.isObjectLiteralExpression(body)) {
+			this.reportError(sourceFile, bodyArg ?? call, "Could not parse table: expected an object of columns");
+			return null;
+		}
 
-			const tableDef: TableDefinition = {
-				name,
-				columns,
-			};
+		// Parse columns and helper references
+		const { columns, helperReferences } = this.parseTableBody(body, sourceFile);
 
-			if (dbName !== name.toLowerCase()) {
-				tableDef.dbName = dbName;
-			}
+		const tableDef: TableDefinition = {
+			name,
+			columns,
+		};
 
-			if (helperReferences.length > 0) {
-				tableDef.helperReferences = helperReferences;
-			}
+		if (dbName !== name.toLowerCase()) {
+			tableDef.dbName = dbName;
+		}
 
-			if (compositePrimaryKey.length > 0) {
-				tableDef.compositePrimaryKey = compositePrimaryKey;
-			}
+		if (helperReferences.length > 0) {
+			tableDef.helperReferences = helperReferences;
+		}
 
-			return tableDef;
-		} catch (error) {
-			this.errors.push(`Error parsing table content in ${filename}: ${error}`);
-			return null;
+		// Composite primary key, secondary indexes and table constraints
+		if (configArg) {
+			this.parseTableConfig(configArg, sourceFile, tableDef);
+		}
+
+		return tableDef;
+	}
+
+	/**
+	 * Classify an exported declaration by what its initializer builds
+	 */
+	private classifyDeclaration(initializer: ts.Expression): "enum" | "helper" | "table" | undefined {
+		const expression = unwrapExpression(initializer);
+
+		if (ts.isCallExpression(expression) && ts.isIdentifier(expression.expression)) {
+			const callee = expression.expression.text;
+			if (callee === this.dialect.tableFactory) return "table";
+			if (callee === this.dialect.enumFactory && this.dialect.enumStrategy === "native") return "enum";
+			return undefined;
 		}
+
+		// Non-native dialects export enums as a tuple of string literals
+		if (ts.isArrayLiteralExpression(expression)) {
+			const isTuple = this.dialect.enumStrategy !== "native" || initializer !== expression;
+			return isTuple && expression.elements.length > 0 && expression.elements.every((e) => typeof literalValue(e) === "string") ? "enum" : undefined;
+		}
+
+		// Helpers are objects made of column builder calls and helper spreads
+		if (ts.isObjectLiteralExpression(expression) && expression.properties.length > 0) {
+			const isColumn = (property: ts.ObjectLiteralElementLike) =>
+				ts.isSpreadAssignment(property) || (ts.isPropertyAssignment(property) && unwindCallChain(property.initializer) !== undefined);
+			return expression.properties.some(ts.isPropertyAssignment) && expression.properties.every(isColumn) ? "helper" : undefined;
+		}
+
+		return undefined;
 	}
 
 	/**
 	 * Parse table body for columns and helper references
 	 */
-	private parseTableBody(bodyContent: string, filename: string): { columns: any[]; helperReferences: string[] } {
-		const columns: any[] = [];
+	private parseTableBody(body: ts.ObjectLiteralExpression, sourceFile: ts.SourceFile): { columns: ColumnDefinition[]; helperReferences: string[] } {
+		const columns: ColumnDefinition[] = [];
 		const helperReferences: string[] = [];
 
-		// Split by lines and process each
-		const lines = bodyContent
-			.split("\n")
-			.map((line) => line.trim())
-			.filter((line) => line);
-
-		for (const line of lines) {
-			if (line.startsWith("...")) {
+		for (const property of body.properties) {
+			if (ts.isSpreadAssignment(property) && ts.isIdentifier(property.expression)) {
 				// Helper reference: ...HelperName
-				const helperMatch = line.match(/\.\.\.(\w+)/);
-				if (helperMatch) {
-					helperReferences.push(helperMatch[1]);
-				}
-			} else if (line.includes(":")) {
+				helperReferences.push(property.expression.text);
+			} else if (ts.isPropertyAssignment(property)) {
 				// Column definition
-				const column = this.parseColumnDefinition(line, filename);
+				const column = this.parseColumnDefinition(property, sourceFile);
 				if (column) {
 					columns.push(column);
 				}
+			} else {
+				this.reportError(sourceFile, property, "Could not parse column: expected 'name: builder(...)' or a helper spread");
 			}
 		}
 
@@ -401,149 +593,351 @@ export class SchemaReader {
 	}
 
 	/**
-	 * Parse column definition from line
+	 * Parse a column property such as `email: varchar('email', { length: 255 }).notNull()`
 	 */
-	private parseColumnDefinition(line: string, filename: string): any | null {
-		try {
-			// Remove trailing comma
-			const cleanLine = line.replace(/,$/, "");
+	private parseColumnDefinition(property: ts.PropertyAssignment, sourceFile: ts.SourceFile): ColumnDefinition | null {
+		const name = propertyName(property.name);
+		const chain = unwindCallChain(property.initializer);
+
+		if (!name || !chain) {
+			this.reportError(sourceFile, property, `Could not parse column '${property.name.getText(sourceFile)}': expected a column builder call`);
+			return null;
+		}
+
+		// Basic column structure, keeping the database name when it differs from the property
+		const column: ColumnDefinition = { name };
+		const dbName = chain[0].args[0] && literalValue(chain[0].args[0]);
+		if (typeof dbName === "string" && dbName !== name) {
+			column.dbName = dbName;
+		}
+
+		// Determine type and parse options
+		const typeResult = this.parseColumnType(chain, sourceFile);
+		if (typeResult.type) {
+			column.type = typeResult.type;
+		}
+		if (Object.keys(typeResult.options).length > 0) {
+			column.options = typeResult.options;
+		}
 
-			// Match: columnName: type('name').constraints()
-			const columnMatch = cleanLine.match(/(\w+):\s*(.+)/);
-			if (!columnMatch) return null;
+		return column;
+	}
+
+	/**
+	 * Parse column type and options from a builder call chain
+	 */
+	private parseColumnType(chain: BuilderCall[], sourceFile: ts.SourceFile): { type?: string; options: ColumnOptions } {
+		const options: ColumnOptions = {};
+		const dialect = this.dialect;
+		const [builder, ...modifiers] = chain;
 
-			const name = columnMatch[1];
-			const definition = columnMatch[2];
+		// Builder config, e.g. { length: 255 }; the column name argument may be omitted
+		const configArg = builder.args.find((arg) => ts.isObjectLiteralExpression(unwrapExpression(arg)));
+		const config = configArg ? objectProperties(unwrapExpression(configArg) as ts.ObjectLiteralExpression) : new Map<string, ts.Expression>();
 
-			// Basic column structure
-			const column: any = { name };
+		const enumValues = this.parseEnumReference(builder, config, sourceFile);
+		const primaryKey = modifiers.find((call) => call.name === "primaryKey");
+		const primaryKeyConfig = primaryKey?.args[0] && unwrapExpression(primaryKey.args[0]);
+		const autoIncrement =
+			!!primaryKeyConfig && ts.isObjectLiteralExpression(primaryKeyConfig) && literalValue(objectProperties(primaryKeyConfig).get("autoIncrement")) === true;
 
-			// Determine type and parse options
-			const typeResult = this.parseColumnType(definition);
-			if (typeResult.type) {
-				column.type = typeResult.type;
+		let type: string | undefined;
+		if (enumValues) {
+			options.enumValues = enumValues;
+		} else {
+			// Parse regular types
+			const mode = builder.dataType ?? literalValue(config.get("mode"));
+			type = resolveColumnType(dialect, builder.name, typeof mode === "string" ? mode : undefined, autoIncrement, config.has("length"));
+			if (!type) {
+				const name = builder.dataType ? `${builder.name}('${builder.dataType}')` : builder.name;
+				this.reportError(sourceFile, builder.node, `Unsupported column builder '${name}' for dialect '${dialect.name}'`);
 			}
-			if (Object.keys(typeResult.options).length > 0) {
-				column.options = typeResult.options;
+
+			// Parse length option, skipping lengths the dialect fills in by itself
+			const length = literalValue(config.get("length"));
+			if (typeof length === "number" && (!type || length !== dialect.types[type]?.defaultLength)) {
+				options.length = length;
 			}
 
-			return column;
-		} catch (error) {
-			this.errors.push(`Error parsing column definition "${line}" in ${filename}: ${error}`);
-			return null;
+			// Type-specific options such as precision and scale
+			for (const key of (type && dialect.types[type]?.configOptions) || []) {
+				const value = literalValue(config.get(key));
+				if (value !== undefined) {
+					Object.assign(options, { [key]: value });
+				}
+			}
+		}
+
+		for (const modifier of modifiers) {
+			switch (modifier.name) {
+				case "primaryKey":
+					options.primaryKey = true;
+					break;
+				case "array":
+					// Each .array() adds a dimension
+					options.array = options.array ? arrayDimensions(options) + 1 : true;
+					break;
+				case "notNull":
+					options.notNull = true;
+					break;
+				case "unique":
+					options.unique = true;
+					break;
+				case "defaultNow":
+					options.default = "sql.now()";
+					break;
+				case "default": {
+					const value = modifier.args[0] && this.parseDefaultValue(modifier.args[0], sourceFile);
+					if (value !== undefined) {
+						// Enum defaults are written with the PascalCase value
+						options.default = enumValues && typeof value === "string" ? fromPascalCase(value) : value;
+					}
+					break;
+				}
+				case "references": {
+					const references = this.parseReferences(modifier, sourceFile);
+					if (references) {
+						options.references = references;
+					}
+					break;
+				}
+			}
 		}
+
+		return { type, options };
 	}
 
 	/**
-	 * Parse column type and options from definition
+	 * Parse the argument of `.default()` back to its JSON form
 	 */
-	private parseColumnType(definition: string): { type?: string; options: any } {
-		const options: any = {};
-
-		// Map Drizzle functions back to our types
-		const typeMap: { [key: string]: string } = {
-			serial: "serial",
-			varchar: "string",
-			text: "text",
-			integer: "number",
-			bigint: "bigint",
-			boolean: "boolean",
-			timestamp: "date",
-			jsonb: "json",
-			uuid: "uuid",
+	private parseDefaultValue(node: ts.Expression, sourceFile: ts.SourceFile): string | number | boolean | undefined {
+		const expression = unwrapExpression(node);
+
+		const sqlExpression = sqlTemplateText(expression, sourceFile);
+		if (sqlExpression !== undefined) {
+			const functionMatch = sqlExpression.match(/^(\w+)\(\)$/);
+			if (sqlExpression === this.dialect.nowExpression) {
+				return "sql.now()";
+			}
+			if (functionMatch) {
+				return `sql.${functionMatch[1]}()`;
+			}
+			return `sql\`${sqlExpression}\``;
+		}
+
+		const value = literalValue(expression);
+		if (value !== undefined) {
+			return value;
+		}
+
+		this.reportError(sourceFile, expression, "Could not parse default value: expected a literal or sql`...` expression");
+		return undefined;
+	}
+
+	/**
+	 * Parse `.references(() => users.id, { onDelete: 'cascade' })`
+	 */
+	private parseReferences(call: BuilderCall, sourceFile: ts.SourceFile): ReferenceDefinition | undefined {
+		const [target, actions] = call.args;
+		const body = target && ts.isArrowFunction(target) ? unwrapExpression(returnedExpression(target) ?? target) : undefined;
+
+		if (!body || !ts.isPropertyAccessExpression(body) || !ts.isIdentifier(body.expression)) {
+			this.reportError(sourceFile, target ?? call.node, "Could not parse references: expected '() => table.column'");
+			return undefined;
+		}
+
+		const references: ReferenceDefinition = {
+			table: body.expression.text,
+			column: body.name.text,
 		};
 
-		// Check for enum type (doesn't start with known function)
-		const enumMatch = definition.match(/^(\w+)\(/);
-		if (enumMatch && !typeMap[enumMatch[1]]) {
-			options.enumValues = enumMatch[1];
+		// Referential actions: { onDelete: 'cascade', onUpdate: 'no action' }
+		const actionConfig = actions && unwrapExpression(actions);
+		if (actionConfig && ts.isObjectLiteralExpression(actionConfig)) {
+			const properties = objectProperties(actionConfig);
+			const onDelete = literalValue(properties.get("onDelete"));
+			const onUpdate = literalValue(properties.get("onUpdate"));
+			if (typeof onDelete === "string") {
+				references.onDelete = onDelete as ReferenceDefinition["onDelete"];
+			}
+			if (typeof onUpdate === "string") {
+				references.onUpdate = onUpdate as ReferenceDefinition["onUpdate"];
+			}
+		}
 
-			// Parse enum-specific options
-			if (definition.includes(".default(")) {
-				const defaultMatch = definition.match(/\.default\('([^']+)'\)/);
-				if (defaultMatch) {
-					options.default = defaultMatch[1].toLowerCase();
-				}
+		return references;
+	}
+
+	/**
+	 * Get the enum a column builder call refers to, following the dialect's enum strategy
+	 */
+	private parseEnumReference(builder: BuilderCall, config: Map<string, ts.Expression>, sourceFile: ts.SourceFile): string | undefined {
+		switch (this.dialect.enumStrategy) {
+			case "native": {
+				// Native enums are called directly: UserStatus('status'). Unknown builders of the core
+				// module and undeclared names are no enums; they are reported as unsupported builders.
+				const isBuilder = getParseRules(this.dialect).some((rule) => rule.func === builder.name);
+				const source = importSource(sourceFile, builder.name);
+				const isEnum = source !== undefined ? source !== this.dialect.importPath : declaresVariable(sourceFile, builder.name);
+				return !isBuilder && isEnum ? builder.name : undefined;
+			}
+			case "argument": {
+				// mysqlEnum('status', UserStatus)
+				const values = builder.args[1] && unwrapExpression(builder.args[1]);
+				return builder.name === this.dialect.enumFactory && values && ts.isIdentifier(values) ? values.text : undefined;
 			}
-			if (definition.includes(".notNull()")) {
-				options.notNull = true;
+			case "config": {
+				// text('status', { enum: UserStatus })
+				const values = config.get("enum");
+				return builder.name === this.dialect.enumFactory && values && ts.isIdentifier(values) ? values.text : undefined;
 			}
+		}
+	}
 
-			return { options };
+	/**
+	 * Parse the table's extra-config callback: composite primary key, indexes, unique and check constraints
+	 */
+	private parseTableConfig(node: ts.Expression, sourceFile: ts.SourceFile, tableDef: TableDefinition): void {
+		const callback = unwrapExpression(node);
+		const returned = ts.isArrowFunction(callback) || ts.isFunctionExpression(callback) ? returnedExpression(callback) : undefined;
+		const body = returned && unwrapExpression(returned);
+
+		// Entries are returned either as an object (`(t) => ({ ... })`) or as an array (`(t) => [...]`)
+		let entries: ts.Expression[];
+		if (body && ts.isObjectLiteralExpression(body)) {
+			entries = body.properties.filter(ts.isPropertyAssignment).map((property) => property.initializer);
+		} else if (body && ts.isArrayLiteralExpression(body)) {
+			entries = [...body.elements];
+		} else {
+			this.reportError(sourceFile, callback, "Could not parse table config: expected a callback returning an object or array");
+			return;
 		}
 
-		// Parse regular types
-		let type: string | undefined;
-		for (const [drizzleType, ourType] of Object.entries(typeMap)) {
-			if (definition.startsWith(drizzleType + "(")) {
-				type = ourType;
-				break;
+		for (const entry of entries) {
+			const chain = unwindCallChain(entry);
+			if (!chain) {
+				this.reportError(sourceFile, entry, "Could not parse table config entry: expected a constraint builder call");
+				continue;
 			}
-		}
 
-		// Parse length option for varchar
-		if (definition.includes("{ length:")) {
-			const lengthMatch = definition.match(/\{ length: (\d+) \}/);
-			if (lengthMatch) {
-				options.length = parseInt(lengthMatch[1]);
+			const [builder, ...modifiers] = chain;
+			switch (builder.name) {
+				case "primaryKey": {
+					// primaryKey({ columns: [table.a, table.b] })
+					const config = builder.args[0] && unwrapExpression(builder.args[0]);
+					const columns = config && ts.isObjectLiteralExpression(config) ? objectProperties(config).get("columns") : undefined;
+					const list = columns && unwrapExpression(columns);
+					tableDef.compositePrimaryKey = columnNames(list && ts.isArrayLiteralExpression(list) ? list.elements : builder.args);
+					break;
+				}
+				case "index":
+				case "uniqueIndex": {
+					const indexDef = this.parseIndex(builder, modifiers, sourceFile);
+					if (indexDef) {
+						(tableDef.indexes ??= []).push(indexDef);
+					}
+					break;
+				}
+				case "unique": {
+					// unique('users_email_unique').on(users.email, users.tenantId)
+					const name = literalValue(builder.args[0]);
+					const on = modifiers.find((call) => call.name === "on");
+					if (typeof name !== "string" || !on) {
+						this.reportError(sourceFile, entry, "Could not parse unique constraint: expected unique('name').on(...)");
+						break;
+					}
+					(tableDef.uniqueConstraints ??= []).push({ name, columns: columnNames(on.args) });
+					break;
+				}
+				case "check": {
+					// check('products_price_check', sql`price >= 0`)
+					const name = literalValue(builder.args[0]);
+					const expression = builder.args[1] && sqlExpressionText(unwrapExpression(builder.args[1]), sourceFile);
+					if (typeof name !== "string" || expression === undefined) {
+						this.reportError(sourceFile, entry, "Could not parse check constraint: expected check('name', sql`...`)");
+						break;
+					}
+					(tableDef.checks ??= []).push({ name, expression });
+					break;
+				}
+				default:
+					this.reportError(sourceFile, entry, `Unsupported table config entry '${builder.name}'`);
 			}
 		}
+	}
 
-		// Parse constraints
-		if (definition.includes(".primaryKey()")) {
-			options.primaryKey = true;
-		}
-		if (definition.includes(".notNull()")) {
-			options.notNull = true;
+	/**
+	 * Parse an index such as `uniqueIndex('users_email_idx').on(users.email).where(sql`...`)`
+	 */
+	private parseIndex(builder: BuilderCall, modifiers: BuilderCall[], sourceFile: ts.SourceFile): IndexDefinition | null {
+		const name = literalValue(builder.args[0]);
+		if (typeof name !== "string") {
+			this.reportError(sourceFile, builder.node, "Could not parse index: expected the index name as a string literal");
+			return null;
 		}
 
-		// Parse default values
-		if (definition.includes(".default(")) {
-			const defaultMatch = definition.match(/\.default\(([^)]+)\)/);
-			if (defaultMatch) {
-				const defaultValue = defaultMatch[1];
-				if (defaultValue === "true" || defaultValue === "false") {
-					options.default = defaultValue === "true";
-				} else if (defaultValue.match(/^\d+$/)) {
-					options.default = parseInt(defaultValue);
-				} else if (defaultValue.includes("sql`")) {
-					const sqlMatch = defaultValue.match(/sql`([^`]+)`/);
-					if (sqlMatch) {
-						options.default = `sql.${sqlMatch[1]}()`;
+		const indexDef: IndexDefinition = { name, columns: [] };
+
+		for (const modifier of modifiers) {
+			switch (modifier.name) {
+				case "on":
+					indexDef.columns = columnNames(modifier.args);
+					break;
+				case "using": {
+					// .using('gin', table.a) or a chained .using('btree') after .on()
+					const [method, ...columns] = modifier.args;
+					if (typeof literalValue(method) === "string") {
+						indexDef.method = literalValue(method) as string;
+					}
+					if (columns.length > 0) {
+						indexDef.columns = columnNames(columns);
 					}
-				} else {
-					options.default = defaultValue.replace(/'/g, "");
+					break;
+				}
+				case "where": {
+					const where = modifier.args[0] && sqlExpressionText(unwrapExpression(modifier.args[0]), sourceFile);
+					if (where !== undefined) {
+						indexDef.where = where;
+					}
+					break;
 				}
 			}
 		}
 
-		// Parse references
-		if (definition.includes(".references(")) {
-			const refMatch = definition.match(/\.references\(\(\) => (\w+)\.(\w+)\)/);
-			if (refMatch) {
-				options.references = {
-					table: refMatch[1],
-					column: refMatch[2],
-				};
-			}
+		if (builder.name === "uniqueIndex") {
+			indexDef.unique = true;
 		}
 
-		return { type, options };
+		return indexDef;
 	}
 
 	/**
-	 * Parse composite primary key from table content
+	 * Parse a file into a TypeScript AST, reporting syntax errors with their position.
+	 * Custom regions are blanked out first, so hand-written code never reads as schema.
 	 */
-	private parseCompositePrimaryKey(content: string): string[] {
-		const compositePKMatch = content.match(/primaryKey\(\{ columns: \[([^\]]+)\] \}\)/);
-		if (!compositePKMatch) return [];
+	private parseSourceFile(source: string, filename: string): ts.SourceFile | null {
+		const { content, error } = blankCustomRegions(source);
+		if (error) {
+			this.errors.push(`${filename} - ${error}`);
+			return null;
+		}
 
-		const columnsString = compositePKMatch[1];
-		const columnMatches = columnsString.match(/\w+\.(\w+)/g);
+		const { diagnostics = [] } = ts.transpileModule(content, { fileName: filename, reportDiagnostics: true });
 
-		if (!columnMatches) return [];
+		for (const diagnostic of diagnostics) {
+			const position = diagnostic.file && diagnostic.start !== undefined ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start) : { line: 0, character: 0 };
+			this.errors.push(`${filename}:${position.line + 1}:${position.character + 1} - ${ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")}`);
+		}
 
-		return columnMatches.map((match) => match.split(".")[1]);
+		return diagnostics.length === 0 ? ts.createSourceFile(filename, content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS) : null;
+	}
+
+	/**
+	 * Record an error at the position of a node, or at the start of the file
+	 */
+	private reportError(sourceFile: ts.SourceFile, node: ts.Node | undefined, message: string): void {
+		const { line, character } = sourceFile.getLineAndCharacterOfPosition(node ? node.getStart(sourceFile) : 0);
+		this.errors.push(`${sourceFile.fileName}:${line + 1}:${character + 1} - ${message}`);
 	}
 
 	/**
@@ -578,3 +972,218 @@ export async function readSchema(projectPath: string): Promise<SchemaReaderResul
 	const reader = new SchemaReader(projectPath);
 	return await reader.readSchema();
 }
+
+/**
+ * Convenience function to read a schema from hand-written files or glob patterns
+ */
+export async function readSchemaFiles(patterns: string[], cwd: string = process.cwd(), dialect?: DatabaseDialect): Promise<SchemaReaderResult> {
+	const reader = new SchemaReader(cwd, dialect);
+	return await reader.readFiles(patterns);
+}
+
+/**
+ * A call in a builder chain such as `varchar('email').notNull()`, innermost first
+ */
+interface BuilderCall {
+	name: string;
+	args: readonly ts.Expression[];
+	node: ts.CallExpression;
+	/** SQL data type of an inline `customType({ dataType: () => 'bytea' })` builder */
+	dataType?: string;
+}
+
+/**
+ * Find the first exported `const` whose initializer matches a predicate
+ */
+function findExportedConst(sourceFile: ts.SourceFile, matches: (initializer: ts.Expression) => boolean): ts.VariableDeclaration | undefined {
+	return exportedConsts(sourceFile).find((declaration) => matches(declaration.initializer!));
+}
+
+/**
+ * Get the exported variable declarations of a file that have an initializer
+ */
+function exportedConsts(sourceFile: ts.SourceFile): ts.VariableDeclaration[] {
+	return sourceFile.statements
+		.filter(ts.isVariableStatement)
+		.filter((statement) => statement.modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword))
+		.flatMap((statement) => statement.declarationList.declarations.filter((d) => d.initializer !== undefined));
+}
+
+/**
+ * Module a name is imported from with a named import, if any
+ */
+function importSource(sourceFile: ts.SourceFile, name: string): string | undefined {
+	for (const statement of sourceFile.statements.filter(ts.isImportDeclaration)) {
+		const bindings = statement.importClause?.namedBindings;
+		if (bindings && ts.isNamedImports(bindings) && bindings.elements.some((element) => element.name.text === name)) {
+			return ts.isStringLiteral(statement.moduleSpecifier) ? statement.moduleSpecifier.text : undefined;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Whether a file declares a top-level variable of the given name
+ */
+function declaresVariable(sourceFile: ts.SourceFile, name: string): boolean {
+	return sourceFile.statements
+		.filter(ts.isVariableStatement)
+		.some((statement) => statement.declarationList.declarations.some((d) => ts.isIdentifier(d.name) && d.name.text === name));
+}
+
+/**
+ * Strip parentheses and type assertions (`as const`, `satisfies`, `!`) around an expression
+ */
+function unwrapExpression(node: ts.Expression): ts.Expression {
+	while (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isNonNullExpression(node)) {
+		node = node.expression;
+	}
+	return node;
+}
+
+/**
+ * Flatten `builder(...).method(...).method(...)` into its calls, innermost first
+ */
+function unwindCallChain(node: ts.Expression): BuilderCall[] | undefined {
+	const calls: BuilderCall[] = [];
+	let current = unwrapExpression(node);
+
+	while (ts.isCallExpression(current)) {
+		const callee = unwrapExpression(current.expression);
+		if (ts.isIdentifier(callee)) {
+			calls.push({ name: callee.text, args: current.arguments, node: current });
+			return calls.reverse();
+		}
+		// Inline custom types: customType<{ data: Buffer }>({ dataType: () => 'bytea' })('file')
+		if (ts.isCallExpression(callee) && ts.isIdentifier(callee.expression)) {
+			calls.push({ name: callee.expression.text, args: current.arguments, node: current, dataType: customDataType(callee) });
+			return calls.reverse();
+		}
+		if (!ts.isPropertyAccessExpression(callee)) {
+			return undefined;
+		}
+		calls.push({ name: callee.name.text, args: current.arguments, node: current });
+		current = unwrapExpression(callee.expression);
+	}
+
+	return undefined;
+}
+
+/**
+ * Get the SQL data type a `customType({ dataType() { ... } })` call declares
+ */
+function customDataType(call: ts.CallExpression): string | undefined {
+	const config = call.arguments[0] && unwrapExpression(call.arguments[0]);
+	if (!config || !ts.isObjectLiteralExpression(config)) {
+		return undefined;
+	}
+
+	const declaration = config.properties.find((property) => property.name && propertyName(property.name) === "dataType");
+	let fn: ts.ArrowFunction | ts.FunctionExpression | ts.MethodDeclaration | undefined;
+	if (declaration && ts.isMethodDeclaration(declaration)) {
+		fn = declaration;
+	} else if (declaration && ts.isPropertyAssignment(declaration) && (ts.isArrowFunction(declaration.initializer) || ts.isFunctionExpression(declaration.initializer))) {
+		fn = declaration.initializer;
+	}
+
+	const value = fn && literalValue(returnedExpression(fn));
+	return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Get the expression a function returns, for both expression and block bodies
+ */
+function returnedExpression(fn: ts.ArrowFunction | ts.FunctionExpression | ts.MethodDeclaration): ts.Expression | undefined {
+	if (!fn.body) {
+		return undefined;
+	}
+	if (!ts.isBlock(fn.body)) {
+		return fn.body;
+	}
+
+	const statement = fn.body.statements.find(ts.isReturnStatement);
+	return statement?.expression;
+}
+
+/**
+ * Get the text of an identifier or string literal property name
+ */
+function propertyName(name: ts.PropertyName): string | undefined {
+	return ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) ? name.text : undefined;
+}
+
+/**
+ * Map the property assignments of an object literal by name
+ */
+function objectProperties(node: ts.ObjectLiteralExpression): Map<string, ts.Expression> {
+	const properties = new Map<string, ts.Expression>();
+
+	for (const property of node.properties) {
+		const name = property.name && propertyName(property.name);
+		if (name !== undefined && ts.isPropertyAssignment(property)) {
+			properties.set(name, property.initializer);
+		} else if (name !== undefined && ts.isShorthandPropertyAssignment(property)) {
+			properties.set(name, property.name);
+		}
+	}
+
+	return properties;
+}
+
+/**
+ * Evaluate a string, number or boolean literal
+ */
+function literalValue(node: ts.Expression | undefined): string | number | boolean | undefined {
+	if (!node) return undefined;
+	const expression = unwrapExpression(node);
+
+	if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) {
+		return expression.text;
+	}
+	if (ts.isNumericLiteral(expression)) {
+		return Number(expression.text);
+	}
+	if (ts.isPrefixUnaryExpression(expression) && expression.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(expression.operand)) {
+		return -Number(expression.operand.text);
+	}
+	if (expression.kind === ts.SyntaxKind.TrueKeyword || expression.kind === ts.SyntaxKind.FalseKeyword) {
+		return expression.kind === ts.SyntaxKind.TrueKeyword;
+	}
+
+	return undefined;
+}
+
+/**
+ * Get the raw SQL of a sql`...` tagged template
+ */
+function sqlTemplateText(node: ts.Expression, sourceFile: ts.SourceFile): string | undefined {
+	if (!ts.isTaggedTemplateExpression(node) || !ts.isIdentifier(node.tag) || node.tag.text !== "sql") {
+		return undefined;
+	}
+
+	return node.template.getText(sourceFile).slice(1, -1);
+}
+
+/**
+ * Get the SQL expression of a sql`...` tagged template as the database receives it, with its escapes
+ * resolved; templates with substitutions are kept as written
+ */
+function sqlExpressionText(node: ts.Expression, sourceFile: ts.SourceFile): string | undefined {
+	const text = sqlTemplateText(node, sourceFile);
+	const template = text !== undefined && (node as ts.TaggedTemplateExpression).template;
+	return template && ts.isNoSubstitutionTemplateLiteral(template) ? template.text : text;
+}
+
+/**
+ * Get the column names of `table.column` references
+ */
+function columnNames(nodes: readonly ts.Expression[]): string[] {
+	return nodes.map(unwrapExpression).flatMap((node) => (ts.isPropertyAccessExpression(node) ? [node.name.text] : []));
+}
+
+/**
+ * Convert a PascalCase enum value back to its snake_case source form
+ */
+function fromPascalCase(value: string): string {
+	return value.replace(/([A-Z])/g, (match, p1, offset) => (offset > 0 ? "_" : "") + p1.toLowerCase());
+}
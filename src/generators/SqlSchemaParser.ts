@@ -0,0 +1,598 @@
+import { SqlColumnSnapshot, SqlConstraintSnapshot, SqlIndexSnapshot, SqlSchemaSnapshot, SqlTableSnapshot } from "../definitions/index.js";
+
+/**
+ * A lexical token of a SQL script
+ */
+interface SqlToken {
+	kind: "word" | "identifier" | "string" | "number" | "symbol";
+	/** Words as written, identifiers and strings without their quotes */
+	value: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * Parses PostgreSQL DDL, such as `pg_dump --schema-only` output or hand-written `CREATE TABLE`
+ * scripts, into a SqlSchemaSnapshot. Statements that do not describe enums, tables, constraints
+ * or indexes are skipped, and schema qualifiers are dropped from names. Unnamed constraints get
+ * the names PostgreSQL would give them, e.g. "users_pkey" or "users_email_key".
+ */
+export class SqlSchemaParser {
+	private errors: string[] = [];
+	private snapshot: SqlSchemaSnapshot = { enums: [], tables: [] };
+
+	/**
+	 * Parse a SQL script. Errors are reported per statement with their line number.
+	 */
+	parse(sql: string): { snapshot: SqlSchemaSnapshot; errors: string[] } {
+		this.errors = [];
+		this.snapshot = { enums: [], tables: [] };
+
+		for (const statement of new TokenStream(sql, tokenize(sql)).split(";")) {
+			if (statement.done) continue;
+
+			try {
+				this.parseStatement(statement);
+			} catch (error) {
+				this.errors.push(error instanceof Error ? error.message : String(error));
+			}
+		}
+
+		return { snapshot: this.snapshot, errors: this.errors };
+	}
+
+	/**
+	 * Parse a constraint definition as returned by `pg_get_constraintdef`, e.g. "FOREIGN KEY (user_id) REFERENCES users(id)"
+	 */
+	parseConstraint(name: string, definition: string): SqlConstraintSnapshot {
+		return this.parseConstraintBody(name, new TokenStream(definition, tokenize(definition)));
+	}
+
+	/**
+	 * Parse an index definition as returned by `pg_get_indexdef`, e.g. "CREATE INDEX users_email_idx ON public.users USING btree (email)"
+	 */
+	parseIndex(definition: string): { table: string; index: SqlIndexSnapshot } {
+		const stream = new TokenStream(definition, tokenize(definition));
+		stream.expectKeyword("CREATE");
+		return this.parseCreateIndex(stream);
+	}
+
+	/**
+	 * Dispatch a statement to its parser
+	 */
+	private parseStatement(stream: TokenStream): void {
+		if (stream.acceptKeyword("CREATE")) {
+			stream.acceptKeyword("OR", "REPLACE");
+
+			if (stream.acceptKeyword("TYPE")) {
+				this.parseCreateType(stream);
+			} else if (stream.acceptKeyword("TABLE") || stream.acceptKeyword("UNLOGGED", "TABLE")) {
+				this.parseCreateTable(stream);
+			} else if (stream.isKeyword("INDEX") || stream.isKeyword("UNIQUE", "INDEX")) {
+				const { table, index } = this.parseCreateIndex(stream);
+				this.requireTable(table, stream).indexes.push(index);
+			}
+		} else if (stream.acceptKeyword("ALTER", "TABLE")) {
+			this.parseAlterTable(stream);
+		}
+		// Other statements (SET, sequences, ownership, comments, functions) do not affect the definitions
+	}
+
+	/**
+	 * CREATE TYPE name AS ENUM ('a', 'b')
+	 */
+	private parseCreateType(stream: TokenStream): void {
+		const name = stream.readName();
+		if (!stream.acceptKeyword("AS", "ENUM")) {
+			// Composite and range types are not represented in the definitions
+			return;
+		}
+
+		const values = stream.readGroup().split(",").map((value) => value.readString());
+		this.snapshot.enums.push({ name, values });
+	}
+
+	/**
+	 * CREATE TABLE [IF NOT EXISTS] name (columns and table constraints)
+	 */
+	private parseCreateTable(stream: TokenStream): void {
+		stream.acceptKeyword("IF", "NOT", "EXISTS");
+		const table: SqlTableSnapshot = { name: stream.readName(), columns: [], constraints: [], indexes: [] };
+
+		for (const element of stream.readGroup().split(",")) {
+			if (element.acceptKeyword("CONSTRAINT")) {
+				const name = element.readName();
+				table.constraints.push(this.parseConstraintBody(name, element));
+			} else if (element.isKeyword("PRIMARY", "KEY") || element.isKeyword("FOREIGN", "KEY") || element.isKeyword("UNIQUE") || element.isKeyword("CHECK")) {
+				const constraint = this.parseConstraintBody("", element);
+				constraint.name = defaultConstraintName(table, constraint.type, constraint.columns);
+				table.constraints.push(constraint);
+			} else {
+				table.columns.push(this.parseColumn(element, table));
+			}
+		}
+
+		this.snapshot.tables.push(table);
+	}
+
+	/**
+	 * Parse a column definition: name, type and column constraints. Keys, foreign keys and
+	 * checks declared on the column are added to the table constraints.
+	 */
+	private parseColumn(stream: TokenStream, table: SqlTableSnapshot): SqlColumnSnapshot {
+		const name = stream.readName();
+		const type = stream.readUntilKeyword(COLUMN_CONSTRAINT_KEYWORDS);
+		if (type.done) {
+			throw stream.error(`Missing type for column '${name}'`);
+		}
+
+		const column: SqlColumnSnapshot = { name, type: formatType(type), notNull: false };
+		let constraintName: string | undefined;
+
+		const addConstraint = (constraint: Omit<SqlConstraintSnapshot, "name">) => {
+			table.constraints.push({ name: constraintName ?? defaultConstraintName(table, constraint.type, [name]), ...constraint });
+		};
+
+		while (!stream.done) {
+			if (stream.acceptKeyword("CONSTRAINT")) {
+				// Names the constraint that follows, e.g. CONSTRAINT users_email_unique UNIQUE
+				constraintName = stream.readName();
+				continue;
+			}
+
+			if (stream.acceptKeyword("NOT", "NULL")) {
+				column.notNull = true;
+			} else if (stream.acceptKeyword("NULL")) {
+				column.notNull = false;
+			} else if (stream.acceptKeyword("DEFAULT", "NULL")) {
+				column.default = undefined;
+			} else if (stream.acceptKeyword("DEFAULT")) {
+				column.default = stream.readUntilKeyword(COLUMN_CONSTRAINT_KEYWORDS).text();
+			} else if (stream.acceptKeyword("COLLATE")) {
+				stream.readName();
+			} else if (stream.acceptKeyword("PRIMARY", "KEY")) {
+				addConstraint({ type: "primary_key", columns: [name] });
+			} else if (stream.acceptKeyword("UNIQUE")) {
+				stream.acceptKeyword("NULLS", "NOT", "DISTINCT") || stream.acceptKeyword("NULLS", "DISTINCT");
+				addConstraint({ type: "unique", columns: [name] });
+			} else if (stream.acceptKeyword("REFERENCES")) {
+				addConstraint({ type: "foreign_key", columns: [name], references: this.parseReferences(stream) });
+			} else if (stream.acceptKeyword("CHECK")) {
+				addConstraint({ type: "check", columns: [], expression: stream.readGroup().unwrapped().text() });
+			} else {
+				throw stream.error(`Unsupported constraint '${stream.peek()!.value}' on column '${name}'`);
+			}
+			constraintName = undefined;
+		}
+
+		return column;
+	}
+
+	/**
+	 * ALTER TABLE [ONLY] name ADD CONSTRAINT ..., ALTER COLUMN ... SET DEFAULT ...
+	 */
+	private parseAlterTable(stream: TokenStream): void {
+		stream.acceptKeyword("IF", "EXISTS");
+		stream.acceptKeyword("ONLY");
+		const table = this.requireTable(stream.readName(), stream);
+
+		for (const action of stream.split(",")) {
+			if (action.acceptKeyword("ADD", "CONSTRAINT")) {
+				const name = action.readName();
+				table.constraints.push(this.parseConstraintBody(name, action));
+			} else if (action.acceptKeyword("ALTER")) {
+				action.acceptKeyword("COLUMN");
+				const columnName = action.readName();
+				const column = table.columns.find((c) => c.name === columnName);
+				if (!column) {
+					throw action.error(`Column '${columnName}' is not defined in table '${table.name}'`);
+				}
+
+				if (action.acceptKeyword("SET", "DEFAULT")) {
+					column.default = action.text();
+				} else if (action.acceptKeyword("SET", "NOT", "NULL")) {
+					column.notNull = true;
+				} else if (action.acceptKeyword("DROP", "NOT", "NULL")) {
+					column.notNull = false;
+				} else if (action.acceptKeyword("DROP", "DEFAULT")) {
+					column.default = undefined;
+				}
+			}
+			// Ownership, storage and other table settings are not represented in the definitions
+		}
+	}
+
+	/**
+	 * CREATE [UNIQUE] INDEX [CONCURRENTLY] [IF NOT EXISTS] name ON [ONLY] table [USING method] (columns) [WHERE predicate]
+	 */
+	private parseCreateIndex(stream: TokenStream): { table: string; index: SqlIndexSnapshot } {
+		const unique = stream.acceptKeyword("UNIQUE");
+		stream.expectKeyword("INDEX");
+		stream.acceptKeyword("CONCURRENTLY");
+		stream.acceptKeyword("IF", "NOT", "EXISTS");
+
+		const name = stream.readName();
+		stream.expectKeyword("ON");
+		stream.acceptKeyword("ONLY");
+		const table = stream.readName();
+
+		const index: SqlIndexSnapshot = { name, columns: [], unique };
+		if (stream.acceptKeyword("USING")) {
+			index.method = stream.readName().toLowerCase();
+		}
+
+		for (const element of stream.readGroup().split(",")) {
+			const token = element.peek();
+			// Options after the column (opclass, ASC, NULLS LAST) do not matter, expressions are not supported
+			if (!token || (token.kind !== "word" && token.kind !== "identifier") || element.peek(1)?.value === "(") {
+				throw element.error(`Expression index '${name}' is not supported`);
+			}
+			index.columns.push(element.readName());
+		}
+
+		if (stream.acceptKeyword("INCLUDE")) {
+			stream.readGroup();
+		}
+		if (stream.acceptKeyword("WHERE")) {
+			index.where = stream.unwrapped().text();
+		}
+
+		return { table, index };
+	}
+
+	/**
+	 * Parse the body of a named constraint: PRIMARY KEY, UNIQUE, FOREIGN KEY or CHECK
+	 */
+	private parseConstraintBody(name: string, stream: TokenStream): SqlConstraintSnapshot {
+		if (stream.acceptKeyword("PRIMARY", "KEY")) {
+			return { name, type: "primary_key", columns: stream.readNameList() };
+		}
+
+		if (stream.acceptKeyword("UNIQUE")) {
+			stream.acceptKeyword("NULLS", "NOT", "DISTINCT") || stream.acceptKeyword("NULLS", "DISTINCT");
+			return { name, type: "unique", columns: stream.readNameList() };
+		}
+
+		if (stream.acceptKeyword("FOREIGN", "KEY")) {
+			const columns = stream.readNameList();
+			stream.expectKeyword("REFERENCES");
+			return { name, type: "foreign_key", columns, references: this.parseReferences(stream) };
+		}
+
+		if (stream.acceptKeyword("CHECK")) {
+			return { name, type: "check", columns: [], expression: stream.readGroup().unwrapped().text() };
+		}
+
+		throw stream.error(`Unsupported constraint '${name}'`);
+	}
+
+	/**
+	 * Parse the target and actions of a REFERENCES clause
+	 */
+	private parseReferences(stream: TokenStream): NonNullable<SqlConstraintSnapshot["references"]> {
+		const references: NonNullable<SqlConstraintSnapshot["references"]> = { table: stream.readName(), columns: [] };
+		if (stream.peek()?.value === "(") {
+			references.columns = stream.readNameList();
+		}
+
+		// Inline references end where the next column constraint starts
+		while (!stream.done && !stream.isKeyword("NOT", "NULL") && !COLUMN_CONSTRAINT_KEYWORDS.some((keyword) => keyword !== "NOT" && stream.isKeyword(keyword))) {
+			if (stream.acceptKeyword("ON", "DELETE")) {
+				references.onDelete = stream.readReferentialAction();
+			} else if (stream.acceptKeyword("ON", "UPDATE")) {
+				references.onUpdate = stream.readReferentialAction();
+			} else {
+				// MATCH FULL, DEFERRABLE, INITIALLY DEFERRED and NOT VALID do not change the structure
+				stream.next();
+			}
+		}
+
+		return references;
+	}
+
+	/**
+	 * Find a table created earlier in the script
+	 */
+	private requireTable(name: string, stream: TokenStream): SqlTableSnapshot {
+		const table = this.snapshot.tables.find((t) => t.name === name);
+		if (!table) {
+			throw stream.error(`Table '${name}' is not defined`);
+		}
+		return table;
+	}
+}
+
+/**
+ * Keywords that end a column type or default expression
+ */
+const COLUMN_CONSTRAINT_KEYWORDS = ["NOT", "NULL", "DEFAULT", "CONSTRAINT", "COLLATE", "PRIMARY", "UNIQUE", "REFERENCES", "CHECK", "GENERATED"];
+
+/**
+ * Name an unnamed constraint the way PostgreSQL does, adding a number when the name is taken
+ */
+function defaultConstraintName(table: SqlTableSnapshot, type: SqlConstraintSnapshot["type"], columns: string[]): string {
+	const suffixes = { primary_key: "pkey", unique: "key", foreign_key: "fkey", check: "check" };
+	const base = [table.name, ...(type === "primary_key" ? [] : columns), suffixes[type]].join("_");
+
+	let name = base;
+	for (let i = 1; table.constraints.some((c) => c.name === name); i++) {
+		name = `${base}${i}`;
+	}
+	return name;
+}
+
+/**
+ * A cursor over the tokens of a statement or of a part of it
+ */
+class TokenStream {
+	private position = 0;
+
+	constructor(
+		private source: string,
+		private tokens: SqlToken[]
+	) {}
+
+	get done(): boolean {
+		return this.position >= this.tokens.length;
+	}
+
+	peek(offset = 0): SqlToken | undefined {
+		return this.tokens[this.position + offset];
+	}
+
+	next(): SqlToken | undefined {
+		return this.tokens[this.position++];
+	}
+
+	/**
+	 * Check whether the next tokens are the given keywords, without consuming them
+	 */
+	isKeyword(...words: string[]): boolean {
+		return words.every((word, i) => {
+			const token = this.peek(i);
+			return token?.kind === "word" && token.value.toUpperCase() === word;
+		});
+	}
+
+	/**
+	 * Consume the given keywords if they come next
+	 */
+	acceptKeyword(...words: string[]): boolean {
+		if (!this.isKeyword(...words)) return false;
+		this.position += words.length;
+		return true;
+	}
+
+	expectKeyword(...words: string[]): void {
+		if (!this.acceptKeyword(...words)) {
+			throw this.error(`Expected ${words.join(" ")}`);
+		}
+	}
+
+	/**
+	 * Read a possibly schema-qualified name and return its last part
+	 */
+	readName(): string {
+		let token = this.next();
+		while (token && (token.kind === "word" || token.kind === "identifier")) {
+			if (this.peek()?.value !== ".") {
+				return token.value;
+			}
+			this.next();
+			token = this.next();
+		}
+		throw this.error("Expected a name", token);
+	}
+
+	/**
+	 * Read a parenthesized list of names, e.g. (tenant_id, email)
+	 */
+	readNameList(): string[] {
+		return this.readGroup()
+			.split(",")
+			.map((item) => item.readName());
+	}
+
+	readString(): string {
+		const token = this.next();
+		if (token?.kind !== "string") {
+			throw this.error("Expected a string literal", token);
+		}
+		return token.value;
+	}
+
+	/**
+	 * Read an action of ON DELETE / ON UPDATE, e.g. "cascade" or "set null"
+	 */
+	readReferentialAction(): string {
+		const words = [this.next()!.value];
+		if (["SET", "NO"].includes(words[0].toUpperCase())) {
+			words.push(this.next()!.value);
+		}
+		return words.join(" ").toLowerCase();
+	}
+
+	/**
+	 * Read a parenthesized group and return a stream over its content
+	 */
+	readGroup(): TokenStream {
+		if (this.peek()?.value !== "(") {
+			throw this.error("Expected '('");
+		}
+
+		const closing = matchingParenthesis(this.tokens, this.position);
+		if (closing === -1) {
+			throw this.error("Unbalanced parentheses");
+		}
+
+		const group = new TokenStream(this.source, this.tokens.slice(this.position + 1, closing));
+		this.position = closing + 1;
+		return group;
+	}
+
+	/**
+	 * Read tokens until one of the keywords appears outside parentheses
+	 */
+	readUntilKeyword(keywords: string[]): TokenStream {
+		const start = this.position;
+		let depth = 0;
+
+		while (!this.done) {
+			const token = this.peek()!;
+			if (depth === 0 && token.kind === "word" && keywords.includes(token.value.toUpperCase())) break;
+			if (token.kind === "symbol" && token.value === "(") depth++;
+			if (token.kind === "symbol" && token.value === ")") depth--;
+			this.position++;
+		}
+
+		return new TokenStream(this.source, this.tokens.slice(start, this.position));
+	}
+
+	/**
+	 * Split the remaining tokens on a symbol that appears outside parentheses
+	 */
+	split(separator: string): TokenStream[] {
+		const parts: TokenStream[] = [];
+		let start = this.position;
+		let depth = 0;
+
+		for (; this.position < this.tokens.length; this.position++) {
+			const token = this.tokens[this.position];
+			if (token.kind !== "symbol") continue;
+			if (token.value === "(") depth++;
+			if (token.value === ")") depth--;
+			if (token.value === separator && depth === 0) {
+				parts.push(new TokenStream(this.source, this.tokens.slice(start, this.position)));
+				start = this.position + 1;
+			}
+		}
+
+		parts.push(new TokenStream(this.source, this.tokens.slice(start)));
+		return parts;
+	}
+
+	/**
+	 * Get a stream over the remaining tokens without parentheses wrapping all of them
+	 */
+	unwrapped(): TokenStream {
+		let tokens = this.tokens.slice(this.position);
+
+		while (tokens.length >= 2 && tokens[0].kind === "symbol" && tokens[0].value === "(" && matchingParenthesis(tokens, 0) === tokens.length - 1) {
+			tokens = tokens.slice(1, -1);
+		}
+
+		return new TokenStream(this.source, tokens);
+	}
+
+	tokensLeft(): SqlToken[] {
+		return this.tokens.slice(this.position);
+	}
+
+	/**
+	 * Source text of the remaining tokens, as written
+	 */
+	text(): string {
+		const rest = this.tokens.slice(this.position);
+		this.position = this.tokens.length;
+		return rest.length > 0 ? this.source.slice(rest[0].start, rest[rest.length - 1].end) : "";
+	}
+
+	/**
+	 * Create an error pointing at the line of a token
+	 */
+	error(message: string, token = this.peek() ?? this.tokens[this.tokens.length - 1]): Error {
+		const line = token ? this.source.slice(0, token.start).split("\n").length : 1;
+		return new Error(`line ${line}: ${message}`);
+	}
+
+}
+
+/**
+ * Find the index of the parenthesis closing the one at `open`, or -1
+ */
+function matchingParenthesis(tokens: SqlToken[], open: number): number {
+	let depth = 0;
+
+	for (let i = open; i < tokens.length; i++) {
+		if (tokens[i].kind !== "symbol") continue;
+		if (tokens[i].value === "(") depth++;
+		if (tokens[i].value === ")" && --depth === 0) return i;
+	}
+
+	return -1;
+}
+
+/**
+ * Split SQL into tokens, skipping whitespace and comments
+ */
+function tokenize(source: string): SqlToken[] {
+	const tokens: SqlToken[] = [];
+	let i = 0;
+
+	while (i < source.length) {
+		const char = source[i];
+		const start = i;
+
+		if (/\s/.test(char)) {
+			i++;
+		} else if (source.startsWith("--", i)) {
+			const end = source.indexOf("\n", i);
+			i = end === -1 ? source.length : end + 1;
+		} else if (source.startsWith("/*", i)) {
+			const end = source.indexOf("*/", i + 2);
+			i = end === -1 ? source.length : end + 2;
+		} else if (char === "'" || char === '"') {
+			// Quotes are escaped by doubling them
+			let value = "";
+			i++;
+			while (i < source.length) {
+				if (source[i] === char && source[i + 1] === char) {
+					value += char;
+					i += 2;
+				} else if (source[i] === char) {
+					i++;
+					break;
+				} else {
+					value += source[i++];
+				}
+			}
+			tokens.push({ kind: char === "'" ? "string" : "identifier", value, start, end: i });
+		} else if (char === "$" && /^\$\w*\$/.test(source.slice(i))) {
+			// Dollar-quoted strings: $$ ... $$ or $tag$ ... $tag$
+			const tag = source.slice(i).match(/^\$\w*\$/)![0];
+			const end = source.indexOf(tag, i + tag.length);
+			i = end === -1 ? source.length : end + tag.length;
+			tokens.push({ kind: "string", value: source.slice(start + tag.length, end === -1 ? i : end), start, end: i });
+		} else if (/[0-9]/.test(char)) {
+			const match = source.slice(i).match(/^\d+(?:\.\d+)?(?:e[+-]?\d+)?/i)!;
+			i += match[0].length;
+			tokens.push({ kind: "number", value: match[0], start, end: i });
+		} else if (/[A-Za-z_]/.test(char)) {
+			const match = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_$]*/)!;
+			i += match[0].length;
+			tokens.push({ kind: "word", value: match[0], start, end: i });
+		} else {
+			const value = source.startsWith("::", i) ? "::" : char;
+			i += value.length;
+			tokens.push({ kind: "symbol", value, start, end: i });
+		}
+	}
+
+	return tokens;
+}
+
+/**
+ * Format the tokens of a column type the way PostgreSQL prints it, e.g. "character varying(255)"
+ */
+function formatType(stream: TokenStream): string {
+	return stream
+		.tokensLeft()
+		.map((token) => (token.kind === "word" ? token.value.toLowerCase() : token.value))
+		.join(" ")
+		.replace(/\s*\(\s*/g, "(")
+		.replace(/\s*\)/g, ")")
+		.replace(/\s*,\s*/g, ",")
+		.replace(/\s*\.\s*/g, ".")
+		.replace(/\s*\[\s*/g, "[")
+		.replace(/\s*\]/g, "]");
+}
@@ -1,12 +1,13 @@
-import { TableDefinition, ColumnGeneratorResult, TableGeneratorResult } from "../definitions";
+import { TableDefinition, ColumnGeneratorResult, TableGeneratorResult, DatabaseDialect, Dialect, IndexDefinition } from "../definitions";
 import { ColumnGenerator } from "./ColumnGenerator";
 import { ImportManager, SnakeCase } from "../utils";
+import { getDialect } from "../dialects/index.js";
 
 /**
  * Generates a complete Drizzle table definition with columns, helpers, and constraints.
  */
-export function TableGenerator(definition: TableDefinition): TableGeneratorResult {
-	const { name, dbName, columns = [], helperReferences = [], compositePrimaryKey } = definition;
+export function TableGenerator(definition: TableDefinition, dialect: DatabaseDialect = "postgresql"): TableGeneratorResult {
+	const { name, dbName, columns = [], helperReferences = [], compositePrimaryKey, indexes = [], uniqueConstraints = [], checks = [] } = definition;
 
 	const result: TableGeneratorResult = {
 		tableCode: "",
@@ -24,15 +25,23 @@ export function TableGenerator(definition: TableDefinition): TableGeneratorResul
 		return result;
 	}
 
+	const dialectDef = getDialect(dialect);
+	if (!dialectDef) {
+		result.error = `Unsupported dialect '${dialect}'.`;
+		return result;
+	}
+
 	const importManager = new ImportManager();
 	const allTables: string[] = [];
 	const columnCodes: string[] = [];
 
-	importManager.addImport("drizzle-orm/pg-core", "pgTable");
+	const coreImportPath = dialectDef.importPath;
+	const tableFactory = dialectDef.tableFactory;
+	importManager.addImport(coreImportPath, tableFactory);
 
 	// Process columns
 	for (const columnDef of columns) {
-		const columnResult: ColumnGeneratorResult = ColumnGenerator(columnDef);
+		const columnResult: ColumnGeneratorResult = ColumnGenerator(columnDef, dialect);
 
 		if (columnResult.error) {
 			result.error = `Error in column '${columnDef.name}': ${columnResult.error}`;
@@ -61,17 +70,65 @@ export function TableGenerator(definition: TableDefinition): TableGeneratorResul
 	const allColumnEntries = [...columnCodes, ...helperSpreads];
 	const tableStructure = allColumnEntries.length > 0 ? `{\n${allColumnEntries.join(",\n")}\n}` : "{}";
 
+	const tableVarName = name.toLowerCase();
+	const configEntries: string[] = [];
+
 	// Handle composite primary key
-	let compositePKCode = "";
 	if (compositePrimaryKey && compositePrimaryKey.length > 1) {
-		importManager.addImport("drizzle-orm/pg-core", "primaryKey");
-		const tableVarName = name.toLowerCase();
+		importManager.addImport(coreImportPath, "primaryKey");
 		const pkColumns = compositePrimaryKey.map((col) => `${tableVarName}.${col}`).join(", ");
-		compositePKCode = `, (${tableVarName}) => ({\n    compositePK: primaryKey({ columns: [${pkColumns}] })\n})`;
+		configEntries.push(`    compositePK: primaryKey({ columns: [${pkColumns}] })`);
 	}
 
-	const tableVarName = name.toLowerCase();
-	const tableCode = `export const ${tableVarName} = pgTable('${tableName}', ${tableStructure}${compositePKCode});`;
+	// Handle table-level unique constraints
+	for (const constraint of uniqueConstraints) {
+		if (!constraint.name || !constraint.name.trim()) {
+			result.error = "Unique constraint name is required.";
+			return result;
+		}
+
+		if (!constraint.columns || constraint.columns.length === 0) {
+			result.error = `Error in unique constraint '${constraint.name}': At least one column is required.`;
+			return result;
+		}
+
+		importManager.addImport(coreImportPath, "unique");
+		const uniqueColumns = constraint.columns.map((col) => `${tableVarName}.${col}`).join(", ");
+		configEntries.push(`    ${configKey(constraint.name)}: unique('${constraint.name}').on(${uniqueColumns})`);
+	}
+
+	// Handle secondary indexes
+	for (const indexDef of indexes) {
+		const indexResult = generateIndexEntry(indexDef, tableVarName, dialectDef, importManager);
+
+		if (indexResult.error) {
+			result.error = `Error in index '${indexDef.name}': ${indexResult.error}`;
+			return result;
+		}
+
+		configEntries.push(`    ${indexResult.code}`);
+	}
+
+	// Handle check constraints
+	for (const checkDef of checks) {
+		if (!checkDef.name || !checkDef.name.trim()) {
+			result.error = "Check constraint name is required.";
+			return result;
+		}
+
+		if (!checkDef.expression || !checkDef.expression.trim()) {
+			result.error = `Error in check constraint '${checkDef.name}': Expression is required.`;
+			return result;
+		}
+
+		importManager.addImport(coreImportPath, "check");
+		importManager.addImport("drizzle-orm", "sql");
+		configEntries.push(`    ${configKey(checkDef.name)}: check('${checkDef.name}', ${sqlTemplate(checkDef.expression)})`);
+	}
+
+	const extraConfigCode = configEntries.length > 0 ? `, (${tableVarName}) => ({\n${configEntries.join(",\n")}\n})` : "";
+
+	const tableCode = `export const ${tableVarName} = ${tableFactory}('${tableName}', ${tableStructure}${extraConfigCode});`;
 
 	result.tableCode = tableCode;
 	result.imports = importManager.getImports();
@@ -80,17 +137,76 @@ export function TableGenerator(definition: TableDefinition): TableGeneratorResul
 	return result;
 }
 
+/**
+ * Object key for a named entry in the table's extra-config callback.
+ */
+function configKey(name: string): string {
+	return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`;
+}
+
+/**
+ * Raw SQL expression as an sql`...` template, escaping what would end the template or start a substitution.
+ */
+function sqlTemplate(expression: string): string {
+	return `sql\`${expression.replace(/[\\`]|\$\{/g, (match) => `\\${match}`)}\``;
+}
+
+/**
+ * Generates an index entry for the table's extra-config callback.
+ */
+function generateIndexEntry(indexDef: IndexDefinition, tableVarName: string, dialect: Dialect, importManager: ImportManager): { code?: string; error?: string } {
+	const { name, columns = [], unique, where, method } = indexDef;
+
+	if (!name || !name.trim()) {
+		return { error: "Index name is required." };
+	}
+
+	if (columns.length === 0) {
+		return { error: "Index must have at least one column." };
+	}
+
+	if (method && !dialect.indexMethodStyle) {
+		return { error: `Dialect '${dialect.name}' does not support index methods.` };
+	}
+
+	if (where && !dialect.partialIndexes) {
+		return { error: `Dialect '${dialect.name}' does not support partial indexes.` };
+	}
+
+	const indexFunc = unique ? "uniqueIndex" : "index";
+	importManager.addImport(dialect.importPath, indexFunc);
+
+	const columnRefs = columns.map((col) => `${tableVarName}.${col}`).join(", ");
+	let code = `${configKey(name)}: ${indexFunc}('${name}')`;
+
+	if (method && dialect.indexMethodStyle === "using") {
+		code += `.using('${method}', ${columnRefs})`;
+	} else {
+		code += `.on(${columnRefs})`;
+		if (method) {
+			code += `.using('${method}')`;
+		}
+	}
+
+	if (where) {
+		importManager.addImport("drizzle-orm", "sql");
+		code += `.where(${sqlTemplate(where)})`;
+	}
+
+	return { code };
+}
+
 /**
  * Generates multiple tables and consolidates their imports.
  */
-export function generateMultipleTables(definitions: TableDefinition[]) {
+export function generateMultipleTables(definitions: TableDefinition[], dialect: DatabaseDialect = "postgresql") {
 	const importManager = new ImportManager();
 	const allTables: string[] = [];
 	const tableCodes: string[] = [];
 	const errors: string[] = [];
 
 	for (const definition of definitions) {
-		const result = TableGenerator(definition);
+		const result = TableGenerator(definition, dialect);
 
 		if (result.error) {
 			errors.push(`Error in table '${definition.name}': ${result.error}`);
@@ -115,8 +231,8 @@ export function generateMultipleTables(definitions: TableDefinition[]) {
 /**
  * Generates a complete database schema file with tables and imports.
  */
-export function generateCompleteSchema(tableDefinitions: TableDefinition[], additionalImports: { [path: string]: string[] } = {}) {
-	const result = generateMultipleTables(tableDefinitions);
+export function generateCompleteSchema(tableDefinitions: TableDefinition[], additionalImports: { [path: string]: string[] } = {}, dialect: DatabaseDialect = "postgresql") {
+	const result = generateMultipleTables(tableDefinitions, dialect);
 
 	const importManager = new ImportManager();
 	importManager.merge(result.imports);
@@ -2,6 +2,11 @@ export * from "./EnumGenerator.js";
 export * from "./ColumnGenerator.js";
 export * from "./HelperGenerator.js";
 export * from "./TableGenerator.js";
+export * from "./RelationGenerator.js";
 export * from "./ProjectGenerator.js";
 export * from "./SchemaReader.js";
 export * from "./SchemaChangeDetector.js";
+export * from "./MigrationGenerator.js";
+export * from "./SqlSchemaParser.js";
+export * from "./DdlParser.js";
+export * from "./DatabaseIntrospector.js";
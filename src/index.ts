@@ -4,5 +4,14 @@ export * from './definitions/index.js';
 // --- Utilities ---
 export * from './utils/index.js';
 
+// --- Dialects ---
+export * from './dialects/index.js';
+
+// --- Config Validation ---
+export * from './validation/index.js';
+
+// --- Output Sinks ---
+export * from './output/index.js';
+
 // --- Code Generators ---
 export * from './generators/index.js';
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import { OutputSink } from "../definitions/index.js";
+
+/**
+ * Writes generated files to disk through `fs.promises`
+ */
+export class FileSystemSink implements OutputSink {
+	async read(path: string): Promise<string | undefined> {
+		try {
+			return await fs.readFile(path, "utf-8");
+		} catch (error) {
+			// Only a missing file means "nothing generated yet"; permission and other errors must surface
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+			throw error;
+		}
+	}
+
+	async write(path: string, content: string): Promise<void> {
+		await this.mkdir(dirname(path));
+		await fs.writeFile(path, content, "utf-8");
+	}
+
+	async remove(path: string): Promise<void> {
+		await fs.rm(path, { force: true });
+	}
+
+	async mkdir(path: string): Promise<void> {
+		await fs.mkdir(path, { recursive: true });
+	}
+}
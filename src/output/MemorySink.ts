@@ -0,0 +1,46 @@
+import { posix } from "path";
+import { OutputSink } from "../definitions/index.js";
+
+/**
+ * Keeps generated files in memory, keyed by normalized forward-slash paths.
+ * Seed it with existing files to compare a generation against them, e.g. with dryRun.
+ */
+export class MemorySink implements OutputSink {
+	protected files = new Map<string, string>();
+
+	constructor(files: { [path: string]: string } = {}) {
+		for (const [path, content] of Object.entries(files)) {
+			this.files.set(normalizePath(path), content);
+		}
+	}
+
+	async read(path: string): Promise<string | undefined> {
+		return this.files.get(normalizePath(path));
+	}
+
+	async write(path: string, content: string): Promise<void> {
+		this.files.set(normalizePath(path), content);
+	}
+
+	async remove(path: string): Promise<void> {
+		this.files.delete(normalizePath(path));
+	}
+
+	async mkdir(): Promise<void> {
+		// Directories are implied by the file paths
+	}
+
+	/**
+	 * Get the files as a `{ path: content }` object, sorted by path
+	 */
+	toObject(): { [path: string]: string } {
+		return Object.fromEntries([...this.files.entries()].sort(([a], [b]) => a.localeCompare(b)));
+	}
+}
+
+/**
+ * Normalize a path to forward slashes without a leading "./"
+ */
+export function normalizePath(path: string): string {
+	return posix.normalize(path.replace(/\\/g, "/")).replace(/^\.\//, "");
+}
@@ -0,0 +1,119 @@
+import { posix } from "path";
+import { deflateRawSync } from "zlib";
+import { MemorySink, normalizePath } from "./MemorySink.js";
+
+/**
+ * DOS date of 1980-01-01, the earliest a zip entry can carry, so archives are reproducible
+ */
+const ZIP_EPOCH_DATE = (0 << 9) | (1 << 5) | 1;
+
+/**
+ * Collects generated files in memory and packs them into a zip archive. Entry names are
+ * relative to `root` (usually the outputDir), so the archive unpacks to the project itself.
+ */
+export class ZipSink extends MemorySink {
+	private root: string;
+
+	constructor(root = ".") {
+		super();
+		this.root = normalizePath(root);
+	}
+
+	/**
+	 * Reject files that would unpack outside of the archive root
+	 */
+	async write(path: string, content: string): Promise<void> {
+		this.entryName(path);
+		await super.write(path, content);
+	}
+
+	/**
+	 * Build the zip archive of the written files, deflating each of them
+	 */
+	toZip(): Buffer {
+		const localParts: Buffer[] = [];
+		const centralParts: Buffer[] = [];
+		let offset = 0;
+
+		for (const [path, content] of Object.entries(this.toObject())) {
+			const name = Buffer.from(this.entryName(path), "utf-8");
+			const data = Buffer.from(content, "utf-8");
+			const compressed = deflateRawSync(data);
+			const crc = crc32(data);
+
+			const local = Buffer.alloc(30);
+			local.writeUInt32LE(0x04034b50, 0);
+			local.writeUInt16LE(20, 4); // version needed to extract
+			local.writeUInt16LE(0x0800, 6); // UTF-8 names
+			local.writeUInt16LE(8, 8); // deflate
+			local.writeUInt16LE(0, 10);
+			local.writeUInt16LE(ZIP_EPOCH_DATE, 12);
+			local.writeUInt32LE(crc, 14);
+			local.writeUInt32LE(compressed.length, 18);
+			local.writeUInt32LE(data.length, 22);
+			local.writeUInt16LE(name.length, 26);
+			local.writeUInt16LE(0, 28);
+
+			const central = Buffer.alloc(46);
+			central.writeUInt32LE(0x02014b50, 0);
+			central.writeUInt16LE(20, 4); // version made by
+			central.writeUInt16LE(20, 6);
+			central.writeUInt16LE(0x0800, 8);
+			central.writeUInt16LE(8, 10);
+			central.writeUInt16LE(0, 12);
+			central.writeUInt16LE(ZIP_EPOCH_DATE, 14);
+			central.writeUInt32LE(crc, 16);
+			central.writeUInt32LE(compressed.length, 20);
+			central.writeUInt32LE(data.length, 24);
+			central.writeUInt16LE(name.length, 28);
+			central.writeUInt32LE(offset, 42);
+
+			localParts.push(local, name, compressed);
+			centralParts.push(central, name);
+			offset += local.length + name.length + compressed.length;
+		}
+
+		const centralDirectory = Buffer.concat(centralParts);
+		const end = Buffer.alloc(22);
+		end.writeUInt32LE(0x06054b50, 0);
+		end.writeUInt16LE(centralParts.length / 2, 8);
+		end.writeUInt16LE(centralParts.length / 2, 10);
+		end.writeUInt32LE(centralDirectory.length, 12);
+		end.writeUInt32LE(offset, 16);
+
+		return Buffer.concat([...localParts, centralDirectory, end]);
+	}
+
+	/**
+	 * Name of the zip entry of a path, relative to the root and without "../" or a leading "/"
+	 */
+	private entryName(path: string): string {
+		const normalized = normalizePath(path);
+		const name = this.root === "." ? normalized : posix.relative(this.root, normalized);
+		if (name === ".." || name.startsWith("../") || name.startsWith("/") || /^[a-zA-Z]:/.test(name)) {
+			throw new Error(`Cannot add '${path}' to the zip archive: it is outside of '${this.root}'.`);
+		}
+		return name;
+	}
+}
+
+let crcTable: number[] | undefined;
+
+/**
+ * CRC-32 checksum of the zip format
+ */
+function crc32(data: Buffer): number {
+	crcTable ??= Array.from({ length: 256 }, (_, n) => {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		return c >>> 0;
+	});
+
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
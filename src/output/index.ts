@@ -0,0 +1,3 @@
+export * from "./FileSystemSink.js";
+export * from "./MemorySink.js";
+export * from "./ZipSink.js";
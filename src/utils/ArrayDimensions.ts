@@ -0,0 +1,8 @@
+import { ColumnOptions } from "../definitions/index.js";
+
+/**
+ * Number of array dimensions of a column, 0 for columns that are not arrays.
+ */
+export function arrayDimensions(options: ColumnOptions = {}): number {
+	return options.array === true ? 1 : options.array || 0;
+}
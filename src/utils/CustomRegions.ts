@@ -0,0 +1,226 @@
+/**
+ * Marker opening a region of hand-written code that regeneration keeps, optionally followed by a name
+ */
+export const CUSTOM_REGION_BEGIN = "// @drizzle-gen:begin-custom";
+
+/**
+ * Marker closing a custom region
+ */
+export const CUSTOM_REGION_END = "// @drizzle-gen:end-custom";
+
+/**
+ * A custom region found in a file
+ */
+export interface CustomRegion {
+	/** Name after the begin marker, empty for unnamed regions */
+	name: string;
+	/** Lines from the begin marker to the end marker, inclusive */
+	lines: string[];
+	/** Name of the top-level declaration the region follows, or is nested in, used to put it back in place */
+	declaration?: string;
+	/** Whether the region is nested in its declaration rather than following it, told by an indented begin marker */
+	nested: boolean;
+	/** Last non-blank line before the region outside any region, used to place nested and leading regions */
+	anchor?: string;
+	/** Blank lines between the anchor and the region */
+	leadingBlankLines: number;
+	/** Index of the begin marker line */
+	start: number;
+	/** Index of the end marker line */
+	end: number;
+}
+
+/**
+ * Declarations that anchor custom regions: top-level `const`, `function`, `type` and the like, optionally exported
+ */
+const DECLARATION_PATTERN = /^(?:export\s+)?(?:declare\s+)?(?:const|let|var|function|class|enum|type|interface)\s+([A-Za-z_$][\w$]*)/;
+
+/**
+ * Follow the top-level declarations of a file line by line. A declaration starts at an unindented line
+ * declaring a name and runs until the next unindented line that does not close a bracket, such as an
+ * import, a comment or another declaration.
+ */
+function trackDeclaration(line: string, current: string | undefined): string | undefined {
+	if (line.trim() === "" || /^[\s})\]]/.test(line)) {
+		return current;
+	}
+	return DECLARATION_PATTERN.exec(line)?.[1];
+}
+
+/**
+ * Line ranges of the top-level declarations of a file, by name, ending at their last non-blank line
+ */
+function findDeclarations(lines: string[]): Map<string, { start: number; end: number }> {
+	const declarations = new Map<string, { start: number; end: number }>();
+	let current: string | undefined;
+
+	for (let i = 0; i < lines.length; i++) {
+		if (lines[i].trim() === "") continue;
+
+		const next = trackDeclaration(lines[i], current);
+		if (next !== current) {
+			current = next;
+			if (current) declarations.set(current, { start: i, end: i });
+		} else if (current) {
+			declarations.get(current)!.end = i;
+		}
+	}
+
+	return declarations;
+}
+
+/**
+ * Find the custom regions of a file. Nested, unterminated and unopened regions are reported as an error.
+ */
+export function findCustomRegions(content: string): { regions: CustomRegion[]; error?: string } {
+	const lines = content.split("\n");
+	const regions: CustomRegion[] = [];
+	let current: CustomRegion | undefined;
+	let anchor: string | undefined;
+	let declaration: string | undefined;
+	let blankLines = 0;
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i].trim();
+
+		if (line.startsWith(CUSTOM_REGION_BEGIN)) {
+			if (current) {
+				return { regions, error: `Nested custom region at line ${i + 1}` };
+			}
+			current = {
+				name: line.slice(CUSTOM_REGION_BEGIN.length).trim(),
+				lines: [],
+				declaration,
+				nested: /^\s/.test(lines[i]),
+				anchor,
+				leadingBlankLines: blankLines,
+				start: i,
+				end: i,
+			};
+		}
+
+		if (current) {
+			current.lines.push(lines[i]);
+			if (line.startsWith(CUSTOM_REGION_END)) {
+				current.end = i;
+				regions.push(current);
+				current = undefined;
+				blankLines = 0;
+			}
+			continue;
+		}
+
+		if (line.startsWith(CUSTOM_REGION_END)) {
+			return { regions, error: `Custom region end without a begin at line ${i + 1}` };
+		}
+
+		declaration = trackDeclaration(lines[i], declaration);
+		if (line === "") {
+			blankLines++;
+		} else {
+			anchor = lines[i];
+			blankLines = 0;
+		}
+	}
+
+	if (current) {
+		return { regions, error: `Custom region starting at line ${current.start + 1} is not closed` };
+	}
+
+	return { regions };
+}
+
+/**
+ * Carry the custom regions of an existing file over to its regenerated content. A region replaces
+ * the region of the same name in the new content, otherwise it goes back after the declaration it
+ * followed, so changes to the generated lines themselves do not move it. Nested regions go back after
+ * the line they followed within their declaration, and regions before any declaration after the
+ * line they followed, or after the imports when that was an import. Regions whose declaration or line no longer exists are appended at the end of the file.
+ */
+export function mergeCustomRegions(generated: string, existing: string): { content: string; error?: string } {
+	const { regions, error } = findCustomRegions(existing);
+	if (error || regions.length === 0) {
+		return { content: generated, error };
+	}
+
+	const generatedRegions = findCustomRegions(generated).regions;
+	const lines = generated.replace(/\n$/, "").split("\n");
+	const declarations = findDeclarations(lines);
+	// Insertions after a line index; -1 is the start of the file
+	const insertions = new Map<number, string[]>();
+	const appended: string[] = [];
+	const replaced = new Map<number, string[]>();
+
+	for (const region of regions) {
+		const target = region.name ? generatedRegions.find((r) => r.name === region.name) : undefined;
+		if (target) {
+			replaced.set(target.start, region.lines);
+			continue;
+		}
+
+		const anchorIndex = findRegionPosition(region, lines, declarations);
+		if (anchorIndex === undefined) {
+			appended.push("", ...region.lines);
+			continue;
+		}
+
+		const block = [...new Array<string>(region.leadingBlankLines).fill(""), ...region.lines];
+		insertions.set(anchorIndex, [...(insertions.get(anchorIndex) ?? []), ...block]);
+	}
+
+	const output: string[] = [...(insertions.get(-1) ?? [])];
+	for (let i = 0; i < lines.length; i++) {
+		const replacement = replaced.get(i);
+		if (replacement) {
+			output.push(...replacement);
+			i = generatedRegions.find((r) => r.start === i)!.end;
+		} else {
+			output.push(lines[i]);
+		}
+		output.push(...(insertions.get(i) ?? []));
+	}
+	output.push(...appended);
+
+	return { content: `${output.join("\n")}\n` };
+}
+
+/**
+ * Index of the regenerated line a region goes after, -1 for the start of the file, or undefined when its place is gone
+ */
+function findRegionPosition(region: CustomRegion, lines: string[], declarations: Map<string, { start: number; end: number }>): number | undefined {
+	if (region.declaration === undefined) {
+		if (region.anchor === undefined) return -1;
+		const index = lines.indexOf(region.anchor);
+		if (index !== -1) return index;
+		if (!/^import\s/.test(region.anchor)) return undefined;
+
+		// Import lines change with the generated code; go after the imports, before the first declaration
+		let last = Math.min(lines.length, ...[...declarations.values()].map((d) => d.start)) - 1;
+		while (last >= 0 && lines[last].trim() === "") last--;
+		return last;
+	}
+
+	const declaration = declarations.get(region.declaration);
+	if (!declaration) return undefined;
+	if (!region.nested) return declaration.end;
+
+	const index = lines.slice(declaration.start, declaration.end + 1).indexOf(region.anchor!);
+	return index === -1 ? undefined : declaration.start + index;
+}
+
+/**
+ * Replace the lines of custom regions with blank lines, keeping the positions of the other code
+ */
+export function blankCustomRegions(content: string): { content: string; error?: string } {
+	const { regions, error } = findCustomRegions(content);
+	if (error) {
+		return { content, error };
+	}
+
+	const lines = content.split("\n");
+	for (const region of regions) {
+		lines.fill("", region.start, region.end + 1);
+	}
+
+	return { content: lines.join("\n") };
+}
@@ -0,0 +1,109 @@
+/**
+ * An edit turning one list of lines into another
+ */
+interface LineEdit {
+	kind: "equal" | "delete" | "insert";
+	line: string;
+}
+
+/**
+ * Create a unified diff (as printed by `diff -u`) between two texts, with `context` unchanged
+ * lines around each change. Returns an empty string when the texts are equal.
+ */
+export function unifiedDiff(oldText: string, newText: string, oldPath: string, newPath = oldPath, context = 3): string {
+	if (oldText === newText) {
+		return "";
+	}
+
+	const edits = diffLines(splitLines(oldText), splitLines(newText));
+	const lines = [`--- ${oldPath}`, `+++ ${newPath}`];
+
+	// Group changes whose context overlaps into hunks
+	let i = 0;
+	while (i < edits.length) {
+		if (edits[i].kind === "equal") {
+			i++;
+			continue;
+		}
+
+		const start = Math.max(0, i - context);
+		let end = i;
+		while (end < edits.length) {
+			if (edits[end].kind !== "equal") {
+				end++;
+				continue;
+			}
+			let next = end;
+			while (next < edits.length && edits[next].kind === "equal") next++;
+			if (next === edits.length || next - end > context * 2) {
+				end = Math.min(edits.length, end + context);
+				break;
+			}
+			end = next;
+		}
+
+		const hunk = edits.slice(start, end);
+		const before = edits.slice(0, start);
+		const oldStart = before.filter((edit) => edit.kind !== "insert").length + 1;
+		const newStart = before.filter((edit) => edit.kind !== "delete").length + 1;
+		const oldCount = hunk.filter((edit) => edit.kind !== "insert").length;
+		const newCount = hunk.filter((edit) => edit.kind !== "delete").length;
+
+		lines.push(`@@ -${range(oldStart, oldCount)} +${range(newStart, newCount)} @@`);
+		for (const edit of hunk) {
+			lines.push(`${edit.kind === "equal" ? " " : edit.kind === "delete" ? "-" : "+"}${edit.line}`);
+		}
+
+		i = end;
+	}
+
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Format a hunk range; empty ranges point at the line before them, like diff does
+ */
+function range(start: number, count: number): string {
+	if (count === 0) return `${start - 1},0`;
+	return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Split text into lines, ignoring the newline that ends the last one
+ */
+function splitLines(text: string): string[] {
+	if (text === "") return [];
+	return text.replace(/\n$/, "").split("\n");
+}
+
+/**
+ * Compute a minimal line edit script through the longest common subsequence
+ */
+function diffLines(oldLines: string[], newLines: string[]): LineEdit[] {
+	const n = oldLines.length;
+	const m = newLines.length;
+	const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			lcs[i][j] = oldLines[i] === newLines[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+
+	const edits: LineEdit[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < n || j < m) {
+		if (i < n && j < m && oldLines[i] === newLines[j]) {
+			edits.push({ kind: "equal", line: oldLines[i++] });
+			j++;
+		} else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+			// Deletions come before insertions, as in diff -u
+			edits.push({ kind: "delete", line: oldLines[i++] });
+		} else {
+			edits.push({ kind: "insert", line: newLines[j++] });
+		}
+	}
+
+	return edits;
+}
@@ -0,0 +1,108 @@
+import { promises as fs } from "fs";
+import { join, resolve, sep } from "path";
+
+/**
+ * Check whether a path contains glob characters.
+ */
+export function isGlob(pattern: string): boolean {
+	return /[*?{]/.test(pattern);
+}
+
+/**
+ * Converts a glob pattern (`*`, `**`, `?`, `{a,b}`) to a regular expression matching forward-slash paths.
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let source = "";
+	const glob = pattern.replace(/\\/g, "/").replace(/^\.\//, "");
+
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+
+		if (char === "*" && glob[i + 1] === "*") {
+			// `**/` matches zero or more directories, a trailing `**` matches everything
+			const slash = glob[i + 2] === "/";
+			source += slash ? "(?:.*/)?" : ".*";
+			i += slash ? 2 : 1;
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "{") {
+			const end = glob.indexOf("}", i);
+			if (end === -1) {
+				source += "\\{";
+				continue;
+			}
+			const alternatives = glob.slice(i + 1, end).split(",").map((alternative) => alternative.replace(/[.+^$()|[\]\\]/g, "\\$&"));
+			source += `(?:${alternatives.join("|")})`;
+			i = end;
+		} else {
+			source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+		}
+	}
+
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Expand files, directories and glob patterns relative to `cwd` into a sorted list of absolute
+ * TypeScript file paths. Directories are searched recursively; node_modules and dot directories are skipped.
+ */
+export async function expandGlobs(patterns: string[], cwd: string): Promise<string[]> {
+	const files = new Set<string>();
+
+	for (const pattern of patterns) {
+		if (!isGlob(pattern)) {
+			const path = resolve(cwd, pattern);
+			const stats = await fs.stat(path).catch(() => undefined);
+			if (stats?.isDirectory()) {
+				(await walk(path)).filter(isTypeScriptFile).forEach((file) => files.add(file));
+			} else if (stats) {
+				files.add(path);
+			}
+			continue;
+		}
+
+		// Only walk the static part of the pattern, e.g. `src/db` for `src/db/**/*.ts`
+		const segments = pattern.replace(/\\/g, "/").split("/");
+		const staticSegments = segments.slice(0, segments.findIndex(isGlob));
+		const base = resolve(cwd, ...staticSegments);
+		const matcher = globToRegExp(resolve(cwd, pattern).split(sep).join("/"));
+
+		for (const file of await walk(base)) {
+			if (matcher.test(file.split(sep).join("/"))) {
+				files.add(file);
+			}
+		}
+	}
+
+	return [...files].sort();
+}
+
+/**
+ * Recursively list the files below a directory
+ */
+async function walk(dir: string): Promise<string[]> {
+	const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+	const files: string[] = [];
+
+	for (const entry of entries) {
+		const path = join(dir, entry.name);
+		if (entry.isDirectory()) {
+			if (entry.name !== "node_modules" && !entry.name.startsWith(".")) {
+				files.push(...(await walk(path)));
+			}
+		} else if (entry.isFile()) {
+			files.push(path);
+		}
+	}
+
+	return files;
+}
+
+/**
+ * Check whether a file is a TypeScript source file (declaration files excluded)
+ */
+function isTypeScriptFile(file: string): boolean {
+	return file.endsWith(".ts") && !file.endsWith(".d.ts");
+}
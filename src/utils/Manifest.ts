@@ -0,0 +1,53 @@
+import { createHash } from "crypto";
+import { GenerationManifest } from "../definitions/index.js";
+import { findCustomRegions } from "./CustomRegions.js";
+
+/**
+ * Name of the manifest file written in the output directory
+ */
+export const MANIFEST_FILE_NAME = ".drizzle-gen-manifest.json";
+
+/**
+ * Hash a generated file the way the manifest records it. Custom regions are left out,
+ * so code added between the markers does not count as a hand edit.
+ */
+export function hashGeneratedContent(content: string): string {
+	const { regions, error } = findCustomRegions(content);
+	let lines = content.split("\n");
+
+	if (!error) {
+		const regionLines = new Set(regions.flatMap((region) => Array.from({ length: region.end - region.start + 1 }, (_, i) => region.start + i)));
+		lines = lines.filter((_, i) => !regionLines.has(i));
+	}
+
+	// Blank lines around the regions are not part of the generated code either
+	const normalized = lines.join("\n").replace(/\n{2,}/g, "\n\n").trimEnd();
+	return createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * Parse a manifest file, returning undefined when it is missing or not a manifest
+ */
+export function parseManifest(content: string | undefined): GenerationManifest | undefined {
+	if (content === undefined) {
+		return undefined;
+	}
+
+	try {
+		const manifest = JSON.parse(content);
+		if (manifest?.version !== 1 || typeof manifest.files !== "object" || manifest.files === null) {
+			return undefined;
+		}
+		return manifest as GenerationManifest;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Serialize a manifest with its files sorted by path, so regenerations produce stable output
+ */
+export function serializeManifest(manifest: GenerationManifest): string {
+	const files = Object.fromEntries(Object.entries(manifest.files).sort(([a], [b]) => a.localeCompare(b)));
+	return `${JSON.stringify({ version: manifest.version, files }, null, 2)}\n`;
+}
@@ -2,4 +2,9 @@ export { default as logger } from './logger.js';
 export * from './SnakeCase.js';
 export * from './PascalCase.js';
 export * from './typeMap.js';
-export * from './AddImport.js';
\ No newline at end of file
+export * from './AddImport.js';
+export * from './Glob.js';
+export * from './Diff.js';
+export * from './CustomRegions.js';
+export * from './Manifest.js';
+export * from './ArrayDimensions.js';
\ No newline at end of file
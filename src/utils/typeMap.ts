@@ -1,15 +1,10 @@
+import { PostgresDialect } from "../dialects/PostgresDialect.js";
+
 /**
  * Map of JSON types to Drizzle pg-core column function names.
+ * @deprecated Use the `types` of a dialect from `getDialect()` instead
  */
 export const TypeMap: { [key: string]: string } = {
-	serial: "serial",
-	string: "varchar",
-	text: "text",
-	number: "integer",
-	bigint: "bigint",
-	boolean: "boolean",
-	date: "timestamp",
-	json: "jsonb",
-	uuid: "uuid",
-	enum: "pgEnum",
+	...Object.fromEntries(Object.entries(PostgresDialect.types).map(([type, columnType]) => [type, columnType.func])),
+	enum: PostgresDialect.enumFactory,
 };
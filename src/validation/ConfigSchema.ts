@@ -0,0 +1,213 @@
+import { IntervalFields, JsonSchema } from "../definitions/index.js";
+import { getRegisteredDialects } from "../dialects/index.js";
+
+const REFERENTIAL_ACTIONS = ["cascade", "restrict", "set null", "set default", "no action"];
+
+const INTERVAL_FIELDS: IntervalFields[] = [
+	"year",
+	"month",
+	"day",
+	"hour",
+	"minute",
+	"second",
+	"year to month",
+	"day to hour",
+	"day to minute",
+	"day to second",
+	"hour to minute",
+	"hour to second",
+	"minute to second",
+];
+
+/**
+ * A non-empty string
+ */
+const name = (description: string): JsonSchema => ({ type: "string", minLength: 1, description });
+
+/**
+ * A list of column names
+ */
+const columnList = (description: string): JsonSchema => ({ type: "array", items: { type: "string", minLength: 1 }, minItems: 1, description });
+
+/**
+ * Build the JSON Schema of ProjectGeneratorConfig files. Dialect names and column types are
+ * suggested from the registered dialects, but any string is accepted so custom dialects validate.
+ */
+export function getConfigJsonSchema(): JsonSchema {
+	const dialects = getRegisteredDialects();
+	const columnTypes = [...new Set(dialects.flatMap((dialect) => Object.keys(dialect.types)))];
+
+	return {
+		$schema: "http://json-schema.org/draft-07/schema#",
+		title: "Drizzle schema generator config",
+		type: "object",
+		additionalProperties: false,
+		properties: {
+			$schema: { type: "string", description: "Path or URL of this JSON Schema, for editor support" },
+			name: { type: "string", description: "Human readable name of the schema, not used by the generators" },
+			description: { type: "string", description: "Human readable description of the schema, not used by the generators" },
+			outputDir: { type: "string", description: "Directory the project is generated in; the CLI --out option takes precedence" },
+			dialect: { anyOf: [{ enum: dialects.map((dialect) => dialect.name) }, { type: "string" }], description: "Database dialect, defaults to postgresql" },
+			enums: { type: "array", items: { $ref: "#/definitions/enum" } },
+			helpers: { type: "array", items: { $ref: "#/definitions/helper" } },
+			tables: { type: "array", items: { $ref: "#/definitions/table" } },
+			relations: {
+				anyOf: [{ type: "boolean" }, { $ref: "#/definitions/relations" }],
+				description: "Generate relations() definitions; pass an object to override names or add many-to-many relations",
+			},
+			overwrite: { type: "boolean", description: "Overwrite existing files" },
+			dryRun: { type: "boolean", description: "Plan the files without writing them" },
+			prune: { type: "boolean", description: "Delete the files of the previous generation that the config no longer produces" },
+			keepEditedFiles: { type: "boolean", description: "Keep files edited by hand since the last generation and fail the run, instead of overwriting them" },
+		},
+		definitions: {
+			enum: {
+				type: "object",
+				additionalProperties: false,
+				required: ["name", "values"],
+				properties: {
+					name: name("PascalCase enum name, e.g. OrderStatus"),
+					dbName: name("Database type name of native enums, defaults to the snake_case name"),
+					values: { type: "array", items: { type: "string", minLength: 1 }, minItems: 1, uniqueItems: true },
+				},
+			},
+			helper: {
+				type: "object",
+				additionalProperties: false,
+				required: ["name", "columns"],
+				properties: {
+					name: name("PascalCase helper name, e.g. TimestampColumns"),
+					columns: { type: "array", items: { $ref: "#/definitions/column" } },
+				},
+			},
+			table: {
+				type: "object",
+				additionalProperties: false,
+				required: ["name", "columns"],
+				properties: {
+					name: name("PascalCase table name, e.g. OrderItems"),
+					dbName: name("Database table name, defaults to the lowercased name"),
+					columns: { type: "array", items: { $ref: "#/definitions/column" } },
+					helperReferences: { type: "array", items: { type: "string", minLength: 1 }, description: "Helpers whose columns are spread into the table" },
+					compositePrimaryKey: columnList("Columns of a composite primary key"),
+					indexes: { type: "array", items: { $ref: "#/definitions/index" } },
+					uniqueConstraints: { type: "array", items: { $ref: "#/definitions/uniqueConstraint" } },
+					checks: { type: "array", items: { $ref: "#/definitions/check" } },
+				},
+			},
+			column: {
+				type: "object",
+				additionalProperties: false,
+				required: ["name"],
+				properties: {
+					name: name("Column property name, also used in the database unless dbName is given"),
+					dbName: name("Database column name, defaults to the property name"),
+					type: {
+						anyOf: [{ enum: columnTypes }, { type: "string" }],
+						description: "Column type of the dialect; omitted for enum columns. On PostgreSQL, date is a timestamp and json is jsonb: use dateonly for the SQL date type and plainjson for the SQL json type",
+					},
+					options: { $ref: "#/definitions/columnOptions" },
+				},
+			},
+			columnOptions: {
+				type: "object",
+				additionalProperties: false,
+				properties: {
+					notNull: { type: "boolean" },
+					primaryKey: { type: "boolean" },
+					unique: { type: "boolean" },
+					default: { type: ["string", "number", "boolean"], description: 'Literal default, "sql.now()", "sql.fn()" or "sql`expression`"' },
+					length: { type: "integer", minimum: 1 },
+					precision: { type: "integer", minimum: 0, description: "Total digits of numeric columns, or fractional second digits of timestamp, time and interval columns" },
+					scale: { type: "integer", minimum: 0, description: "Digits after the decimal point of numeric columns" },
+					fields: { enum: INTERVAL_FIELDS, description: "Fields of interval columns" },
+					withTimezone: { type: "boolean", description: "Store timestamp and time columns with their time zone" },
+					mode: { enum: ["date", "string"], description: "Whether timestamp values are read as Date objects or strings" },
+					array: { anyOf: [{ type: "boolean" }, { type: "integer", minimum: 1 }], description: "Make the column an array; a number gives the dimensions of multi-dimensional arrays" },
+					enumValues: name("Name of the enum the column uses"),
+					references: { $ref: "#/definitions/reference" },
+				},
+			},
+			reference: {
+				type: "object",
+				additionalProperties: false,
+				required: ["table", "column"],
+				properties: {
+					table: name("Variable name of the referenced table, e.g. users"),
+					column: name("Referenced column"),
+					onDelete: { enum: REFERENTIAL_ACTIONS },
+					onUpdate: { enum: REFERENTIAL_ACTIONS },
+				},
+			},
+			index: {
+				type: "object",
+				additionalProperties: false,
+				required: ["name", "columns"],
+				properties: {
+					name: name("Index name"),
+					columns: columnList("Indexed columns"),
+					unique: { type: "boolean" },
+					where: { type: "string", description: "SQL predicate of a partial index" },
+					method: { type: "string", description: "Index access method, e.g. btree or gin" },
+				},
+			},
+			uniqueConstraint: {
+				type: "object",
+				additionalProperties: false,
+				required: ["name", "columns"],
+				properties: {
+					name: name("Constraint name"),
+					columns: columnList("Columns that are unique together"),
+				},
+			},
+			check: {
+				type: "object",
+				additionalProperties: false,
+				required: ["name", "expression"],
+				properties: {
+					name: name("Constraint name"),
+					expression: name("SQL boolean expression, e.g. price >= 0"),
+				},
+			},
+			relations: {
+				type: "object",
+				additionalProperties: false,
+				properties: {
+					overrides: { type: "array", items: { $ref: "#/definitions/relationOverride" } },
+					manyToMany: { type: "array", items: { $ref: "#/definitions/manyToMany" } },
+				},
+			},
+			relationOverride: {
+				type: "object",
+				additionalProperties: false,
+				required: ["table", "column"],
+				properties: {
+					table: name("Table that owns the foreign key column"),
+					column: name("Foreign key column"),
+					name: name("Name of the one() relation on the owning table"),
+					inverseName: name("Name of the many() relation on the referenced table"),
+				},
+			},
+			manyToMany: {
+				type: "object",
+				additionalProperties: false,
+				required: ["through", "left", "right"],
+				properties: {
+					through: name("Junction table"),
+					left: { $ref: "#/definitions/junctionSide" },
+					right: { $ref: "#/definitions/junctionSide" },
+				},
+			},
+			junctionSide: {
+				type: "object",
+				additionalProperties: false,
+				required: ["column", "references"],
+				properties: {
+					column: name("Foreign key column on the junction table"),
+					references: { $ref: "#/definitions/reference" },
+					name: name("Name of the many() relation from the referenced table to the junction table"),
+				},
+			},
+		},
+	};
+}
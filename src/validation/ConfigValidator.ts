@@ -0,0 +1,207 @@
+import { ConfigValidationError, ConfigValidationOptions, ConfigValidationResult, JsonSchema, JsonSchemaType, ProjectGeneratorConfig } from "../definitions/index.js";
+import { getConfigJsonSchema } from "./ConfigSchema.js";
+import { validateSemantics } from "./SemanticValidator.js";
+
+/**
+ * Validate a ProjectGeneratorConfig, e.g. parsed from a JSON file, against its JSON Schema and,
+ * once its structure is valid, check the references between its entities.
+ * Every problem is reported with the JSON path of the offending value, and unknown
+ * properties get a suggestion when they look like a typo ("notnull" → "notNull").
+ * Config files may leave `outputDir` to the CLI, so it is only required on request.
+ */
+export function validateConfig(config: unknown, options: ConfigValidationOptions = {}): ConfigValidationResult {
+	const schema = getConfigJsonSchema();
+	if (options.requireOutputDir) {
+		schema.required = ["outputDir"];
+	}
+	const errors = validateValue(config, schema, "$", schema);
+
+	if (errors.length === 0) {
+		errors.push(...validateSemantics(config as ProjectGeneratorConfig));
+	}
+
+	return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Format validation errors as "path: message" lines
+ */
+export function formatValidationErrors(errors: ConfigValidationError[]): string[] {
+	return errors.map((error) => `${error.path}: ${error.message}`);
+}
+
+/**
+ * Validate a value against a (sub)schema, resolving references against the root schema
+ */
+function validateValue(value: unknown, schema: JsonSchema, path: string, root: JsonSchema): ConfigValidationError[] {
+	if (schema.$ref) {
+		const definition = root.definitions?.[schema.$ref.replace("#/definitions/", "")];
+		if (!definition) {
+			throw new Error(`Unresolved schema reference '${schema.$ref}'`);
+		}
+		return validateValue(value, definition, path, root);
+	}
+
+	if (schema.anyOf) {
+		const branches = schema.anyOf.map((branch) => validateValue(value, branch, path, root));
+		if (branches.some((errors) => errors.length === 0)) {
+			return [];
+		}
+		// Report the errors of the branch matching the value's type, e.g. the object form of `relations`
+		const matching = schema.anyOf.findIndex((branch) => resolve(branch, root).type !== undefined && typeMatches(value, resolve(branch, root)));
+		if (matching !== -1) {
+			return branches[matching];
+		}
+		return [{ path, message: `Expected ${schema.anyOf.map((branch) => describe(resolve(branch, root))).join(" or ")}, got ${typeOf(value)}` }];
+	}
+
+	if (!typeMatches(value, schema)) {
+		return [{ path, message: `Expected ${describe(schema)}, got ${typeOf(value)}` }];
+	}
+
+	if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+		return [{ path, message: `Expected one of ${schema.enum.map((option) => `'${option}'`).join(", ")}, got ${JSON.stringify(value)}` }];
+	}
+
+	const errors: ConfigValidationError[] = [];
+
+	if (typeof value === "string" && schema.minLength !== undefined && value.length < schema.minLength) {
+		errors.push({ path, message: "Must not be empty" });
+	}
+
+	if (typeof value === "number" && schema.minimum !== undefined && value < schema.minimum) {
+		errors.push({ path, message: `Must be at least ${schema.minimum}` });
+	}
+
+	if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) {
+			errors.push({ path, message: `Must have at least ${schema.minItems} item${schema.minItems === 1 ? "" : "s"}` });
+		}
+		if (schema.uniqueItems) {
+			value.forEach((item, i) => {
+				if (value.indexOf(item) !== i) {
+					errors.push({ path: `${path}[${i}]`, message: `Duplicate value ${JSON.stringify(item)}` });
+				}
+			});
+		}
+		if (schema.items) {
+			value.forEach((item, i) => errors.push(...validateValue(item, schema.items!, `${path}[${i}]`, root)));
+		}
+	}
+
+	if (isObject(value)) {
+		const properties = schema.properties ?? {};
+
+		for (const property of schema.required ?? []) {
+			if (value[property] === undefined) {
+				errors.push({ path: propertyPath(path, property), message: `Missing required property '${property}'` });
+			}
+		}
+
+		for (const [property, propertyValue] of Object.entries(value)) {
+			// Configs built in code may set optional properties to undefined
+			if (propertyValue === undefined) {
+				continue;
+			}
+
+			if (properties[property]) {
+				errors.push(...validateValue(propertyValue, properties[property], propertyPath(path, property), root));
+			} else if (schema.additionalProperties === false) {
+				const suggestion = closestName(property, Object.keys(properties));
+				errors.push({
+					path: propertyPath(path, property),
+					message: `Unknown property '${property}'${suggestion ? `, did you mean '${suggestion}'?` : ""}`,
+				});
+			}
+		}
+	}
+
+	return errors;
+}
+
+/**
+ * Follow a reference to its definition
+ */
+function resolve(schema: JsonSchema, root: JsonSchema): JsonSchema {
+	return schema.$ref ? (root.definitions?.[schema.$ref.replace("#/definitions/", "")] ?? schema) : schema;
+}
+
+/**
+ * Check a value against the `type` of a schema; schemas without a type accept anything
+ */
+function typeMatches(value: unknown, schema: JsonSchema): boolean {
+	if (!schema.type) {
+		return true;
+	}
+
+	const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+	return types.some((type) => (type === "integer" ? Number.isInteger(value) : type === "number" ? typeof value === "number" : typeOf(value) === type));
+}
+
+/**
+ * Get the JSON type of a value
+ */
+function typeOf(value: unknown): JsonSchemaType {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	return typeof value as JsonSchemaType;
+}
+
+/**
+ * Describe what a schema accepts, for error messages
+ */
+function describe(schema: JsonSchema): string {
+	if (schema.enum) {
+		return `one of ${schema.enum.map((option) => `'${option}'`).join(", ")}`;
+	}
+
+	const types = Array.isArray(schema.type) ? schema.type : [schema.type ?? "any value"];
+	return types.join(" or ");
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Append a property to a JSON path, quoting names that are not identifiers
+ */
+function propertyPath(path: string, property: string): string {
+	return /^[A-Za-z_$][\w$]*$/.test(property) ? `${path}.${property}` : `${path}[${JSON.stringify(property)}]`;
+}
+
+/**
+ * Find the known name a misspelled property most likely meant
+ */
+function closestName(name: string, candidates: string[]): string | undefined {
+	const caseInsensitive = candidates.find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+	if (caseInsensitive) {
+		return caseInsensitive;
+	}
+
+	let best: { candidate: string; distance: number } | undefined;
+	for (const candidate of candidates) {
+		const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+		if (distance <= 2 && (!best || distance < best.distance)) {
+			best = { candidate, distance };
+		}
+	}
+	return best?.candidate;
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+		}
+		previous = current;
+	}
+
+	return previous[b.length];
+}
@@ -0,0 +1,164 @@
+import { ColumnDefinition, ConfigValidationError, HelperDefinition, ProjectGeneratorConfig, ReferenceDefinition, TableDefinition } from "../definitions/index.js";
+import { getDialect } from "../dialects/index.js";
+import { PascalCase } from "../utils/index.js";
+
+/**
+ * Check the references between the entities of a structurally valid config: enums, helpers,
+ * referenced tables and columns must exist, names must be unique and tables must not declare
+ * a column twice through their helpers. All problems are reported, not only the first one.
+ */
+export function validateSemantics(config: ProjectGeneratorConfig): ConfigValidationError[] {
+	const errors: ConfigValidationError[] = [];
+	const enums = config.enums ?? [];
+	const helpers = config.helpers ?? [];
+	const tables = config.tables ?? [];
+	const dialectName = config.dialect ?? "postgresql";
+	const dialect = getDialect(dialectName);
+
+	if (!dialect) {
+		errors.push({ path: "$.dialect", message: `Unknown dialect '${dialectName}'` });
+	}
+
+	checkDuplicates(enums, (e) => e.name, "$.enums", "enum", errors);
+	checkDuplicates(helpers, (h) => h.name, "$.helpers", "helper", errors);
+	checkDuplicates(tables, (t) => t.name.toLowerCase(), "$.tables", "table", errors);
+	checkDuplicates(tables, (t) => t.dbName ?? t.name.toLowerCase(), "$.tables", "database table", errors);
+
+	/**
+	 * Columns of a table including the ones spread from its helpers
+	 */
+	const allColumns = (table: TableDefinition): ColumnDefinition[] => [
+		...table.columns,
+		...(table.helperReferences ?? []).flatMap((name) => helpers.find((h) => h.name === name)?.columns ?? []),
+	];
+
+	/**
+	 * Check a column's type, enum and reference
+	 */
+	const checkColumn = (column: ColumnDefinition, path: string) => {
+		const options = column.options ?? {};
+
+		// Types are looked up case-insensitively, as ColumnGenerator does
+		const columnType = column.type && !options.enumValues ? dialect?.types[column.type.toLowerCase()] : undefined;
+		if (column.type && dialect && !options.enumValues && !columnType) {
+			errors.push({ path: `${path}.type`, message: `Unknown column type '${column.type}' for dialect '${dialect.name}'` });
+		}
+
+		// Type-specific options are only passed to the builders declaring them
+		for (const key of ["precision", "scale", "fields", "withTimezone", "mode"] as const) {
+			if (columnType && options[key] !== undefined && !columnType.configOptions?.includes(key)) {
+				errors.push({ path: `${path}.options.${key}`, message: `Option '${key}' is not supported by type '${column.type}'` });
+			}
+		}
+		if (options.array && dialect && !dialect.arrays) {
+			errors.push({ path: `${path}.options.array`, message: `Dialect '${dialect.name}' does not support array columns` });
+		}
+		if (options.scale !== undefined && (options.precision === undefined || options.scale > options.precision)) {
+			errors.push({ path: `${path}.options.scale`, message: `Scale ${options.scale} needs a precision of at least ${options.scale}` });
+		}
+
+		if (options.enumValues) {
+			const enumDef = enums.find((e) => e.name === options.enumValues);
+			if (!enumDef) {
+				errors.push({ path: `${path}.options.enumValues`, message: `Enum '${options.enumValues}' is not defined` });
+			} else if (typeof options.default === "string" && !/[(.`]/.test(options.default) && !enumDef.values.some((v) => PascalCase(v) === PascalCase(options.default as string))) {
+				// Enum defaults are written as PascalCase values, like the enum itself
+				errors.push({ path: `${path}.options.default`, message: `Default '${options.default}' is not a value of enum '${enumDef.name}'` });
+			}
+		} else if (!column.type) {
+			errors.push({ path: `${path}.type`, message: `Column '${column.name}' needs a type or options.enumValues` });
+		}
+
+		if (options.references) {
+			checkReference(options.references, `${path}.options.references`);
+		}
+	};
+
+	/**
+	 * Check that a reference names the variable of an existing table and one of its columns
+	 */
+	const checkReference = (references: ReferenceDefinition, path: string) => {
+		const target = tables.find((t) => t.name.toLowerCase() === references.table);
+		if (!target) {
+			const caseInsensitive = tables.find((t) => t.name.toLowerCase() === references.table.toLowerCase());
+			const hint = caseInsensitive ? `, did you mean '${caseInsensitive.name.toLowerCase()}'?` : "";
+			errors.push({ path: `${path}.table`, message: `Referenced table '${references.table}' is not defined${hint}` });
+		} else if (!allColumns(target).some((c) => c.name === references.column)) {
+			errors.push({ path: `${path}.column`, message: `Column '${references.column}' is not defined in table '${target.name}'` });
+		}
+	};
+
+	helpers.forEach((helper, h) => {
+		checkDuplicates(helper.columns, (c) => c.name, `$.helpers[${h}].columns`, "column", errors);
+		helper.columns.forEach((column, c) => checkColumn(column, `$.helpers[${h}].columns[${c}]`));
+	});
+
+	tables.forEach((table, t) => {
+		const path = `$.tables[${t}]`;
+		checkDuplicates(table.columns, (c) => c.name, `${path}.columns`, "column", errors);
+		table.columns.forEach((column, c) => checkColumn(column, `${path}.columns[${c}]`));
+
+		// Helper columns are spread into the table, so their names must not collide with its own columns or each other
+		const owners = new Map<string, string>(table.columns.map((column) => [column.name, `table '${table.name}'`]));
+		(table.helperReferences ?? []).forEach((name, i) => {
+			const helper: HelperDefinition | undefined = helpers.find((h) => h.name === name);
+			if (!helper) {
+				errors.push({ path: `${path}.helperReferences[${i}]`, message: `Helper '${name}' is not defined` });
+				return;
+			}
+			for (const column of helper.columns) {
+				const owner = owners.get(column.name);
+				if (owner) {
+					errors.push({ path: `${path}.helperReferences[${i}]`, message: `Column '${column.name}' of helper '${name}' is already defined by ${owner}` });
+				} else {
+					owners.set(column.name, `helper '${name}'`);
+				}
+			}
+		});
+
+		const checkColumnNames = (columns: string[], columnsPath: string) => {
+			columns.forEach((column, i) => {
+				if (!owners.has(column)) {
+					errors.push({ path: `${columnsPath}[${i}]`, message: `Column '${column}' is not defined in table '${table.name}'` });
+				}
+			});
+		};
+
+		checkColumnNames(table.compositePrimaryKey ?? [], `${path}.compositePrimaryKey`);
+		(table.indexes ?? []).forEach((index, i) => checkColumnNames(index.columns, `${path}.indexes[${i}].columns`));
+		(table.uniqueConstraints ?? []).forEach((unique, i) => checkColumnNames(unique.columns, `${path}.uniqueConstraints[${i}].columns`));
+	});
+
+	if (typeof config.relations === "object") {
+		(config.relations.overrides ?? []).forEach((override, i) => {
+			checkReference({ table: override.table, column: override.column }, `$.relations.overrides[${i}]`);
+		});
+		(config.relations.manyToMany ?? []).forEach((junction, i) => {
+			const path = `$.relations.manyToMany[${i}]`;
+			if (!tables.some((t) => t.name.toLowerCase() === junction.through)) {
+				errors.push({ path: `${path}.through`, message: `Junction table '${junction.through}' is not defined` });
+			}
+			checkReference(junction.left.references, `${path}.left.references`);
+			checkReference(junction.right.references, `${path}.right.references`);
+		});
+	}
+
+	return errors;
+}
+
+/**
+ * Report items whose key was already used by an earlier item of the same list
+ */
+function checkDuplicates<T>(items: T[], key: (item: T) => string, path: string, kind: string, errors: ConfigValidationError[]): void {
+	const seen = new Map<string, number>();
+
+	items.forEach((item, i) => {
+		const value = key(item);
+		const first = seen.get(value);
+		if (first === undefined) {
+			seen.set(value, i);
+		} else {
+			errors.push({ path: `${path}[${i}]`, message: `Duplicate ${kind} name '${value}', first declared at ${path}[${first}]` });
+		}
+	});
+}
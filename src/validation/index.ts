@@ -0,0 +1,3 @@
+export * from "./ConfigSchema.js";
+export * from "./ConfigValidator.js";
+export * from "./SemanticValidator.js";
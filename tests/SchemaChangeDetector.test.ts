@@ -3,8 +3,10 @@ import { join } from "path";
 import { promises as fs } from "fs";
 import { tmpdir } from "os";
 import { SchemaChangeDetector } from "../src/generators/SchemaChangeDetector.js";
+import { generateProject } from "../src/generators/ProjectGenerator.js";
 import { SchemaChangeCategory, SchemaChangeImpact } from "../src/definitions/SchemaReaderResult.js";
-import { ProjectGeneratorConfig } from "../src/definitions/index.js";
+import { ColumnDefinition, ProjectGeneratorConfig } from "../src/definitions/index.js";
+import { MemorySink } from "../src/output/index.js";
 
 describe("SchemaChangeDetector", () => {
 	let detector: SchemaChangeDetector;
@@ -454,6 +456,228 @@ describe("SchemaChangeDetector", () => {
 			expect(comparison.changes[0].details.to).toBe("number");
 		});
 
+		it("should detect time zone switches as breaking type changes", async () => {
+			const schema = (withTimezone?: boolean): ProjectGeneratorConfig => ({
+				outputDir: tempDir,
+				tables: [{ name: "Events", columns: [{ name: "happened_at", type: "date", options: { precision: 3, withTimezone } }] }],
+			});
+
+			const comparison = await detector.compareSchemas(schema(), schema(true));
+
+			expect(comparison.changes).toHaveLength(1);
+			expect(comparison.changes[0].type).toBe("column_type_changed");
+			expect(comparison.changes[0].impact).toBe(SchemaChangeImpact.BREAKING);
+			expect(comparison.changes[0].description).toBe("Changed column 'happened_at' type from 'date(3)' to 'date(3) with time zone' in table 'Events'");
+
+			await generateProject({ ...schema(), overwrite: true });
+			const result = await detector.applySafeChanges(tempDir, comparison, { allowBreaking: true });
+
+			expect(result.errors).toBeUndefined();
+			expect(await fs.readFile(join(tempDir, "tables", "Events.ts"), "utf-8")).toContain("happened_at: timestamp('happened_at', { precision: 3, withTimezone: true })");
+		});
+
+		it("should detect widened lengths and precisions as safe type changes", async () => {
+			const schema = (price: ColumnDefinition["options"], title: ColumnDefinition["options"]): ProjectGeneratorConfig => ({
+				outputDir: tempDir,
+				tables: [
+					{
+						name: "Products",
+						columns: [
+							{ name: "price", type: "numeric", options: price },
+							{ name: "title", type: "string", options: title },
+						],
+					},
+				],
+			});
+			const current = schema({ precision: 10, scale: 2 }, { length: 50 });
+			const next = schema({ precision: 12, scale: 4 }, { length: 255 });
+
+			const comparison = await detector.compareSchemas(current, next);
+
+			expect(comparison.changes.map((c) => [c.type, c.impact, c.target.column])).toEqual([
+				["column_type_changed", SchemaChangeImpact.SAFE, "price"],
+				["column_type_changed", SchemaChangeImpact.SAFE, "title"],
+			]);
+			expect(comparison.changes[0].description).toBe("Changed column 'price' type from 'numeric(10, 2)' to 'numeric(12, 4)' in table 'Products'");
+			expect(comparison.changes[1].details).toEqual({ from: "string", to: "string", length: { from: 50, to: 255 } });
+
+			await generateProject({ ...current, overwrite: true });
+			const result = await detector.applySafeChanges(tempDir, comparison);
+
+			expect(result.errors).toBeUndefined();
+			const tableFile = await fs.readFile(join(tempDir, "tables", "Products.ts"), "utf-8");
+			expect(tableFile).toContain("price: numeric('price', { precision: 12, scale: 4 })");
+			expect(tableFile).toContain("title: varchar('title', { length: 255 })");
+		});
+
+		it("should detect narrowed lengths, precisions and interval fields as breaking type changes", async () => {
+			const column = (type: string, options: ColumnDefinition["options"]): ProjectGeneratorConfig => ({
+				outputDir: tempDir,
+				tables: [{ name: "Products", columns: [{ name: "value", type, options }] }],
+			});
+			const impact = async (type: string, from: ColumnDefinition["options"], to: ColumnDefinition["options"]) =>
+				(await detector.compareSchemas(column(type, from), column(type, to))).changes.map((c) => c.impact);
+
+			expect(await impact("string", { length: 255 }, { length: 50 })).toEqual([SchemaChangeImpact.BREAKING]);
+			expect(await impact("string", {}, { length: 50 })).toEqual([SchemaChangeImpact.BREAKING]);
+			expect(await impact("numeric", { precision: 10, scale: 2 }, { precision: 10, scale: 4 })).toEqual([SchemaChangeImpact.BREAKING]);
+			expect(await impact("numeric", { precision: 10, scale: 2 }, { precision: 12, scale: 1 })).toEqual([SchemaChangeImpact.BREAKING]);
+			expect(await impact("numeric", {}, { precision: 20 })).toEqual([SchemaChangeImpact.BREAKING]);
+			expect(await impact("date", { precision: 6 }, { precision: 3 })).toEqual([SchemaChangeImpact.BREAKING]);
+			expect(await impact("interval", {}, { fields: "day" })).toEqual([SchemaChangeImpact.BREAKING]);
+			expect(await impact("numeric", { precision: 20 }, {})).toEqual([SchemaChangeImpact.SAFE]);
+			expect(await impact("interval", { fields: "day" }, {})).toEqual([SchemaChangeImpact.SAFE]);
+		});
+
+		it("should detect array switches as breaking type changes", async () => {
+			const schema = (array?: boolean | number): ProjectGeneratorConfig => ({
+				outputDir: tempDir,
+				tables: [{ name: "Posts", columns: [{ name: "tags", type: "text", options: { array } }] }],
+			});
+
+			const comparison = await detector.compareSchemas(schema(true), schema(2));
+
+			expect(comparison.changes.map((change) => change.description)).toEqual(["Changed column 'tags' type from 'text[]' to 'text[][]' in table 'Posts'"]);
+			expect(comparison.changes[0].impact).toBe(SchemaChangeImpact.BREAKING);
+			expect((await detector.compareSchemas(schema(true), schema(1))).changes).toEqual([]);
+		});
+
+		it("should detect referential action changes", async () => {
+			const postsTable = (onDelete?: "cascade" | "restrict" | "set default") => ({
+				outputDir: tempDir,
+				tables: [
+					{
+						name: "posts",
+						columns: [
+							{
+								name: "authorId",
+								type: "number",
+								options: { references: { table: "users", column: "id", onDelete } },
+							},
+						],
+					},
+				],
+			});
+
+			const comparison = await detector.compareSchemas(postsTable("restrict"), postsTable("cascade"));
+
+			expect(comparison.changes).toHaveLength(1);
+			expect(comparison.changes[0].type).toBe("column_references_changed");
+			expect(comparison.changes[0].impact).toBe(SchemaChangeImpact.WARNING);
+			expect(comparison.changes[0].details.to.onDelete).toBe("cascade");
+		
+			const setDefault = await detector.compareSchemas(postsTable("cascade"), postsTable("set default"));
+
+			expect(setDefault.changes.map((change) => change.type)).toEqual(["column_references_changed"]);
+			expect(setDefault.changes[0].details.to.onDelete).toBe("set default");
+		});
+
+		it("should detect reference target changes as breaking", async () => {
+			const currentSchema: ProjectGeneratorConfig = {
+				outputDir: tempDir,
+				tables: [
+					{
+						name: "posts",
+						columns: [{ name: "ownerId", type: "number", options: { references: { table: "users", column: "id" } } }],
+					},
+				],
+			};
+			const newSchema: ProjectGeneratorConfig = {
+				outputDir: tempDir,
+				tables: [
+					{
+						name: "posts",
+						columns: [{ name: "ownerId", type: "number", options: { references: { table: "teams", column: "id" } } }],
+					},
+				],
+			};
+
+			const comparison = await detector.compareSchemas(currentSchema, newSchema);
+
+			expect(comparison.changes).toHaveLength(1);
+			expect(comparison.changes[0].type).toBe("column_references_changed");
+			expect(comparison.changes[0].impact).toBe(SchemaChangeImpact.BREAKING);
+		});
+
+		it("should detect added and removed indexes", async () => {
+			const usersTable = (indexes: any[]): ProjectGeneratorConfig => ({
+				outputDir: tempDir,
+				tables: [
+					{
+						name: "users",
+						columns: [
+							{ name: "email", type: "string" },
+							{ name: "name", type: "string" },
+						],
+						indexes,
+					},
+				],
+			});
+
+			const comparison = await detector.compareSchemas(
+				usersTable([{ name: "users_name_idx", columns: ["name"] }]),
+				usersTable([{ name: "users_email_idx", columns: ["email"], unique: true }])
+			);
+
+			expect(comparison.changes).toHaveLength(2);
+			const removed = comparison.changes.find((c) => c.type === "index_removed");
+			const added = comparison.changes.find((c) => c.type === "index_added");
+			expect(removed?.impact).toBe(SchemaChangeImpact.SAFE);
+			expect(removed?.details.index.name).toBe("users_name_idx");
+			expect(added?.impact).toBe(SchemaChangeImpact.WARNING);
+			expect(added?.details.index.name).toBe("users_email_idx");
+		});
+
+		it("should detect added unique constraints as warnings", async () => {
+			const currentSchema: ProjectGeneratorConfig = {
+				outputDir: tempDir,
+				tables: [
+					{
+						name: "users",
+						columns: [{ name: "email", type: "string" }],
+					},
+				],
+			};
+			const newSchema: ProjectGeneratorConfig = {
+				outputDir: tempDir,
+				tables: [
+					{
+						name: "users",
+						columns: [{ name: "email", type: "string", options: { unique: true } }],
+						uniqueConstraints: [{ name: "users_email_unique", columns: ["email"] }],
+					},
+				],
+			};
+
+			const comparison = await detector.compareSchemas(currentSchema, newSchema);
+
+			expect(comparison.changes.map((c) => c.type)).toEqual(["column_unique_changed", "unique_constraint_added"]);
+			expect(comparison.changes.every((c) => c.impact === SchemaChangeImpact.WARNING)).toBe(true);
+			expect(comparison.recommendations.some((r) => r.includes("duplicates"))).toBe(true);
+		});
+
+		it("should detect added, removed and modified check constraints", async () => {
+			const productsTable = (checks: any[]): ProjectGeneratorConfig => ({
+				outputDir: tempDir,
+				tables: [{ name: "products", columns: [{ name: "price", type: "number" }], checks }],
+			});
+
+			const comparison = await detector.compareSchemas(
+				productsTable([
+					{ name: "products_price_check", expression: "price >= 0" },
+					{ name: "products_legacy_check", expression: "price < 100" },
+				]),
+				productsTable([
+					{ name: "products_price_check", expression: "price > 0" },
+					{ name: "products_stock_check", expression: "stock >= 0" },
+				])
+			);
+
+			expect(comparison.changes.map((c) => c.type)).toEqual(["check_constraint_added", "check_constraint_removed", "check_constraint_modified"]);
+			expect(comparison.changes.map((c) => c.impact)).toEqual([SchemaChangeImpact.WARNING, SchemaChangeImpact.SAFE, SchemaChangeImpact.WARNING]);
+			expect(comparison.changes[2].details).toEqual({ name: "products_price_check", from: "price >= 0", to: "price > 0" });
+		});
+
 		it("should generate proper recommendations", async () => {
 			const currentSchema: ProjectGeneratorConfig = {
 				outputDir: tempDir,
@@ -497,6 +721,91 @@ describe("SchemaChangeDetector", () => {
 		});
 	});
 
+	describe("rename detection", () => {
+		const usersTable = (columns: any[]) => ({ name: "Users", columns: [{ name: "id", type: "serial", options: { primaryKey: true } }, ...columns] });
+
+		it("should detect a renamed column with the same definition", async () => {
+			const currentSchema: ProjectGeneratorConfig = { outputDir: tempDir, tables: [usersTable([{ name: "mail", type: "string", options: { length: 255, notNull: true } }])] };
+			const newSchema: ProjectGeneratorConfig = { outputDir: tempDir, tables: [usersTable([{ name: "email", type: "string", options: { notNull: true, length: 255 } }])] };
+
+			const comparison = await detector.compareSchemas(currentSchema, newSchema);
+
+			expect(comparison.changes).toHaveLength(1);
+			expect(comparison.changes[0]).toMatchObject({
+				type: "column_renamed",
+				impact: SchemaChangeImpact.WARNING,
+				target: { type: "table", name: "Users", column: "email" },
+				details: { from: "mail", to: "email" },
+			});
+		});
+
+		it("should not guess a rename when definitions differ", async () => {
+			const currentSchema: ProjectGeneratorConfig = { outputDir: tempDir, tables: [usersTable([{ name: "mail", type: "string" }])] };
+			const newSchema: ProjectGeneratorConfig = { outputDir: tempDir, tables: [usersTable([{ name: "email", type: "text" }])] };
+
+			const comparison = await detector.compareSchemas(currentSchema, newSchema);
+
+			expect(comparison.changes.map((c) => c.type)).toEqual(["table_column_added", "table_column_removed"]);
+		});
+
+		it("should not guess renames when disabled", async () => {
+			const currentSchema: ProjectGeneratorConfig = { outputDir: tempDir, tables: [usersTable([{ name: "mail", type: "string" }])] };
+			const newSchema: ProjectGeneratorConfig = { outputDir: tempDir, tables: [usersTable([{ name: "email", type: "string" }])] };
+
+			const comparison = await detector.compareSchemas(currentSchema, newSchema, { detectRenames: false });
+
+			expect(comparison.changes.map((c) => c.type)).toEqual(["table_column_added", "table_column_removed"]);
+		});
+
+		it("should use rename hints for columns with changed definitions", async () => {
+			const currentSchema: ProjectGeneratorConfig = { outputDir: tempDir, tables: [usersTable([{ name: "mail", type: "string" }, { name: "nick", type: "string" }])] };
+			const newSchema: ProjectGeneratorConfig = { outputDir: tempDir, tables: [usersTable([{ name: "email", type: "string", options: { notNull: true } }, { name: "nickname", type: "string" }])] };
+
+			const comparison = await detector.compareSchemas(currentSchema, newSchema, { renames: { columns: { Users: { mail: "email", nick: "nickname" } } } });
+
+			expect(comparison.changes.map((c) => c.type)).toEqual(["column_renamed", "column_not_null_changed", "column_renamed"]);
+			expect(comparison.canApply.withBreaking).toBe(false);
+		});
+
+		it("should rename tables only through hints", async () => {
+			const currentSchema: ProjectGeneratorConfig = { outputDir: tempDir, tables: [{ name: "Customers", columns: [{ name: "id", type: "serial" }] }] };
+			const newSchema: ProjectGeneratorConfig = { outputDir: tempDir, tables: [{ name: "Clients", columns: [{ name: "id", type: "serial" }, { name: "name", type: "text" }] }] };
+
+			const guessed = await detector.compareSchemas(currentSchema, newSchema);
+			expect(guessed.changes.map((c) => c.type)).toEqual(["table_added", "table_removed"]);
+
+			const hinted = await detector.compareSchemas(currentSchema, newSchema, { renames: { tables: { Customers: "Clients" } } });
+			expect(hinted.changes.map((c) => c.type)).toEqual(["table_renamed", "table_column_added"]);
+			expect(hinted.changes[0]).toMatchObject({ impact: SchemaChangeImpact.WARNING, target: { name: "Clients" }, details: { from: "Customers", to: "Clients" } });
+		});
+
+		it("should rename enum values only through hints", async () => {
+			const currentSchema: ProjectGeneratorConfig = { outputDir: tempDir, enums: [{ name: "Status", values: ["active", "disabled", "old"] }] };
+			const newSchema: ProjectGeneratorConfig = { outputDir: tempDir, enums: [{ name: "Status", values: ["active", "inactive", "legacy"] }] };
+
+			const comparison = await detector.compareSchemas(currentSchema, newSchema, { renames: { enumValues: { Status: { disabled: "inactive" } } } });
+
+			expect(comparison.changes.map((c) => [c.type, c.details])).toEqual([
+				["enum_value_renamed", { from: "disabled", to: "inactive" }],
+				["enum_value_added", { value: "legacy" }],
+				["enum_value_removed", { value: "old" }],
+			]);
+		});
+
+		it("should keep an unhinted replaced enum value as a breaking removal", async () => {
+			const currentSchema: ProjectGeneratorConfig = { outputDir: tempDir, enums: [{ name: "Status", values: ["a", "b"] }] };
+			const newSchema: ProjectGeneratorConfig = { outputDir: tempDir, enums: [{ name: "Status", values: ["a", "c"] }] };
+
+			const comparison = await detector.compareSchemas(currentSchema, newSchema);
+
+			expect(comparison.changes.map((c) => [c.type, c.impact, c.details])).toEqual([
+				["enum_value_added", SchemaChangeImpact.SAFE, { value: "c" }],
+				["enum_value_removed", SchemaChangeImpact.BREAKING, { value: "b" }],
+			]);
+			expect(comparison.canApply.withBreaking).toBe(true);
+		});
+	});
+
 	describe("applySafeChanges", () => {
 		it("should apply only safe changes by default", async () => {
 			const comparison = {
@@ -608,5 +917,283 @@ describe("SchemaChangeDetector", () => {
 			expect(result.rejected).toHaveLength(0);
 			expect(result.applied[0].impact).toBe(SchemaChangeImpact.BREAKING);
 		});
+
+		it("should regenerate only the files affected by applied changes", async () => {
+			const currentSchema: ProjectGeneratorConfig = {
+				outputDir: tempDir,
+				overwrite: true,
+				enums: [{ name: "Status", values: ["active", "inactive"] }],
+				tables: [
+					{
+						name: "Users",
+						columns: [
+							{ name: "id", type: "serial", options: { primaryKey: true } },
+							{ name: "email", type: "string", options: { length: 255 } },
+						],
+					},
+					{
+						name: "Posts",
+						columns: [{ name: "id", type: "serial", options: { primaryKey: true } }],
+					},
+				],
+			};
+			await generateProject(currentSchema);
+			const postsBefore = await fs.readFile(join(tempDir, "tables", "Posts.ts"), "utf-8");
+
+			const newSchema: ProjectGeneratorConfig = {
+				...currentSchema,
+				enums: [{ name: "Status", values: ["active", "inactive", "banned"] }],
+				tables: [
+					{
+						name: "Users",
+						columns: [
+							{ name: "id", type: "serial", options: { primaryKey: true } },
+							{ name: "email", type: "string", options: { length: 255 } },
+							{ name: "name", type: "string", options: { length: 100 } },
+						],
+					},
+					{
+						name: "Posts",
+						columns: [{ name: "title", type: "string", options: { length: 200 } }],
+					},
+				],
+			};
+
+			const comparison = await detector.compareSchemas(currentSchema, newSchema);
+			const result = await detector.applySafeChanges(tempDir, comparison);
+
+			expect(result.errors).toBeUndefined();
+			expect(result.files.sort()).toEqual([join(tempDir, "enums", "Status.ts"), join(tempDir, "tables", "Posts.ts"), join(tempDir, "tables", "Users.ts")]);
+			expect(result.rejected.map((c) => c.type)).toEqual(["table_column_removed"]);
+
+			const enumFile = await fs.readFile(join(tempDir, "enums", "Status.ts"), "utf-8");
+			expect(enumFile).toContain("['Active', 'Inactive', 'Banned']");
+
+			const usersFile = await fs.readFile(join(tempDir, "tables", "Users.ts"), "utf-8");
+			expect(usersFile).toContain("name: varchar('name', { length: 100 })");
+
+			// The breaking removal of 'id' was rejected, so only the new column is added
+			const postsFile = await fs.readFile(join(tempDir, "tables", "Posts.ts"), "utf-8");
+			expect(postsFile).not.toBe(postsBefore);
+			expect(postsFile).toContain("id: serial('id').primaryKey()");
+			expect(postsFile).toContain("title: varchar('title', { length: 200 })");
+		});
+
+		it("should add and remove files and rewrite index files", async () => {
+			const currentSchema: ProjectGeneratorConfig = {
+				outputDir: tempDir,
+				overwrite: true,
+				tables: [
+					{ name: "Users", columns: [{ name: "id", type: "serial" }] },
+					{ name: "Legacy", columns: [{ name: "id", type: "serial" }] },
+				],
+			};
+			await generateProject(currentSchema);
+
+			const newSchema: ProjectGeneratorConfig = {
+				...currentSchema,
+				tables: [
+					{ name: "Users", columns: [{ name: "id", type: "serial" }] },
+					{ name: "Posts", columns: [{ name: "id", type: "serial" }] },
+				],
+			};
+
+			const comparison = await detector.compareSchemas(currentSchema, newSchema);
+			const result = await detector.applySafeChanges(tempDir, comparison, { allowBreaking: true });
+
+			expect(result.errors).toBeUndefined();
+			expect(result.files).toContain(join(tempDir, "tables", "Legacy.ts"));
+			expect(result.files).toContain(join(tempDir, "tables", "Posts.ts"));
+			expect(result.files).not.toContain(join(tempDir, "tables", "Users.ts"));
+			await expect(fs.access(join(tempDir, "tables", "Legacy.ts"))).rejects.toThrow();
+
+			const tablesIndex = await fs.readFile(join(tempDir, "tables", "index.ts"), "utf-8");
+			expect(tablesIndex).toBe("export * from './Users.js';\nexport * from './Posts.js';\n");
+		});
+
+		it("should report an error when the project cannot be read", async () => {
+			const comparison = await detector.compareSchemas(
+				{ outputDir: tempDir },
+				{ outputDir: tempDir, enums: [{ name: "Status", values: ["active"] }] }
+			);
+
+			const result = await detector.applySafeChanges(join(tempDir, "missing"), comparison);
+
+			expect(result.files).toEqual([]);
+			expect(result.errors?.length).toBeGreaterThan(0);
+		});
+
+		it("should apply renamed tables and columns to the project files", async () => {
+			const currentSchema: ProjectGeneratorConfig = {
+				outputDir: tempDir,
+				overwrite: true,
+				tables: [
+					{ name: "Customers", columns: [{ name: "id", type: "serial", options: { primaryKey: true } }, { name: "mail", type: "text" }] },
+					{ name: "Orders", columns: [{ name: "customerId", type: "number", options: { references: { table: "customers", column: "id" } } }] },
+				],
+			};
+			await generateProject(currentSchema);
+
+			const newSchema: ProjectGeneratorConfig = {
+				...currentSchema,
+				tables: [
+					{ name: "Clients", columns: [{ name: "id", type: "serial", options: { primaryKey: true } }, { name: "email", type: "text" }] },
+					{ name: "Orders", columns: [{ name: "customerId", type: "number", options: { references: { table: "clients", column: "id" } } }] },
+				],
+			};
+
+			const comparison = await detector.compareSchemas(currentSchema, newSchema, { renames: { tables: { Customers: "Clients" } } });
+			const result = await detector.applySafeChanges(tempDir, comparison, { allowWarning: true });
+
+			expect(result.errors).toBeUndefined();
+			await expect(fs.access(join(tempDir, "tables", "Customers.ts"))).rejects.toThrow();
+
+			const clientsFile = await fs.readFile(join(tempDir, "tables", "Clients.ts"), "utf-8");
+			expect(clientsFile).toContain("export const clients = pgTable('clients', {");
+			expect(clientsFile).toContain("email: text('email')");
+
+			const ordersFile = await fs.readFile(join(tempDir, "tables", "Orders.ts"), "utf-8");
+			expect(ordersFile).toContain(".references(() => clients.id)");
+		});
+
+		it("should rewrite keys, indexes and references of every table using a renamed column", async () => {
+			const schema = (externalId: string, code: string): ProjectGeneratorConfig => ({
+				outputDir: tempDir,
+				overwrite: true,
+				helpers: [{ name: "Identified", columns: [{ name: externalId, type: "uuid", options: { unique: true } }] }],
+				tables: [
+					{
+						name: "Users",
+						helperReferences: ["Identified"],
+						columns: [{ name: code, type: "string", options: { length: 8, unique: true } }],
+						indexes: [{ name: "users_external_idx", columns: [externalId] }],
+						uniqueConstraints: [{ name: "users_code_external_key", columns: [code, externalId] }],
+					},
+					{
+						name: "Orders",
+						columns: [
+							{ name: "userExternalId", type: "uuid", options: { references: { table: "users", column: externalId } } },
+							{ name: "userCode", type: "string", options: { length: 8, references: { table: "users", column: code } } },
+						],
+					},
+				],
+			});
+			const currentSchema = schema("externalId", "code");
+			await generateProject(currentSchema);
+
+			// Only the renames are applied, so the other tables follow them on their own
+			const comparison = await detector.compareSchemas(currentSchema, schema("publicId", "handle"), {
+				renames: { columns: { Identified: { externalId: "publicId" }, Users: { code: "handle" } } },
+			});
+			const renames = comparison.changes.filter((c) => c.type === "column_renamed");
+			const result = await detector.applySafeChanges(tempDir, { ...comparison, changes: renames }, { allowBreaking: true, allowWarning: true });
+
+			expect(renames).toHaveLength(2);
+			expect(result.errors).toBeUndefined();
+			const usersFile = await fs.readFile(join(tempDir, "tables", "Users.ts"), "utf-8");
+			expect(usersFile).toContain("index('users_external_idx').on(users.publicId)");
+			expect(usersFile).toContain("unique('users_code_external_key').on(users.handle, users.publicId)");
+			const ordersFile = await fs.readFile(join(tempDir, "tables", "Orders.ts"), "utf-8");
+			expect(ordersFile).toContain(".references(() => users.publicId)");
+			expect(ordersFile).toContain(".references(() => users.handle)");
+			expect(ordersFile).not.toContain("externalId)");
+		});
+
+		it("should apply a modified check constraint by its name", async () => {
+			const productsTable = (checks: any[]): ProjectGeneratorConfig => ({
+				outputDir: tempDir,
+				overwrite: true,
+				tables: [{ name: "Products", columns: [{ name: "price", type: "number" }], checks }],
+			});
+			const currentSchema = productsTable([
+				{ name: "products_price_check", expression: "price >= 0" },
+				{ name: "products_cost_check", expression: "price >= 0" },
+			]);
+			await generateProject(currentSchema);
+
+			const comparison = await detector.compareSchemas(
+				currentSchema,
+				productsTable([
+					{ name: "products_price_check", expression: "price > 0" },
+					{ name: "products_cost_check", expression: "price >= 0" },
+				])
+			);
+			const result = await detector.applySafeChanges(tempDir, comparison, { allowWarning: true });
+
+			expect(result.errors).toBeUndefined();
+			const productsFile = await fs.readFile(join(tempDir, "tables", "Products.ts"), "utf-8");
+			expect(productsFile).toContain("check('products_price_check', sql`price > 0`)");
+			expect(productsFile).toContain("check('products_cost_check', sql`price >= 0`)");
+		});
+
+		describe("removed files", () => {
+			const currentSchema = (): ProjectGeneratorConfig => ({
+				outputDir: tempDir,
+				overwrite: true,
+				tables: [
+					{ name: "Users", columns: [{ name: "id", type: "serial", options: { primaryKey: true } }] },
+					{ name: "Legacy", columns: [{ name: "id", type: "serial" }] },
+				],
+			});
+			const removeLegacy = () => detector.compareSchemas(currentSchema(), { ...currentSchema(), tables: [currentSchema().tables![0]] });
+
+			it("should delete the files of removed tables through the given sink", async () => {
+				await generateProject(currentSchema());
+				const sink = new MemorySink();
+
+				const result = await detector.applySafeChanges(tempDir, await removeLegacy(), { allowBreaking: true, sink });
+
+				expect(result.errors).toBeUndefined();
+				expect(await fs.readFile(join(tempDir, "tables", "Legacy.ts"), "utf-8")).toContain("pgTable('legacy'");
+				expect(sink.toObject()[join(tempDir, "tables", "index.ts")]).toBe("export * from './Users.js';\n");
+			});
+
+			it("should keep removed table files edited by hand or holding custom regions", async () => {
+				await generateProject(currentSchema());
+				const legacyPath = join(tempDir, "tables", "Legacy.ts");
+				await fs.appendFile(legacyPath, "export const custom = 1;\n");
+
+				const edited = await detector.applySafeChanges(tempDir, await removeLegacy(), { allowBreaking: true });
+
+				expect(edited.files).not.toContain(legacyPath);
+				expect(await fs.readFile(legacyPath, "utf-8")).toContain("export const custom = 1;");
+
+				await fs.rm(tempDir, { recursive: true, force: true });
+				await generateProject(currentSchema());
+				await fs.appendFile(legacyPath, "// @drizzle-gen:begin-custom\nexport const custom = 1;\n// @drizzle-gen:end-custom\n");
+
+				await detector.applySafeChanges(tempDir, await removeLegacy(), { allowBreaking: true });
+
+				expect(await fs.readFile(legacyPath, "utf-8")).toContain("export const custom = 1;");
+			});
+		});
+
+		it("should regenerate the relations of a project generated with relations", async () => {
+			const currentSchema: ProjectGeneratorConfig = {
+				outputDir: tempDir,
+				overwrite: true,
+				relations: true,
+				tables: [
+					{ name: "Users", columns: [{ name: "id", type: "serial", options: { primaryKey: true } }] },
+					{ name: "Posts", columns: [{ name: "id", type: "serial", options: { primaryKey: true } }, { name: "authorId", type: "number", options: { references: { table: "users", column: "id" } } }] },
+				],
+			};
+			await generateProject(currentSchema);
+
+			const newSchema: ProjectGeneratorConfig = {
+				...currentSchema,
+				tables: [
+					...currentSchema.tables!,
+					{ name: "Comments", columns: [{ name: "id", type: "serial", options: { primaryKey: true } }, { name: "postId", type: "number", options: { references: { table: "posts", column: "id" } } }] },
+				],
+			};
+
+			const result = await detector.applySafeChanges(tempDir, await detector.compareSchemas(currentSchema, newSchema));
+
+			expect(result.errors).toBeUndefined();
+			expect(await fs.readFile(join(tempDir, "relations", "Comments.ts"), "utf-8")).toContain("export const commentsRelations = relations(comments");
+			expect(await fs.readFile(join(tempDir, "relations", "Posts.ts"), "utf-8")).toContain("comments: many(comments)");
+			expect(await fs.readFile(join(tempDir, "relations", "index.ts"), "utf-8")).toContain("export * from './Comments.js';");
+		});
 	});
 });
@@ -4,7 +4,9 @@ import { promises as fs } from "fs";
 import { tmpdir } from "os";
 import { SchemaReader } from "../src/generators/SchemaReader.js";
 import { generateProject } from "../src/generators/ProjectGenerator.js";
-import { ProjectGeneratorConfig } from "../src/definitions/index.js";
+import { SchemaChangeDetector } from "../src/generators/SchemaChangeDetector.js";
+import { getDialect } from "../src/dialects/index.js";
+import { ColumnDefinition, ProjectGeneratorConfig } from "../src/definitions/index.js";
 
 describe("SchemaReader", () => {
 	let tempDir: string;
@@ -153,6 +155,131 @@ describe("SchemaReader", () => {
 			expect(readTable?.compositePrimaryKey).toEqual(["userId", "roleId"]);
 		});
 
+		it("should read referential actions on references", async () => {
+			const config: ProjectGeneratorConfig = {
+				outputDir: testProjectPath,
+				tables: [
+					{
+						name: "posts",
+						columns: [
+							{
+								name: "authorId",
+								type: "number",
+								options: {
+									notNull: true,
+									references: { table: "users", column: "id", onDelete: "set null" },
+								},
+							},
+						],
+					},
+					{ name: "users", columns: [{ name: "id", type: "serial", options: { primaryKey: true } }] },
+				],
+				overwrite: true,
+			};
+
+			await generateProject(config);
+
+			const result = await new SchemaReader(testProjectPath).readSchema();
+
+			expect(result.success).toBe(true);
+			expect(result.schema?.tables?.[0].columns[0].options?.references).toEqual({
+				table: "users",
+				column: "id",
+				onDelete: "set null",
+			});
+		});
+
+		it("should read indexes from the table config callback", async () => {
+			const indexes = [
+				{ name: "posts_slug_idx", columns: ["slug"], unique: true },
+				{ name: "posts_published_idx", columns: ["authorId", "publishedAt"], where: "published_at is not null" },
+				{ name: "posts_meta_idx", columns: ["meta"], method: "gin" },
+			];
+			const config: ProjectGeneratorConfig = {
+				outputDir: testProjectPath,
+				tables: [
+					{
+						name: "posts",
+						columns: [
+							{ name: "slug", type: "string" },
+							{ name: "authorId", type: "number" },
+							{ name: "publishedAt", type: "date" },
+							{ name: "meta", type: "json" },
+						],
+						indexes,
+					},
+				],
+				overwrite: true,
+			};
+
+			await generateProject(config);
+
+			const result = await new SchemaReader(testProjectPath).readSchema();
+
+			expect(result.success).toBe(true);
+			expect(result.schema?.tables?.[0].indexes).toEqual(indexes);
+		});
+
+		it("should read column and table unique constraints", async () => {
+			const config: ProjectGeneratorConfig = {
+				outputDir: testProjectPath,
+				tables: [
+					{
+						name: "members",
+						columns: [
+							{ name: "tenantId", type: "number" },
+							{ name: "slug", type: "string", options: { unique: true } },
+						],
+						uniqueConstraints: [{ name: "members_tenant_slug_unique", columns: ["tenantId", "slug"] }],
+					},
+				],
+				overwrite: true,
+			};
+
+			await generateProject(config);
+
+			const result = await new SchemaReader(testProjectPath).readSchema();
+			const table = result.schema?.tables?.[0];
+
+			expect(result.success).toBe(true);
+			expect(table?.columns[1].options).toEqual({ unique: true });
+			expect(table?.uniqueConstraints).toEqual(config.tables![0].uniqueConstraints);
+		});
+
+		it("should read check constraints", async () => {
+			const checks = [{ name: "products_price_check", expression: "price >= 0 AND price < 1000000" }];
+			const config: ProjectGeneratorConfig = {
+				outputDir: testProjectPath,
+				tables: [{ name: "products", columns: [{ name: "price", type: "number" }], checks }],
+				overwrite: true,
+			};
+
+			await generateProject(config);
+
+			const result = await new SchemaReader(testProjectPath).readSchema();
+
+			expect(result.success).toBe(true);
+			expect(result.schema?.tables?.[0].checks).toEqual(checks);
+		});
+
+		it("should read back check and index expressions with backticks, backslashes and ${", async () => {
+			const checks = [{ name: "products_code_check", expression: "code ~ '^\\d+$' AND code <> '`${x}`'" }];
+			const indexes = [{ name: "products_code_idx", columns: ["code"], where: "code LIKE '%\\_%' ESCAPE '\\'" }];
+			const config: ProjectGeneratorConfig = {
+				outputDir: testProjectPath,
+				tables: [{ name: "products", columns: [{ name: "code", type: "text" }], checks, indexes }],
+				overwrite: true,
+			};
+
+			await generateProject(config);
+
+			const result = await new SchemaReader(testProjectPath).readSchema();
+
+			expect(result.errors).toBeUndefined();
+			expect(result.schema?.tables?.[0].checks).toEqual(checks);
+			expect(result.schema?.tables?.[0].indexes).toEqual(indexes);
+		});
+
 		it("should handle helper with various column types", async () => {
 			const config: ProjectGeneratorConfig = {
 				outputDir: testProjectPath,
@@ -200,6 +327,37 @@ describe("SchemaReader", () => {
 			expect(boolField?.options?.default).toBe(false);
 		});
 
+		it("should read back every PostgreSQL type with its options", async () => {
+			const columns: ColumnDefinition[] = [
+				{ name: "id", type: "bigserial", options: { primaryKey: true } },
+				{ name: "rank", type: "smallint" },
+				{ name: "seq", type: "smallserial" },
+				{ name: "price", type: "numeric", options: { precision: 10, scale: 2 } },
+				{ name: "rate", type: "decimal", options: { precision: 5 } },
+				{ name: "ratio", type: "real" },
+				{ name: "score", type: "double" },
+				{ name: "code", type: "char", options: { length: 2 } },
+				{ name: "born_on", type: "dateonly" },
+				{ name: "opens_at", type: "time", options: { precision: 3 } },
+				{ name: "ttl", type: "interval", options: { fields: "day to second" } },
+				{ name: "ip", type: "inet" },
+				{ name: "network", type: "cidr" },
+				{ name: "mac", type: "macaddr" },
+				{ name: "avatar", type: "bytea", options: { notNull: true } },
+				{ name: "payload", type: "plainjson" },
+				{ name: "document", type: "json" },
+				{ name: "created_at", type: "date", options: { precision: 6, withTimezone: true, mode: "string" } },
+				{ name: "tags", type: "text", options: { array: true, notNull: true, default: "sql`'{}'::text[]`" } },
+				{ name: "grid", type: "number", options: { array: 2 } },
+			];
+
+			await generateProject({ outputDir: testProjectPath, overwrite: true, tables: [{ name: "Devices", columns }] });
+			const result = await new SchemaReader(testProjectPath).readSchema();
+
+			expect(result.errors).toBeUndefined();
+			expect(result.schema?.tables?.[0].columns).toEqual(columns);
+		});
+
 		it("should handle empty project correctly", async () => {
 			const config: ProjectGeneratorConfig = {
 				outputDir: testProjectPath,
@@ -240,6 +398,381 @@ describe("SchemaReader", () => {
 		});
 	});
 
+	describe("custom regions", () => {
+		it("should keep custom regions across regeneration and ignore them when reading", async () => {
+			const config: ProjectGeneratorConfig = {
+				outputDir: testProjectPath,
+				overwrite: true,
+				tables: [{ name: "Users", columns: [{ name: "id", type: "serial", options: { primaryKey: true } }] }],
+			};
+			await generateProject(config);
+
+			const tablePath = join(testProjectPath, "tables", "Users.ts");
+			const custom = `
+// @drizzle-gen:begin-custom
+export type User = typeof users.$inferSelect;
+export const auditLog = pgTable('audit_log', { id: serial('id') });
+// @drizzle-gen:end-custom
+`;
+			await fs.appendFile(tablePath, custom);
+
+			const columns = [...config.tables![0].columns, { name: "email", type: "text" }];
+			await generateProject({ ...config, tables: [{ name: "Users", columns }] });
+
+			const content = await fs.readFile(tablePath, "utf-8");
+			expect(content).toContain("email: text('email')");
+			expect(content.endsWith(custom)).toBe(true);
+
+			const result = await new SchemaReader(testProjectPath).readSchema();
+			expect(result.errors).toBeUndefined();
+			expect(result.schema?.tables).toEqual([{ name: "Users", columns }]);
+		});
+
+		it("should not regenerate a file with an unterminated custom region", async () => {
+			const config: ProjectGeneratorConfig = { outputDir: testProjectPath, overwrite: true, enums: [{ name: "Status", values: ["active"] }] };
+			await generateProject(config);
+			const enumPath = join(testProjectPath, "enums", "Status.ts");
+			await fs.appendFile(enumPath, "// @drizzle-gen:begin-custom\nexport const labels = {};\n");
+
+			const result = await generateProject({ ...config, enums: [{ name: "Status", values: ["active", "inactive"] }] });
+
+			expect(result.errors).toEqual([`${enumPath}: Custom region starting at line 4 is not closed, file not regenerated`]);
+			expect(await fs.readFile(enumPath, "utf-8")).toContain("export const labels = {};");
+		});
+	});
+
+	describe("hand-edited files", () => {
+		async function writeProject(files: Record<string, string>): Promise<void> {
+			for (const [file, content] of Object.entries(files)) {
+				await fs.mkdir(join(testProjectPath, file, ".."), { recursive: true });
+				await fs.writeFile(join(testProjectPath, file), content);
+			}
+		}
+
+		it("should read reformatted files with double quotes, comments and multi-line chains", async () => {
+			await writeProject({
+				"index.ts": "",
+				"enums/OrderStatus.ts": `import { pgEnum } from "drizzle-orm/pg-core";
+
+// Lifecycle of an order
+export const OrderStatus = pgEnum("order_status", [
+	"Pending",
+	"InTransit", // shipped, not delivered yet
+]);
+`,
+				"helpers/Timestamps.ts": `import { timestamp } from "drizzle-orm/pg-core";
+
+export const Timestamps = {
+	createdAt: timestamp("createdAt").defaultNow().notNull(),
+};
+`,
+				"tables/Orders.ts": `import { index, integer, pgTable, serial, varchar } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import { OrderStatus } from "../enums/index.js";
+import { Timestamps } from "../helpers/index.js";
+import { users } from "./Users.js";
+
+/* Orders placed by users */
+export const orders = pgTable(
+	"orders",
+	{
+		id: serial("id").primaryKey(),
+		code: varchar("code", { length: 32 })
+			.notNull()
+			.unique(),
+		status: OrderStatus("status").default("InTransit"),
+		total: integer("total").default(-1),
+		userId: integer("user_id")
+			.references(() => users.id, {
+				onDelete: "cascade",
+			}),
+		...Timestamps,
+	},
+	(table) => [
+		index("orders_code_idx").on(table.code).where(sql\`total > 0\`),
+	],
+);
+`,
+			});
+
+			const result = await new SchemaReader(testProjectPath).readSchema();
+
+			expect(result.errors).toBeUndefined();
+			expect(result.schema?.enums).toEqual([{ name: "OrderStatus", values: ["pending", "in_transit"] }]);
+			expect(result.schema?.helpers).toEqual([{ name: "Timestamps", columns: [{ name: "createdAt", type: "date", options: { default: "sql.now()", notNull: true } }] }]);
+			expect(result.schema?.tables).toEqual([
+				{
+					name: "Orders",
+					columns: [
+						{ name: "id", type: "serial", options: { primaryKey: true } },
+						{ name: "code", type: "string", options: { length: 32, notNull: true, unique: true } },
+						{ name: "status", options: { enumValues: "OrderStatus", default: "in_transit" } },
+						{ name: "total", type: "number", options: { default: -1 } },
+						{ name: "userId", dbName: "user_id", type: "number", options: { references: { table: "users", column: "id", onDelete: "cascade" } } },
+					],
+					helperReferences: ["Timestamps"],
+					indexes: [{ name: "orders_code_idx", columns: ["code"], where: "total > 0" }],
+				},
+			]);
+		});
+
+		it("should report the file, line and column of parse errors", async () => {
+			await writeProject({
+				"index.ts": "",
+				"tables/Users.ts": `import { pgTable, varchar } from "drizzle-orm/pg-core";
+
+export const users = pgTable("users", {
+	email: varchar("email"),
+	name: "not a column",
+});
+`,
+				"tables/Posts.ts": `export const posts = pgTable("posts", {
+	title: text("title"
+});
+`,
+			});
+
+			const result = await new SchemaReader(testProjectPath).readSchema();
+
+			expect(result.success).toBe(false);
+			expect(result.errors).toContain(`${join("tables", "Users.ts")}:5:2 - Could not parse column 'name': expected a column builder call`);
+			expect(result.errors?.some((e) => e.startsWith(`${join("tables", "Posts.ts")}:3:1 - `))).toBe(true);
+			expect(result.schema?.tables?.map((t) => t.name)).toEqual(["Users"]);
+		});
+
+		it("should report unknown builders instead of reading them as enums", async () => {
+			await writeProject({
+				"index.ts": "",
+				"enums/Role.ts": `import { pgEnum } from "drizzle-orm/pg-core";\nexport const Role = pgEnum("role", ["admin"]);\n`,
+				"tables/Users.ts": `import { pgTable, serial, citext } from "drizzle-orm/pg-core";
+import { Role } from "../enums/index.js";
+
+export const users = pgTable("users", {
+	id: serail("id"),
+	email: citext("email"),
+	role: Role("role"),
+});
+`,
+			});
+
+			const result = await new SchemaReader(testProjectPath).readSchema();
+
+			expect(result.success).toBe(false);
+			expect(result.errors).toEqual([
+				`${join("tables", "Users.ts")}:5:6 - Unsupported column builder 'serail' for dialect 'postgresql'`,
+				`${join("tables", "Users.ts")}:6:9 - Unsupported column builder 'citext' for dialect 'postgresql'`,
+			]);
+			expect(result.schema?.tables?.[0].columns.find((c) => c.name === "role")).toEqual({ name: "role", options: { enumValues: "Role" } });
+		});
+	});
+
+	describe("readFiles", () => {
+		it("should classify enums, helpers and tables declared in a single schema file", async () => {
+			await fs.mkdir(testProjectPath, { recursive: true });
+			await fs.writeFile(
+				join(testProjectPath, "schema.ts"),
+				`import { integer, pgEnum, pgTable, serial, text, timestamp } from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+
+export const roleEnum = pgEnum("role", ["admin", "member"]);
+
+export const timestamps = {
+	createdAt: timestamp("created_at").defaultNow(),
+};
+
+export const users = pgTable("users", {
+	id: serial("id").primaryKey(),
+	role: roleEnum("role").default("member"),
+	...timestamps,
+});
+
+export const blogPosts = pgTable("blog_posts", {
+	id: serial("id").primaryKey(),
+	authorId: integer("author_id").references(() => users.id),
+	body: text("body"),
+});
+
+export const usersRelations = relations(users, ({ many }) => ({ posts: many(blogPosts) }));
+`
+			);
+
+			const result = await new SchemaReader(testProjectPath).readFiles(["schema.ts"]);
+
+			expect(result.errors).toBeUndefined();
+			expect(result.files).toEqual({ enums: ["schema.ts"], helpers: ["schema.ts"], tables: ["schema.ts"], indexes: [] });
+			expect(result.schema?.enums).toEqual([{ name: "roleEnum", values: ["admin", "member"], dbName: "role" }]);
+			expect(result.schema?.helpers).toEqual([{ name: "timestamps", columns: [{ name: "createdAt", dbName: "created_at", type: "date", options: { default: "sql.now()" } }] }]);
+			expect(result.schema?.tables).toEqual([
+				{
+					name: "Users",
+					columns: [
+						{ name: "id", type: "serial", options: { primaryKey: true } },
+						{ name: "role", options: { enumValues: "roleEnum", default: "member" } },
+					],
+					helperReferences: ["timestamps"],
+				},
+				{
+					name: "BlogPosts",
+					dbName: "blog_posts",
+					columns: [
+						{ name: "id", type: "serial", options: { primaryKey: true } },
+						{ name: "authorId", dbName: "author_id", type: "number", options: { references: { table: "users", column: "id" } } },
+						{ name: "body", type: "text" },
+					],
+				},
+			]);
+		});
+
+		it("should keep snake_case database names of legacy files across regeneration", async () => {
+			await fs.mkdir(testProjectPath, { recursive: true });
+			await fs.writeFile(
+				join(testProjectPath, "schema.ts"),
+				`import { integer, pgEnum, pgTable, serial, varchar } from "drizzle-orm/pg-core";
+
+export const Role = pgEnum("role", ["admin", "member"]);
+
+export const posts = pgTable("posts", {
+	id: serial("id").primaryKey(),
+	authorId: integer("author_id").notNull(),
+	authorRole: Role("author_role"),
+	title: varchar("title", { length: 120 }),
+});
+`
+			);
+
+			const legacy = await new SchemaReader(testProjectPath).readFiles(["schema.ts"]);
+
+			expect(legacy.success).toBe(true);
+			expect(legacy.schema?.enums).toEqual([{ name: "Role", values: ["admin", "member"] }]);
+			expect(legacy.schema?.tables?.[0].columns).toEqual([
+				{ name: "id", type: "serial", options: { primaryKey: true } },
+				{ name: "authorId", dbName: "author_id", type: "number", options: { notNull: true } },
+				{ name: "authorRole", dbName: "author_role", options: { enumValues: "Role" } },
+				{ name: "title", type: "string", options: { length: 120 } },
+			]);
+			expect(legacy.warnings).toEqual(["Enum 'Role' value 'admin' will be generated as 'Admin'", "Enum 'Role' value 'member' will be generated as 'Member'"]);
+
+			const outputDir = join(tempDir, "regenerated");
+			await generateProject({ ...legacy.schema!, outputDir });
+
+			const tableFile = await fs.readFile(join(outputDir, "tables", "Posts.ts"), "utf-8");
+			expect(tableFile).toContain("authorId: integer('author_id').notNull(),");
+			expect(tableFile).toContain("authorRole: Role('author_role'),");
+			expect(await fs.readFile(join(outputDir, "enums", "Role.ts"), "utf-8")).toContain("pgEnum('role', ");
+
+			const regenerated = await new SchemaReader(outputDir).readSchema();
+			expect(regenerated.schema?.tables?.[0].columns).toEqual(legacy.schema?.tables?.[0].columns);
+		});
+
+		it("should read a flat folder through glob patterns and rename references to generated variables", async () => {
+			await fs.mkdir(join(testProjectPath, "db"), { recursive: true });
+			await fs.writeFile(
+				join(testProjectPath, "db", "orderItems.ts"),
+				`import { mysqlTable, int } from "drizzle-orm/mysql-core";
+export const orderItems = mysqlTable("order_items", { id: int("id").primaryKey() });
+`
+			);
+			await fs.writeFile(
+				join(testProjectPath, "db", "shipments.ts"),
+				`import { mysqlTable, int } from "drizzle-orm/mysql-core";
+import { orderItems } from "./orderItems";
+export const shipments = mysqlTable("shipments", { itemId: int("item_id").references(() => orderItems.id) });
+`
+			);
+
+			const result = await new SchemaReader(testProjectPath).readFiles(["db/*.ts"]);
+
+			expect(result.success).toBe(true);
+			expect(result.schema?.dialect).toBe("mysql");
+			expect(result.schema?.tables?.map((t) => t.name)).toEqual(["OrderItems", "Shipments"]);
+			expect(result.schema?.tables?.[1].columns[0].options?.references).toEqual({ table: "orderitems", column: "id" });
+			expect(result.metadata.totalFiles).toBe(2);
+		});
+
+		it("should report duplicate declarations and unmatched patterns", async () => {
+			await fs.mkdir(testProjectPath, { recursive: true });
+			const table = `import { pgTable, serial } from "drizzle-orm/pg-core";\nexport const users = pgTable("users", { id: serial("id") });\n`;
+			await fs.writeFile(join(testProjectPath, "a.ts"), table);
+			await fs.writeFile(join(testProjectPath, "b.ts"), table);
+
+			const duplicate = await new SchemaReader(testProjectPath).readFiles(["*.ts"]);
+			expect(duplicate.success).toBe(false);
+			expect(duplicate.errors).toEqual(["b.ts:2:14 - Duplicate table 'Users', already declared in a.ts"]);
+
+			const missing = await new SchemaReader(testProjectPath).readFiles(["src/**/*.ts"]);
+			expect(missing.success).toBe(false);
+			expect(missing.message).toContain("No files match 'src/**/*.ts'");
+		});
+	});
+
+	describe("dialects", () => {
+		const dialectConfig = (dialect: "mysql" | "sqlite"): ProjectGeneratorConfig => ({
+			outputDir: testProjectPath,
+			dialect,
+			enums: [{ name: "UserStatus", values: ["active", "inactive"] }],
+			tables: [
+				{
+					name: "users",
+					columns: [
+						{ name: "id", type: "serial", options: { primaryKey: true } },
+						{ name: "bio", type: "text", options: { notNull: true } },
+						{ name: "isActive", type: "boolean", options: { default: true } },
+						{ name: "createdAt", type: "date", options: { default: "sql.now()" } },
+						{ name: "status", options: { enumValues: "UserStatus" } },
+					],
+				},
+			],
+			overwrite: true,
+		});
+
+		it.each(["mysql", "sqlite"] as const)("should detect and round-trip a %s project", async (dialect) => {
+			const config = dialectConfig(dialect);
+			await generateProject(config);
+
+			const result = await new SchemaReader(testProjectPath).readSchema();
+
+			expect(result.success).toBe(true);
+			expect(result.schema?.dialect).toBe(dialect);
+			expect(result.schema?.enums).toEqual(config.enums);
+			expect(result.schema?.tables?.[0].columns).toEqual(config.tables![0].columns);
+		});
+
+		it.each(["postgresql", "mysql", "sqlite"] as const)("should compare a regenerated %s project without changes", async (dialect) => {
+			// One column per type of the dialect, plus the forms that render the same builder as another type
+			const columns: ColumnDefinition[] = [
+				{ name: "id", type: "serial", options: { primaryKey: true } },
+				...Object.keys(getDialect(dialect)!.types)
+					.filter((type) => type !== "serial")
+					.map((type) => ({ name: `${type}Value`, type })),
+				{ name: "email", type: "string", options: { length: 120, notNull: true } },
+				{ name: "ext", type: "string", options: { length: 36 } },
+				{ name: "status", options: { enumValues: "UserStatus" } },
+			];
+			const config: ProjectGeneratorConfig = {
+				outputDir: testProjectPath,
+				dialect,
+				enums: [{ name: "UserStatus", values: ["active", "inactive"] }],
+				tables: [{ name: "Users", columns }],
+			};
+			await generateProject(config);
+
+			const result = await new SchemaReader(testProjectPath).readSchema();
+			const comparison = await new SchemaChangeDetector().compareSchemas(result.schema!, config);
+
+			expect(result.errors).toBeUndefined();
+			expect(comparison.changes).toEqual([]);
+		});
+
+		it("should use an explicitly provided dialect", async () => {
+			await generateProject(dialectConfig("sqlite"));
+
+			const result = await new SchemaReader(testProjectPath, "mysql").readSchema();
+
+			expect(result.success).toBe(false);
+			expect(result.errors?.some((e) => e.includes("Could not parse table"))).toBe(true);
+		});
+	});
+
 	describe("convenience function", () => {
 		it("should work as expected", async () => {
 			const config: ProjectGeneratorConfig = {
@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { runCli, CliExitCode, type CliIO } from "../../src/cli/index.js";
+import type { ProjectGeneratorConfig } from "../../src/definitions/index.js";
+
+describe("drizzle-gen CLI", () => {
+	let tempDir: string;
+	let stdout: string[];
+	let stderr: string[];
+	let io: CliIO;
+
+	const baseSchema: ProjectGeneratorConfig = {
+		outputDir: "",
+		enums: [{ name: "UserStatus", values: ["active", "inactive"] }],
+		tables: [
+			{
+				name: "Users",
+				columns: [
+					{ name: "id", type: "serial", options: { primaryKey: true } },
+					{ name: "email", type: "string", options: { length: 255, notNull: true } },
+					{ name: "status", options: { enumValues: "UserStatus" } },
+				],
+			},
+		],
+	};
+
+	async function writeSchema(name: string, schema: ProjectGeneratorConfig): Promise<string> {
+		const path = join(tempDir, name);
+		await fs.writeFile(path, JSON.stringify(schema));
+		return path;
+	}
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(join(tmpdir(), "drizzle-cli-test-"));
+		stdout = [];
+		stderr = [];
+		io = { stdout: (line) => stdout.push(line), stderr: (line) => stderr.push(line) };
+	});
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it("should generate a project from a JSON schema", async () => {
+		const schemaPath = await writeSchema("schema.json", baseSchema);
+		const outDir = join(tempDir, "db");
+
+		const exitCode = await runCli(["generate", schemaPath, "--out", outDir], io);
+
+		expect(exitCode).toBe(CliExitCode.SUCCESS);
+		const tableFile = await fs.readFile(join(outDir, "tables", "Users.ts"), "utf-8");
+		expect(tableFile).toContain("export const users = pgTable('users', {");
+	});
+
+	it("should generate a project from a SQL DDL file", async () => {
+		const ddlPath = join(tempDir, "schema.sql");
+		await fs.writeFile(ddlPath, "CREATE TABLE posts (id serial PRIMARY KEY, title varchar(120) NOT NULL);");
+		const outDir = join(tempDir, "db");
+
+		const exitCode = await runCli(["generate", ddlPath, "--out", outDir], io);
+
+		expect(exitCode).toBe(CliExitCode.SUCCESS);
+		const tableFile = await fs.readFile(join(outDir, "tables", "Posts.ts"), "utf-8");
+		expect(tableFile).toContain("varchar('title', { length: 120 }).notNull()");
+	});
+
+	it("should validate a JSON schema and report errors with their path", async () => {
+		const users = baseSchema.tables![0];
+		const invalid = { ...baseSchema, tables: [{ ...users, columns: [{ name: "id", type: "serial", options: { primarykey: true } }] }] };
+		const schemaPath = await writeSchema("invalid.json", invalid as ProjectGeneratorConfig);
+
+		expect(await runCli(["validate", schemaPath], io)).toBe(CliExitCode.ERROR);
+		expect(stderr).toEqual(["$.tables[0].columns[0].options.primarykey: Unknown property 'primarykey', did you mean 'primaryKey'?"]);
+
+		expect(await runCli(["generate", schemaPath, "--out", join(tempDir, "db")], io)).toBe(CliExitCode.ERROR);
+		await expect(fs.access(join(tempDir, "db"))).rejects.toThrow();
+	});
+
+	it("should preview a regeneration with generate --dry-run", async () => {
+		const outDir = join(tempDir, "db");
+		await runCli(["generate", await writeSchema("schema.json", baseSchema), "--out", outDir], io);
+		stdout.length = 0;
+
+		const newPath = await writeSchema("new.json", { ...baseSchema, enums: [{ name: "UserStatus", values: ["active", "inactive", "banned"] }] });
+		const exitCode = await runCli(["generate", newPath, "--out", outDir, "--dry-run"], io);
+
+		expect(exitCode).toBe(CliExitCode.SUCCESS);
+		expect(stdout).toContain(`modified  ${join(outDir, "enums", "UserStatus.ts")}`);
+		expect(stdout).toContain(`unchanged ${join(outDir, "tables", "Users.ts")}`);
+		expect(stdout.join("\n")).toContain("+export const UserStatus = pgEnum('user_status', ['Active', 'Inactive', 'Banned'] as const);");
+		expect(await fs.readFile(join(outDir, "enums", "UserStatus.ts"), "utf-8")).not.toContain("Banned");
+	});
+
+	it("should report orphaned files and delete them with generate --prune", async () => {
+		const outDir = join(tempDir, "db");
+		await runCli(["generate", await writeSchema("schema.json", baseSchema), "--out", outDir], io);
+		const withoutEnum = await writeSchema("new.json", {
+			...baseSchema,
+			enums: [],
+			tables: [{ name: "Users", columns: [{ name: "id", type: "serial", options: { primaryKey: true } }] }],
+		});
+		stdout.length = 0;
+
+		expect(await runCli(["generate", withoutEnum, "--out", outDir], io)).toBe(CliExitCode.SUCCESS);
+		expect(stdout).toContain(`orphaned  ${join(outDir, "enums", "UserStatus.ts")}`);
+		expect(stdout).toContain("Orphaned files are no longer generated by the schema; pass --prune to delete them.");
+
+		expect(await runCli(["generate", withoutEnum, "--out", outDir, "--prune"], io)).toBe(CliExitCode.SUCCESS);
+		expect(stdout).toContain(`removed   ${join(outDir, "enums", "UserStatus.ts")}`);
+		await expect(fs.access(join(outDir, "enums", "UserStatus.ts"))).rejects.toThrow();
+	});
+
+	it("should keep files edited by hand on generate", async () => {
+		const schemaPath = await writeSchema("schema.json", baseSchema);
+		const outDir = join(tempDir, "db");
+		await runCli(["generate", schemaPath, "--out", outDir], io);
+		const usersPath = join(outDir, "tables", "Users.ts");
+		await fs.appendFile(usersPath, "export const admins = 1;\n");
+
+		expect(await runCli(["generate", schemaPath, "--out", outDir], io)).toBe(CliExitCode.ERROR);
+		expect(stderr.join("\n")).toContain(`${usersPath}: edited by hand since the last generation`);
+		expect(await fs.readFile(usersPath, "utf-8")).toContain("export const admins = 1;");
+	});
+
+	it("should fail when no output directory is given", async () => {
+		const schemaPath = await writeSchema("schema.json", baseSchema);
+
+		const exitCode = await runCli(["generate", schemaPath], io);
+
+		expect(exitCode).toBe(CliExitCode.ERROR);
+		expect(stderr.join("\n")).toContain("Output directory is required");
+	});
+
+	it("should read a generated project as JSON", async () => {
+		const schemaPath = await writeSchema("schema.json", baseSchema);
+		const outDir = join(tempDir, "db");
+		await runCli(["generate", schemaPath, "--out", outDir], io);
+		stdout = [];
+
+		const exitCode = await runCli(["read", outDir, "--json"], io);
+
+		expect(exitCode).toBe(CliExitCode.SUCCESS);
+		const schema = JSON.parse(stdout.join("\n"));
+		expect(schema.tables[0].name).toBe("Users");
+		expect(schema.enums[0].values).toEqual(["active", "inactive"]);
+	});
+
+	it("should read hand-written schema files", async () => {
+		const schemaFile = join(tempDir, "schema.ts");
+		await fs.writeFile(schemaFile, `import { pgTable, serial } from "drizzle-orm/pg-core";\nexport const accounts = pgTable("accounts", { id: serial("id") });\n`);
+
+		const exitCode = await runCli(["read", schemaFile], io);
+
+		expect(exitCode).toBe(CliExitCode.SUCCESS);
+		expect(stdout).toContain("  Tables:  Accounts");
+	});
+
+	it("should exit with success when diff has no breaking changes", async () => {
+		const oldPath = await writeSchema("old.json", baseSchema);
+		const newPath = await writeSchema("new.json", {
+			...baseSchema,
+			enums: [{ name: "UserStatus", values: ["active", "inactive", "banned"] }],
+		});
+
+		const exitCode = await runCli(["diff", oldPath, newPath], io);
+
+		expect(exitCode).toBe(CliExitCode.SUCCESS);
+		expect(stdout.join("\n")).toContain("[SAFE] Added value 'banned' to enum 'UserStatus'");
+	});
+
+	it("should exit with a non-zero code when diff finds breaking changes", async () => {
+		const oldPath = await writeSchema("old.json", baseSchema);
+		const newPath = await writeSchema("new.json", { ...baseSchema, enums: [{ name: "UserStatus", values: ["active"] }] });
+
+		const exitCode = await runCli(["diff", oldPath, newPath, "--json"], io);
+
+		expect(exitCode).toBe(CliExitCode.BREAKING_CHANGES);
+		const comparison = JSON.parse(stdout.join("\n"));
+		expect(comparison.canApply.withBreaking).toBe(true);
+	});
+
+	it("should diff a generated project against a JSON schema", async () => {
+		const schemaPath = await writeSchema("schema.json", baseSchema);
+		const outDir = join(tempDir, "db");
+		await runCli(["generate", schemaPath, "--out", outDir], io);
+		stdout = [];
+
+		const exitCode = await runCli(["diff", outDir, schemaPath], io);
+
+		expect(exitCode).toBe(CliExitCode.SUCCESS);
+		expect(stdout).toContain("No changes detected.");
+	});
+
+	it("should diff a JSON schema against a pg_dump file", async () => {
+		const dumpPath = join(tempDir, "dump.sql");
+		await fs.writeFile(
+			dumpPath,
+			`CREATE TYPE public.user_status AS ENUM ('Active', 'Inactive');
+CREATE TABLE public.users (id integer DEFAULT nextval('users_id_seq'::regclass) NOT NULL, status public.user_status);
+ALTER TABLE ONLY public.users ADD CONSTRAINT users_pkey PRIMARY KEY (id);
+`
+		);
+		const schemaPath = await writeSchema("schema.json", baseSchema);
+
+		const exitCode = await runCli(["diff", dumpPath, schemaPath], io);
+
+		expect(exitCode).toBe(CliExitCode.SUCCESS);
+		expect(stdout.join("\n")).toContain("Added column 'email' to table 'Users'");
+	});
+
+	it("should refuse to apply breaking changes without --allow-breaking", async () => {
+		const schemaPath = await writeSchema("schema.json", baseSchema);
+		const outDir = join(tempDir, "db");
+		await runCli(["generate", schemaPath, "--out", outDir], io);
+
+		const newPath = await writeSchema("new.json", { ...baseSchema, enums: [{ name: "UserStatus", values: ["active"] }] });
+
+		expect(await runCli(["apply", newPath, "--out", outDir], io)).toBe(CliExitCode.BREAKING_CHANGES);
+		expect(await fs.readFile(join(outDir, "enums", "UserStatus.ts"), "utf-8")).toContain("'Inactive'");
+
+		expect(await runCli(["apply", newPath, "--out", outDir, "--allow-breaking"], io)).toBe(CliExitCode.SUCCESS);
+		expect(await fs.readFile(join(outDir, "enums", "UserStatus.ts"), "utf-8")).not.toContain("'Inactive'");
+	});
+
+	it("should not write files on apply --dry-run", async () => {
+		const schemaPath = await writeSchema("schema.json", baseSchema);
+		const outDir = join(tempDir, "db");
+
+		const exitCode = await runCli(["apply", schemaPath, "--out", outDir, "--dry-run"], io);
+
+		expect(exitCode).toBe(CliExitCode.SUCCESS);
+		await expect(fs.access(outDir)).rejects.toThrow();
+	});
+
+	it("should leave an existing project untouched when it cannot be read", async () => {
+		const schemaPath = await writeSchema("schema.json", baseSchema);
+		const outDir = join(tempDir, "db");
+		await fs.mkdir(join(outDir, "tables"), { recursive: true });
+		await fs.writeFile(join(outDir, "index.ts"), "export const custom = 1;\n");
+		await fs.writeFile(join(outDir, "tables", "Users.ts"), "export const users = pgTable('users', {\n");
+
+		const exitCode = await runCli(["apply", schemaPath, "--out", outDir], io);
+
+		expect(exitCode).toBe(CliExitCode.ERROR);
+		expect(stderr[0]).toContain("Could not read the existing project");
+		expect(await fs.readFile(join(outDir, "index.ts"), "utf-8")).toBe("export const custom = 1;\n");
+		expect(await fs.readFile(join(outDir, "tables", "Users.ts"), "utf-8")).toBe("export const users = pgTable('users', {\n");
+		await expect(fs.access(join(outDir, "enums"))).rejects.toThrow();
+	});
+
+	it("should report unknown commands and options", async () => {
+		expect(await runCli(["migrate"], io)).toBe(CliExitCode.ERROR);
+		expect(stderr[0]).toBe("Unknown command 'migrate'.");
+
+		expect(await runCli(["read", "--verbose"], io)).toBe(CliExitCode.ERROR);
+		expect(stderr).toContain("Unknown option '--verbose'.");
+	});
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { getDialect, getParseRules, getRegisteredDialects, normalizeColumnType, registerDialect, resolveColumnType } from "../../src/dialects/index.js";
+import { TypeMap } from "../../src/utils/index.js";
+import { ColumnGenerator } from "../../src/generators/ColumnGenerator.js";
+import { EnumGenerator } from "../../src/generators/EnumGenerator.js";
+import { TableGenerator } from "../../src/generators/TableGenerator.js";
+import type { Dialect } from "../../src/definitions/index.js";
+
+const SingleStoreDialect: Dialect = {
+	name: "singlestore",
+	importPath: "drizzle-orm/singlestore-core",
+	tableFactory: "singlestoreTable",
+	enumFactory: "singlestoreEnum",
+	enumStrategy: "argument",
+	nowExpression: "now()",
+	types: {
+		serial: { func: "serial" },
+		string: { func: "varchar", acceptsLength: true, defaultLength: 255 },
+		number: { func: "int" },
+		flag: { func: "tinyint", config: { mode: "boolean" } },
+	},
+};
+
+describe("DialectRegistry", () => {
+	it("should register the built-in dialects", () => {
+		const names = getRegisteredDialects().map((d) => d.name);
+
+		expect(names).toEqual(expect.arrayContaining(["postgresql", "mysql", "sqlite"]));
+		expect(getDialect("postgresql")?.tableFactory).toBe("pgTable");
+		expect(getDialect("unknown")).toBeUndefined();
+	});
+
+	it("should resolve builders back to column types", () => {
+		const sqlite = getDialect("sqlite")!;
+
+		expect(resolveColumnType(sqlite, "integer")).toBe("number");
+		expect(resolveColumnType(sqlite, "integer", "boolean")).toBe("boolean");
+		expect(resolveColumnType(sqlite, "integer", undefined, true)).toBe("serial");
+		expect(resolveColumnType(getDialect("postgresql")!, "jsonb")).toBe("json");
+	});
+
+	it("should normalize types that render the same builder", () => {
+		const mysql = getDialect("mysql")!;
+		const sqlite = getDialect("sqlite")!;
+
+		expect(normalizeColumnType(mysql, "uuid")).toEqual({ type: "string", length: 36 });
+		expect(normalizeColumnType(mysql, "String", { length: 36 })).toEqual({ type: "string", length: 36 });
+		expect(normalizeColumnType(sqlite, "uuid")).toEqual({ type: "text", length: undefined });
+		expect(normalizeColumnType(sqlite, "string", { length: 80 })).toEqual({ type: "string", length: 80 });
+		expect(normalizeColumnType(sqlite, "serial")).toEqual({ type: "number", length: undefined });
+		expect(resolveColumnType(sqlite, "text", undefined, false, true)).toBe("string");
+	});
+
+	it("should keep the deprecated TypeMap of PostgreSQL builders", () => {
+		expect(TypeMap).toMatchObject({ string: "varchar", date: "timestamp", json: "jsonb", enum: "pgEnum" });
+	});
+
+	it("should derive parse rules when a dialect declares none", () => {
+		const rules = getParseRules(SingleStoreDialect);
+
+		expect(rules[0]).toEqual({ func: "tinyint", mode: "boolean", autoIncrement: undefined, type: "flag" });
+		expect(resolveColumnType(SingleStoreDialect, "int")).toBe("number");
+	});
+
+	it("should let generators use a third-party dialect", () => {
+		registerDialect(SingleStoreDialect);
+
+		const column = ColumnGenerator({ name: "active", type: "flag" }, "singlestore");
+		expect(column.column).toBe("active: tinyint('active', { mode: 'boolean' }),");
+
+		const enumResult = EnumGenerator({ name: "Status", values: ["on", "off"] }, "singlestore");
+		expect(enumResult.enumCode).toBe("export const Status = ['On', 'Off'] as const;");
+
+		const table = TableGenerator(
+			{
+				name: "Users",
+				columns: [
+					{ name: "id", type: "serial", options: { primaryKey: true } },
+					{ name: "status", options: { enumValues: "Status" } },
+				],
+			},
+			"singlestore"
+		);
+		expect(table.error).toBeUndefined();
+		expect(table.tableCode).toBe(`export const users = singlestoreTable('users', {
+    id: serial('id').primaryKey(),
+    status: singlestoreEnum('status', Status)
+});`);
+		expect(table.imports["drizzle-orm/singlestore-core"]).toEqual(["singlestoreTable", "serial", "singlestoreEnum"]);
+	});
+
+	it("should report unknown dialects", () => {
+		const result = ColumnGenerator({ name: "id", type: "serial" }, "oracle");
+
+		expect(result.error).toBe("Unsupported dialect 'oracle'.");
+	});
+});
@@ -0,0 +1,187 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 16.2
+-- Dumped by pg_dump version 16.2
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+
+--
+-- Name: order_status; Type: TYPE; Schema: public; Owner: app
+--
+
+CREATE TYPE public.order_status AS ENUM (
+    'Pending',
+    'Shipped',
+    'Delivered'
+);
+
+
+ALTER TYPE public.order_status OWNER TO app;
+
+--
+-- Name: touch_updated_at(); Type: FUNCTION; Schema: public; Owner: app
+--
+
+CREATE FUNCTION public.touch_updated_at() RETURNS trigger
+    LANGUAGE plpgsql
+    AS $$
+BEGIN
+    NEW.updated_at = now();
+    RETURN NEW;
+END;
+$$;
+
+
+ALTER FUNCTION public.touch_updated_at() OWNER TO app;
+
+SET default_tablespace = '';
+
+SET default_table_access_method = heap;
+
+--
+-- Name: users; Type: TABLE; Schema: public; Owner: app
+--
+
+CREATE TABLE public.users (
+    id integer NOT NULL,
+    email character varying(255) NOT NULL,
+    name text,
+    is_active boolean DEFAULT true NOT NULL,
+    created_at timestamp without time zone DEFAULT now() NOT NULL
+);
+
+
+ALTER TABLE public.users OWNER TO app;
+
+--
+-- Name: users_id_seq; Type: SEQUENCE; Schema: public; Owner: app
+--
+
+CREATE SEQUENCE public.users_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+ALTER SEQUENCE public.users_id_seq OWNED BY public.users.id;
+
+--
+-- Name: orders; Type: TABLE; Schema: public; Owner: app
+--
+
+CREATE TABLE public.orders (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id integer NOT NULL,
+    status public.order_status DEFAULT 'Pending'::public.order_status NOT NULL,
+    total bigint DEFAULT 0,
+    note character varying DEFAULT 'n/a'::character varying,
+    metadata jsonb DEFAULT '{}'::jsonb,
+    CONSTRAINT orders_total_check CHECK ((total >= 0))
+);
+
+
+ALTER TABLE public.orders OWNER TO app;
+
+--
+-- Name: order_items; Type: TABLE; Schema: public; Owner: app
+--
+
+CREATE TABLE public.order_items (
+    order_id uuid NOT NULL,
+    product_code character varying(32) NOT NULL,
+    quantity integer DEFAULT 1 NOT NULL
+);
+
+
+ALTER TABLE public.order_items OWNER TO app;
+
+--
+-- Name: users id; Type: DEFAULT; Schema: public; Owner: app
+--
+
+ALTER TABLE ONLY public.users ALTER COLUMN id SET DEFAULT nextval('public.users_id_seq'::regclass);
+
+
+--
+-- Name: order_items order_items_pkey; Type: CONSTRAINT; Schema: public; Owner: app
+--
+
+ALTER TABLE ONLY public.order_items
+    ADD CONSTRAINT order_items_pkey PRIMARY KEY (order_id, product_code);
+
+
+--
+-- Name: orders orders_pkey; Type: CONSTRAINT; Schema: public; Owner: app
+--
+
+ALTER TABLE ONLY public.orders
+    ADD CONSTRAINT orders_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: users users_email_key; Type: CONSTRAINT; Schema: public; Owner: app
+--
+
+ALTER TABLE ONLY public.users
+    ADD CONSTRAINT users_email_key UNIQUE (email);
+
+
+--
+-- Name: users users_pkey; Type: CONSTRAINT; Schema: public; Owner: app
+--
+
+ALTER TABLE ONLY public.users
+    ADD CONSTRAINT users_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: orders_user_status_idx; Type: INDEX; Schema: public; Owner: app
+--
+
+CREATE INDEX orders_user_status_idx ON public.orders USING btree (user_id, status) WHERE (status <> 'Delivered'::public.order_status);
+
+
+--
+-- Name: orders_metadata_idx; Type: INDEX; Schema: public; Owner: app
+--
+
+CREATE INDEX orders_metadata_idx ON public.orders USING gin (metadata);
+
+
+--
+-- Name: users touch_users; Type: TRIGGER; Schema: public; Owner: app
+--
+
+CREATE TRIGGER touch_users BEFORE UPDATE ON public.users FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+
+--
+-- Name: order_items order_items_order_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: app
+--
+
+ALTER TABLE ONLY public.order_items
+    ADD CONSTRAINT order_items_order_id_fkey FOREIGN KEY (order_id) REFERENCES public.orders(id) ON DELETE CASCADE;
+
+
+--
+-- Name: orders orders_user_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: app
+--
+
+ALTER TABLE ONLY public.orders
+    ADD CONSTRAINT orders_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id);
+
+
+--
+-- PostgreSQL database dump complete
+--
+
@@ -99,6 +99,64 @@ describe("ColumnGenerator", () => {
 		});
 	});
 
+	describe("PostgreSQL types", () => {
+		it("should pass precision, scale and interval fields to the builder config", () => {
+			expect(ColumnGenerator({ name: "price", type: "numeric", options: { precision: 10, scale: 2 } }).column).toBe("price: numeric('price', { precision: 10, scale: 2 }),");
+			expect(ColumnGenerator({ name: "rate", type: "decimal", options: { precision: 5 } }).column).toBe("rate: decimal('rate', { precision: 5 }),");
+			expect(ColumnGenerator({ name: "opens_at", type: "time", options: { precision: 3 } }).column).toBe("opens_at: time('opens_at', { precision: 3 }),");
+			expect(ColumnGenerator({ name: "ttl", type: "interval", options: { fields: "day to second", precision: 0 } }).column).toBe(
+				"ttl: interval('ttl', { fields: 'day to second', precision: 0 }),"
+			);
+			expect(ColumnGenerator({ name: "code", type: "char", options: { length: 2 } }).column).toBe("code: char('code', { length: 2 }),");
+		});
+
+		it("should configure timestamps with their time zone, precision and mode", () => {
+			expect(ColumnGenerator({ name: "created_at", type: "date", options: { withTimezone: true, precision: 3, mode: "string" } }).column).toBe(
+				"created_at: timestamp('created_at', { precision: 3, withTimezone: true, mode: 'string' }),"
+			);
+			expect(ColumnGenerator({ name: "opens_at", type: "time", options: { withTimezone: true } }).column).toBe("opens_at: time('opens_at', { withTimezone: true }),");
+		});
+
+		it("should map the remaining types to their builders", () => {
+			const columns: { [type: string]: string } = {
+				smallint: "smallint('value')",
+				smallserial: "smallserial('value')",
+				bigint: "bigint('value', { mode: 'number' })",
+				bigserial: "bigserial('value', { mode: 'number' })",
+				real: "real('value')",
+				double: "doublePrecision('value')",
+				dateonly: "date('value')",
+				inet: "inet('value')",
+				cidr: "cidr('value')",
+				macaddr: "macaddr('value')",
+				plainjson: "json('value')",
+			};
+
+			for (const [type, builder] of Object.entries(columns)) {
+				const result = ColumnGenerator({ name: "value", type });
+				expect(result.error).toBeUndefined();
+				expect(result.column).toBe(`value: ${builder},`);
+			}
+		});
+
+		it("should generate array columns with their defaults", () => {
+			const tags = ColumnGenerator({ name: "tags", type: "text", options: { array: true, notNull: true, default: "sql`'{}'::text[]`" } });
+			expect(tags.column).toBe("tags: text('tags').array().notNull().default(sql`'{}'::text[]`),");
+			expect(tags.imports).toEqual({ "drizzle-orm/pg-core": ["text"], "drizzle-orm": ["sql"] });
+
+			expect(ColumnGenerator({ name: "roles", options: { enumValues: "Role", array: true } }).column).toBe("roles: Role('roles').array(),");
+			expect(ColumnGenerator({ name: "grid", type: "number", options: { array: 2 } }).column).toBe("grid: integer('grid').array().array(),");
+			expect(ColumnGenerator({ name: "tags", type: "text", options: { array: true } }, "mysql").error).toBe("Dialect 'mysql' does not support array columns.");
+		});
+
+		it("should declare bytea columns through customType", () => {
+			const result = ColumnGenerator({ name: "avatar", type: "bytea", options: { notNull: true } });
+
+			expect(result.column).toBe("avatar: customType<{ data: Buffer }>({ dataType: () => 'bytea' })('avatar').notNull(),");
+			expect(result.imports).toEqual({ "drizzle-orm/pg-core": ["customType"] });
+		});
+	});
+
 	describe("Column constraints", () => {
 		it("should add primary key constraint", () => {
 			const definition: ColumnDefinition = {
@@ -145,6 +203,21 @@ describe("ColumnGenerator", () => {
 			expect(result.error).toBeUndefined();
 			expect(result.column).toBe("id: serial('id').primaryKey().notNull(),");
 		});
+		it("should add unique constraint", () => {
+			const definition: ColumnDefinition = {
+				name: "email",
+				type: "string",
+				options: {
+					notNull: true,
+					unique: true,
+				},
+			};
+
+			const result = ColumnGenerator(definition);
+
+			expect(result.error).toBeUndefined();
+			expect(result.column).toBe("email: varchar('email').notNull().unique(),");
+		});
 	});
 
 	describe("Default values", () => {
@@ -292,6 +365,37 @@ describe("ColumnGenerator", () => {
 			expect(result.error).toBeUndefined();
 			expect(result.column).toBe("userId: integer('userId').notNull().references(() => users.id),");
 		});
+		it("should render referential actions", () => {
+			const definition: ColumnDefinition = {
+				name: "userId",
+				type: "number",
+				options: {
+					references: {
+						table: "users",
+						column: "id",
+						onDelete: "cascade",
+						onUpdate: "no action",
+					},
+				},
+			};
+
+			const result = ColumnGenerator(definition);
+
+			expect(result.error).toBeUndefined();
+			expect(result.column).toBe("userId: integer('userId').references(() => users.id, { onDelete: 'cascade', onUpdate: 'no action' }),");
+		});
+		it("should render the set default referential action", () => {
+			const definition: ColumnDefinition = {
+				name: "userId",
+				type: "number",
+				options: { references: { table: "users", column: "id", onDelete: "set default" } },
+			};
+
+			const result = ColumnGenerator(definition);
+
+			expect(result.error).toBeUndefined();
+			expect(result.column).toBe("userId: integer('userId').references(() => users.id, { onDelete: 'set default' }),");
+		});
 	});
 
 	describe("Error handling", () => {
@@ -318,4 +422,110 @@ describe("ColumnGenerator", () => {
 			expect(result.column).toBe("");
 		});
 	});
+
+	describe("MySQL dialect", () => {
+		it("should map types to mysql-core functions", () => {
+			const definition: ColumnDefinition = {
+				name: "age",
+				type: "number",
+			};
+
+			const result = ColumnGenerator(definition, "mysql");
+
+			expect(result.error).toBeUndefined();
+			expect(result.column).toBe("age: int('age'),");
+			expect(result.imports).toEqual({
+				"drizzle-orm/mysql-core": ["int"],
+			});
+		});
+
+		it("should generate datetime and json columns", () => {
+			const createdAt = ColumnGenerator({ name: "createdAt", type: "date", options: { default: "sql.now()" } }, "mysql");
+			const payload = ColumnGenerator({ name: "payload", type: "json" }, "mysql");
+
+			expect(createdAt.column).toBe("createdAt: datetime('createdAt').default(sql`now()`),");
+			expect(payload.column).toBe("payload: json('payload'),");
+			expect(payload.imports).toEqual({
+				"drizzle-orm/mysql-core": ["json"],
+			});
+		});
+
+		it("should always give varchar a length", () => {
+			const email = ColumnGenerator({ name: "email", type: "string" }, "mysql");
+			const externalId = ColumnGenerator({ name: "externalId", type: "uuid" }, "mysql");
+
+			expect(email.column).toBe("email: varchar('email', { length: 255 }),");
+			expect(externalId.column).toBe("externalId: varchar('externalId', { length: 36 }),");
+		});
+
+		it("should generate inline mysqlEnum columns", () => {
+			const definition: ColumnDefinition = {
+				name: "status",
+				options: {
+					enumValues: "UserStatus",
+					default: "pending",
+				},
+			};
+
+			const result = ColumnGenerator(definition, "mysql");
+
+			expect(result.error).toBeUndefined();
+			expect(result.column).toBe("status: mysqlEnum('status', UserStatus).default('Pending'),");
+			expect(result.imports).toEqual({
+				"drizzle-orm/mysql-core": ["mysqlEnum"],
+				"../enums/index.js": ["UserStatus"],
+			});
+		});
+	});
+
+	describe("SQLite dialect", () => {
+		it("should store booleans, dates and json with integer/text modes", () => {
+			const isActive = ColumnGenerator({ name: "isActive", type: "boolean", options: { default: true } }, "sqlite");
+			const createdAt = ColumnGenerator({ name: "createdAt", type: "date" }, "sqlite");
+			const payload = ColumnGenerator({ name: "payload", type: "json" }, "sqlite");
+
+			expect(isActive.column).toBe("isActive: integer('isActive', { mode: 'boolean' }).default(true),");
+			expect(createdAt.column).toBe("createdAt: integer('createdAt', { mode: 'timestamp' }),");
+			expect(payload.column).toBe("payload: text('payload', { mode: 'json' }),");
+			expect(payload.imports).toEqual({
+				"drizzle-orm/sqlite-core": ["text"],
+			});
+		});
+
+		it("should map serial primary keys to auto-incrementing integers", () => {
+			const result = ColumnGenerator({ name: "id", type: "serial", options: { primaryKey: true } }, "sqlite");
+
+			expect(result.error).toBeUndefined();
+			expect(result.column).toBe("id: integer('id').primaryKey({ autoIncrement: true }),");
+		});
+
+		it("should use unixepoch for sql.now() defaults", () => {
+			const result = ColumnGenerator({ name: "createdAt", type: "date", options: { default: "sql.now()" } }, "sqlite");
+
+			expect(result.column).toBe("createdAt: integer('createdAt', { mode: 'timestamp' }).default(sql`(unixepoch())`),");
+			expect(result.imports).toEqual({
+				"drizzle-orm/sqlite-core": ["integer"],
+				"drizzle-orm": ["sql"],
+			});
+		});
+
+		it("should render enums as constrained text columns", () => {
+			const definition: ColumnDefinition = {
+				name: "status",
+				options: {
+					enumValues: "UserStatus",
+					default: "active",
+				},
+			};
+
+			const result = ColumnGenerator(definition, "sqlite");
+
+			expect(result.error).toBeUndefined();
+			expect(result.column).toBe("status: text('status', { enum: UserStatus }).default('Active'),");
+			expect(result.imports).toEqual({
+				"drizzle-orm/sqlite-core": ["text"],
+				"../enums/index.js": ["UserStatus"],
+			});
+		});
+	});
 });
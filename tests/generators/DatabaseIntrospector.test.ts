@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import { join } from "path";
+import { DatabaseIntrospector, introspectDump } from "../../src/generators/DatabaseIntrospector.js";
+import { SchemaChangeDetector } from "../../src/generators/SchemaChangeDetector.js";
+import type { DatabaseQuery, ProjectGeneratorConfig } from "../../src/definitions/index.js";
+
+const dumpPath = join(__dirname, "..", "fixtures", "pg_dump_schema.sql");
+
+describe("DatabaseIntrospector", () => {
+	describe("introspectDump", () => {
+		it("should read enums, tables, keys, constraints and indexes from a pg_dump file", async () => {
+			const result = await introspectDump(dumpPath, { outputDir: "./src/db" });
+
+			expect(result.errors).toBeUndefined();
+			expect(result.warnings).toEqual([]);
+			expect(result.schema?.outputDir).toBe("./src/db");
+			expect(result.schema?.enums).toEqual([{ name: "OrderStatus", values: ["pending", "shipped", "delivered"] }]);
+			expect(result.schema?.tables).toEqual([
+				{
+					name: "Users",
+					columns: [
+						{ name: "id", type: "serial", options: { primaryKey: true } },
+						{ name: "email", type: "string", options: { length: 255, notNull: true, unique: true } },
+						{ name: "name", type: "text" },
+						{ name: "is_active", type: "boolean", options: { notNull: true, default: true } },
+						{ name: "created_at", type: "date", options: { notNull: true, default: "sql.now()" } },
+					],
+				},
+				{
+					name: "Orders",
+					columns: [
+						{ name: "id", type: "uuid", options: { primaryKey: true, default: "sql.gen_random_uuid()" } },
+						{ name: "user_id", type: "number", options: { notNull: true, references: { table: "users", column: "id" } } },
+						{ name: "status", options: { enumValues: "OrderStatus", notNull: true, default: "pending" } },
+						{ name: "total", type: "bigint", options: { default: 0 } },
+						{ name: "note", type: "string", options: { default: "n/a" } },
+						{ name: "metadata", type: "json", options: { default: "sql`'{}'::jsonb`" } },
+					],
+					checks: [{ name: "orders_total_check", expression: "total >= 0" }],
+					indexes: [
+						{ name: "orders_user_status_idx", columns: ["user_id", "status"], where: "status <> 'Delivered'::public.order_status" },
+						{ name: "orders_metadata_idx", columns: ["metadata"], method: "gin" },
+					],
+				},
+				{
+					name: "OrderItems",
+					dbName: "order_items",
+					columns: [
+						{ name: "order_id", type: "uuid", options: { notNull: true, references: { table: "orders", column: "id", onDelete: "cascade" } } },
+						{ name: "product_code", type: "string", options: { length: 32, notNull: true } },
+						{ name: "quantity", type: "number", options: { notNull: true, default: 1 } },
+					],
+					compositePrimaryKey: ["order_id", "product_code"],
+				},
+			]);
+		});
+
+		it("should warn about database features the definitions cannot express", () => {
+			const result = new DatabaseIntrospector().introspectDump(`
+				CREATE TYPE mood AS ENUM ('happy', 'sad');
+				CREATE TABLE events (
+					id bigint DEFAULT nextval('events_id_seq'::regclass) NOT NULL,
+					happened_at timestamp with time zone,
+					tags text[],
+					location point
+				);
+			`);
+
+			expect(result.success).toBe(true);
+			expect(result.warnings).toEqual([
+				"Enum 'mood' value 'happy' will be generated as 'Happy'",
+				"Enum 'mood' value 'sad' will be generated as 'Sad'",
+				"Unsupported type 'point' of column 'events.location' is read as text",
+			]);
+			expect(result.schema?.tables?.[0].columns[0]).toEqual({ name: "id", type: "bigserial" });
+			expect(result.schema?.tables?.[0].columns[1]).toEqual({ name: "happened_at", type: "date", options: { withTimezone: true } });
+			expect(result.schema?.tables?.[0].columns[2]).toEqual({ name: "tags", type: "text", options: { array: true } });
+		});
+
+		it("should read numeric, temporal, network and binary types with their options", () => {
+			const result = new DatabaseIntrospector().introspectDump(`
+				CREATE TABLE readings (
+					id smallint DEFAULT nextval('readings_id_seq'::regclass) NOT NULL,
+					value numeric(10,2),
+					ratio double precision,
+					code character(2),
+					taken_on date,
+					taken_at time(3) without time zone,
+					logged_at timestamp(6) with time zone,
+					duration interval day to second(0),
+					source inet,
+					raw bytea,
+					payload json,
+					matrix integer[][] DEFAULT '{}'::integer[] NOT NULL
+				);
+			`);
+
+			expect(result.warnings).toEqual([]);
+			expect(result.schema?.tables?.[0].columns).toEqual([
+				{ name: "id", type: "smallserial" },
+				{ name: "value", type: "numeric", options: { precision: 10, scale: 2 } },
+				{ name: "ratio", type: "double" },
+				{ name: "code", type: "char", options: { length: 2 } },
+				{ name: "taken_on", type: "dateonly" },
+				{ name: "taken_at", type: "time", options: { precision: 3 } },
+				{ name: "logged_at", type: "date", options: { precision: 6, withTimezone: true } },
+				{ name: "duration", type: "interval", options: { precision: 0, fields: "day to second" } },
+				{ name: "source", type: "inet" },
+				{ name: "raw", type: "bytea" },
+				{ name: "payload", type: "plainjson" },
+				{ name: "matrix", type: "number", options: { array: 2, notNull: true, default: "sql`'{}'::integer[]`" } },
+			]);
+		});
+
+		it("should report statements it cannot parse with their line", () => {
+			const result = new DatabaseIntrospector().introspectDump("CREATE TABLE users (id integer);\nALTER TABLE ONLY public.posts ADD CONSTRAINT posts_pkey PRIMARY KEY (id);");
+
+			expect(result.success).toBe(false);
+			expect(result.errors).toEqual(["line 2: Table 'posts' is not defined"]);
+			expect(result.schema?.tables).toHaveLength(1);
+		});
+	});
+
+	describe("introspect", () => {
+		it("should build the schema from catalog queries", async () => {
+			const queries: { sql: string; params?: unknown[] }[] = [];
+			const query: DatabaseQuery = async (sql, params) => {
+				queries.push({ sql, params });
+				if (sql.includes("pg_enum")) {
+					return [
+						{ name: "user_role", value: "Admin" },
+						{ name: "user_role", value: "Member" },
+					];
+				}
+				if (sql.includes("pg_attribute")) {
+					return [
+						{ table_name: "accounts", column_name: "id", data_type: "integer", not_null: true, column_default: "nextval('accounts_id_seq'::regclass)" },
+						{ table_name: "accounts", column_name: "role", data_type: "user_role", not_null: false, column_default: "'Member'::user_role" },
+						{ table_name: "accounts", column_name: "parent_id", data_type: "integer", not_null: false, column_default: null },
+					];
+				}
+				if (sql.includes("pg_get_constraintdef")) {
+					return [
+						{ table_name: "accounts", name: "accounts_pkey", definition: "PRIMARY KEY (id)" },
+						{ table_name: "accounts", name: "accounts_parent_id_fkey", definition: "FOREIGN KEY (parent_id) REFERENCES accounts(id) ON UPDATE CASCADE ON DELETE SET NULL" },
+					];
+				}
+				return [{ table_name: "accounts", name: "accounts_role_idx", definition: "CREATE INDEX accounts_role_idx ON tenant.accounts USING btree (role)" }];
+			};
+
+			const result = await new DatabaseIntrospector({ schema: "tenant" }).introspect(query);
+
+			expect(queries).toHaveLength(4);
+			expect(queries.every((q) => q.params?.[0] === "tenant")).toBe(true);
+			expect(result.success).toBe(true);
+			expect(result.schema?.enums).toEqual([{ name: "UserRole", values: ["admin", "member"] }]);
+			expect(result.schema?.tables).toEqual([
+				{
+					name: "Accounts",
+					columns: [
+						{ name: "id", type: "serial", options: { primaryKey: true } },
+						{ name: "role", options: { enumValues: "UserRole", default: "member" } },
+						{ name: "parent_id", type: "number", options: { references: { table: "accounts", column: "id", onDelete: "set null", onUpdate: "cascade" } } },
+					],
+					indexes: [{ name: "accounts_role_idx", columns: ["role"] }],
+				},
+			]);
+		});
+
+		it("should return an error when a query fails", async () => {
+			const result = await new DatabaseIntrospector().introspect(async () => {
+				throw new Error("connection refused");
+			});
+
+			expect(result.success).toBe(false);
+			expect(result.message).toBe("Failed to introspect database: connection refused");
+		});
+	});
+
+	it("should detect drift between definitions and the deployed schema", async () => {
+		const deployed = await introspectDump(dumpPath);
+		const definitions: ProjectGeneratorConfig = {
+			...deployed.schema!,
+			enums: [{ name: "OrderStatus", values: ["pending", "shipped", "delivered", "cancelled"] }],
+			tables: deployed.schema!.tables!.filter((table) => table.name !== "OrderItems"),
+		};
+
+		const comparison = await new SchemaChangeDetector().compareSchemas(deployed.schema!, definitions);
+
+		expect(comparison.changes.map((change) => [change.type, change.target.name])).toEqual([
+			["enum_value_added", "OrderStatus"],
+			["table_removed", "OrderItems"],
+		]);
+	});
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { DdlParser } from "../../src/generators/DdlParser.js";
+import { TableGenerator } from "../../src/generators/TableGenerator.js";
+
+const ddl = `
+	CREATE TYPE app.user_role AS ENUM ('admin', 'member');
+
+	CREATE TABLE app.users (
+		id SERIAL PRIMARY KEY,
+		email VARCHAR(255) NOT NULL UNIQUE,
+		role user_role NOT NULL DEFAULT 'member',
+		age INTEGER CONSTRAINT users_age_positive CHECK (age > 0),
+		created_at TIMESTAMP NOT NULL DEFAULT now()
+	);
+
+	CREATE TABLE teams (
+		id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+		owner_id integer REFERENCES users ON DELETE SET NULL,
+		name text NOT NULL
+	);
+
+	CREATE TABLE memberships (
+		team_id uuid NOT NULL REFERENCES teams (id) ON DELETE CASCADE,
+		user_id integer NOT NULL,
+		PRIMARY KEY (team_id, user_id),
+		FOREIGN KEY (user_id) REFERENCES users (id) ON UPDATE CASCADE,
+		UNIQUE (user_id, team_id),
+		CHECK (team_id IS NOT NULL)
+	);
+`;
+
+describe("DdlParser", () => {
+	it("should convert enums, column constraints, composite keys and references to definitions", () => {
+		const result = DdlParser(ddl);
+
+		expect(result.errors).toBeUndefined();
+		// Generated enums always use PascalCase values
+		expect(result.warnings).toEqual(["Enum 'user_role' value 'admin' will be generated as 'Admin'", "Enum 'user_role' value 'member' will be generated as 'Member'"]);
+		expect(result.enums).toEqual([{ name: "UserRole", values: ["admin", "member"] }]);
+		expect(result.tables).toEqual([
+			{
+				name: "Users",
+				columns: [
+					{ name: "id", type: "serial", options: { primaryKey: true } },
+					{ name: "email", type: "string", options: { length: 255, notNull: true, unique: true } },
+					{ name: "role", options: { enumValues: "UserRole", notNull: true, default: "member" } },
+					{ name: "age", type: "number" },
+					{ name: "created_at", type: "date", options: { notNull: true, default: "sql.now()" } },
+				],
+				checks: [{ name: "users_age_positive", expression: "age > 0" }],
+			},
+			{
+				name: "Teams",
+				columns: [
+					{ name: "id", type: "uuid", options: { primaryKey: true, default: "sql.gen_random_uuid()" } },
+					{ name: "owner_id", type: "number", options: { references: { table: "users", column: "id", onDelete: "set null" } } },
+					{ name: "name", type: "text", options: { notNull: true } },
+				],
+			},
+			{
+				name: "Memberships",
+				columns: [
+					{ name: "team_id", type: "uuid", options: { notNull: true, references: { table: "teams", column: "id", onDelete: "cascade" } } },
+					{ name: "user_id", type: "number", options: { notNull: true, references: { table: "users", column: "id", onUpdate: "cascade" } } },
+				],
+				compositePrimaryKey: ["team_id", "user_id"],
+				uniqueConstraints: [{ name: "memberships_user_id_team_id_key", columns: ["user_id", "team_id"] }],
+				checks: [{ name: "memberships_check", expression: "team_id IS NOT NULL" }],
+			},
+		]);
+	});
+
+	it("should produce definitions ProjectGenerator can emit", () => {
+		const [users, teams] = DdlParser(ddl).tables;
+
+		const usersCode = TableGenerator(users).tableCode;
+		expect(usersCode).toContain("serial('id').primaryKey()");
+		expect(usersCode).toContain("varchar('email', { length: 255 }).notNull().unique()");
+
+		expect(TableGenerator(teams).tableCode).toContain(".references(() => users.id, { onDelete: 'set null' })");
+	});
+
+	it("should report unsupported statements with their line", () => {
+		const result = DdlParser("CREATE TABLE a (\n\tid integer GENERATED ALWAYS AS IDENTITY\n);");
+
+		expect(result.tables).toEqual([]);
+		expect(result.errors).toEqual(["line 2: Unsupported constraint 'GENERATED' on column 'id'"]);
+	});
+});
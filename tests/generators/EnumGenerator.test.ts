@@ -94,4 +94,17 @@ describe("EnumGenerator", () => {
 		expect(result.error).toBeUndefined();
 		expect(result.enumCode).toBe("export const OrderStatus = pgEnum('order_status', ['PendingPayment', 'ProcessingOrder', 'ShippedOut', 'DeliveredSuccessfully'] as const);");
 	});
+
+	it("should generate a values tuple for MySQL", () => {
+		const definition: EnumDefinition = {
+			name: "UserStatus",
+			values: ["active", "inactive"],
+		};
+
+		const result = EnumGenerator(definition, "mysql");
+
+		expect(result.error).toBeUndefined();
+		expect(result.enumCode).toBe("export const UserStatus = ['Active', 'Inactive'] as const;");
+		expect(result.imports).toEqual({});
+	});
 });
@@ -0,0 +1,401 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { MigrationGenerator, writeMigrationFile } from "../../src/generators/MigrationGenerator.js";
+import { SchemaChangeDetector } from "../../src/generators/SchemaChangeDetector.js";
+import type { ProjectGeneratorConfig } from "../../src/definitions/index.js";
+
+const detector = new SchemaChangeDetector();
+
+async function migrate(current: ProjectGeneratorConfig, next: ProjectGeneratorConfig) {
+	const comparison = await detector.compareSchemas(current, next);
+	return MigrationGenerator(comparison, { current, next });
+}
+
+describe("MigrationGenerator", () => {
+	const empty: ProjectGeneratorConfig = { outputDir: "./db" };
+
+	it("should create enums before the tables using them", async () => {
+		const next: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			enums: [{ name: "UserStatus", values: ["active", "inactive"] }],
+			tables: [
+				{
+					name: "Users",
+					columns: [
+						{ name: "id", type: "serial", options: { primaryKey: true } },
+						{ name: "email", type: "string", options: { length: 255, notNull: true, unique: true } },
+						{ name: "status", options: { enumValues: "UserStatus", default: "active" } },
+						{ name: "createdAt", type: "date", options: { default: "sql.now()" } },
+					],
+				},
+			],
+		};
+
+		const result = await migrate(empty, next);
+
+		expect(result.error).toBeUndefined();
+		expect(result.up).toEqual([
+			"CREATE TYPE \"user_status\" AS ENUM ('Active', 'Inactive');",
+			`CREATE TABLE "users" (
+    "id" serial PRIMARY KEY,
+    "email" varchar(255) NOT NULL UNIQUE,
+    "status" "user_status" DEFAULT 'Active',
+    "createdAt" timestamp DEFAULT now()
+);`,
+		]);
+		expect(result.down).toEqual(['DROP TABLE "users";', 'DROP TYPE "user_status";']);
+	});
+
+	it("should use the database names of columns and enums", async () => {
+		const next: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			enums: [{ name: "Role", dbName: "role", values: ["admin", "member"] }],
+			tables: [
+				{
+					name: "Posts",
+					columns: [
+						{ name: "id", type: "serial", options: { primaryKey: true } },
+						{ name: "authorId", dbName: "author_id", type: "number", options: { notNull: true } },
+						{ name: "authorRole", dbName: "author_role", options: { enumValues: "Role" } },
+					],
+					indexes: [{ name: "posts_author_idx", columns: ["authorId"] }],
+				},
+			],
+		};
+
+		const result = await migrate(empty, next);
+
+		expect(result.up).toEqual([
+			"CREATE TYPE \"role\" AS ENUM ('Admin', 'Member');",
+			`CREATE TABLE "posts" (
+    "id" serial PRIMARY KEY,
+    "author_id" integer NOT NULL,
+    "author_role" "role"
+);`,
+			'CREATE INDEX "posts_author_idx" ON "posts" ("author_id");',
+		]);
+	});
+
+	it("should order created tables by their references", async () => {
+		const next: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			tables: [
+				{
+					name: "Posts",
+					columns: [{ name: "authorId", type: "number", options: { references: { table: "users", column: "id", onDelete: "cascade" } } }],
+				},
+				{ name: "Users", columns: [{ name: "id", type: "serial", options: { primaryKey: true } }] },
+			],
+		};
+
+		const result = await migrate(empty, next);
+
+		expect(result.up[0]).toContain('CREATE TABLE "users"');
+		expect(result.up[1]).toContain('"authorId" integer REFERENCES "users"("id") ON DELETE CASCADE');
+		expect(result.down).toEqual(['DROP TABLE "posts";', 'DROP TABLE "users";']);
+	});
+
+	it("should render the set default referential action", async () => {
+		const next: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			tables: [
+				{
+					name: "Posts",
+					columns: [{ name: "authorId", type: "number", options: { references: { table: "users", column: "id", onDelete: "set default" } } }],
+				},
+			],
+		};
+
+		const result = await migrate(empty, next);
+
+		expect(result.up[0]).toContain('"authorId" integer REFERENCES "users"("id") ON DELETE SET DEFAULT');
+	});
+
+	it("should include composite keys, constraints and indexes in created tables", async () => {
+		const next: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			tables: [
+				{
+					name: "OrderItems",
+					columns: [
+						{ name: "orderId", type: "number" },
+						{ name: "productId", type: "number" },
+						{ name: "quantity", type: "number" },
+					],
+					compositePrimaryKey: ["orderId", "productId"],
+					checks: [{ name: "quantity_positive", expression: "quantity > 0" }],
+					indexes: [{ name: "order_items_product_idx", columns: ["productId"] }],
+				},
+			],
+		};
+
+		const result = await migrate(empty, next);
+
+		expect(result.up).toEqual([
+			`CREATE TABLE "order_items" (
+    "orderId" integer,
+    "productId" integer,
+    "quantity" integer,
+    PRIMARY KEY ("orderId", "productId"),
+    CONSTRAINT "quantity_positive" CHECK (quantity > 0)
+);`,
+			'CREATE INDEX "order_items_product_idx" ON "order_items" ("productId");',
+		]);
+	});
+
+	it("should alter check constraints by name when expressions repeat", async () => {
+		const products = (priceCheck: string): ProjectGeneratorConfig => ({
+			outputDir: "./db",
+			tables: [
+				{
+					name: "Products",
+					columns: [{ name: "price", type: "number" }],
+					checks: [
+						{ name: "products_cost_check", expression: "price >= 0" },
+						{ name: "products_price_check", expression: priceCheck },
+					],
+				},
+			],
+		});
+
+		const result = await migrate(products("price >= 0"), products("price > 0"));
+
+		expect(result.error).toBeUndefined();
+		expect(result.up).toEqual([
+			'ALTER TABLE "products" DROP CONSTRAINT "products_price_check";',
+			'ALTER TABLE "products" ADD CONSTRAINT "products_price_check" CHECK (price > 0);',
+		]);
+	});
+
+	it("should add and drop columns with reversible statements", async () => {
+		const current: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			tables: [
+				{
+					name: "Users",
+					columns: [
+						{ name: "id", type: "serial" },
+						{ name: "nickname", type: "string", options: { length: 50 } },
+					],
+				},
+			],
+		};
+		const next: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			tables: [
+				{
+					name: "Users",
+					columns: [
+						{ name: "id", type: "serial" },
+						{ name: "bio", type: "text", options: { notNull: true, default: "" } },
+					],
+				},
+			],
+		};
+
+		const result = await migrate(current, next);
+
+		expect(result.up).toEqual(['ALTER TABLE "users" ADD COLUMN "bio" text NOT NULL DEFAULT \'\';', 'ALTER TABLE "users" DROP COLUMN "nickname";']);
+		expect(result.down).toEqual(['ALTER TABLE "users" ADD COLUMN "nickname" varchar(50);', 'ALTER TABLE "users" DROP COLUMN "bio";']);
+	});
+
+	it("should render type-specific options in column types", async () => {
+		const next: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			tables: [
+				{
+					name: "Prices",
+					columns: [
+						{ name: "amount", type: "numeric", options: { precision: 10, scale: 2 } },
+						{ name: "code", type: "char", options: { length: 3 } },
+						{ name: "valid_for", type: "interval", options: { fields: "day to second", precision: 0 } },
+						{ name: "score", type: "double" },
+						{ name: "receipt", type: "bytea" },
+						{ name: "paid_at", type: "date", options: { precision: 3, withTimezone: true } },
+						{ name: "tags", type: "text", options: { array: true, default: "sql`'{}'::text[]`" } },
+					],
+				},
+			],
+		};
+
+		const result = await migrate(empty, next);
+
+		expect(result.up[0]).toBe(
+			'CREATE TABLE "prices" (\n    "amount" numeric(10, 2),\n    "code" char(3),\n    "valid_for" interval day to second(0),\n    "score" double precision,\n    "receipt" bytea,\n    "paid_at" timestamp(3) with time zone,\n    "tags" text[] DEFAULT \'{}\'::text[]\n);'
+		);
+	});
+
+	it("should alter column types when their size changes", async () => {
+		const schema = (precision: number, scale: number, length: number): ProjectGeneratorConfig => ({
+			outputDir: "./db",
+			tables: [
+				{
+					name: "Products",
+					columns: [
+						{ name: "price", type: "numeric", options: { precision, scale } },
+						{ name: "title", type: "string", options: { length } },
+					],
+				},
+			],
+		});
+
+		const result = await migrate(schema(10, 2, 50), schema(12, 4, 255));
+
+		expect(result.up).toEqual([
+			'ALTER TABLE "products" ALTER COLUMN "price" SET DATA TYPE numeric(12, 4) USING "price"::numeric(12, 4);',
+			'ALTER TABLE "products" ALTER COLUMN "title" SET DATA TYPE varchar(255) USING "title"::varchar(255);',
+		]);
+		expect(result.down).toEqual([
+			'ALTER TABLE "products" ALTER COLUMN "title" SET DATA TYPE varchar(50) USING "title"::varchar(50);',
+			'ALTER TABLE "products" ALTER COLUMN "price" SET DATA TYPE numeric(10, 2) USING "price"::numeric(10, 2);',
+		]);
+	});
+
+	it("should add enum values and warn that they cannot be rolled back", async () => {
+		const current: ProjectGeneratorConfig = { outputDir: "./db", enums: [{ name: "Status", values: ["active"] }] };
+		const next: ProjectGeneratorConfig = { outputDir: "./db", enums: [{ name: "Status", values: ["active", "archived"] }] };
+
+		const result = await migrate(current, next);
+
+		expect(result.up).toEqual(["ALTER TYPE \"status\" ADD VALUE 'Archived';"]);
+		expect(result.down[0]).toMatch(/^-- Cannot remove value 'Archived'/);
+		expect(result.warnings).toHaveLength(1);
+	});
+
+	it("should alter column options", async () => {
+		const current: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			tables: [{ name: "Users", columns: [{ name: "email", type: "string", options: { length: 100 } }] }],
+		};
+		const next: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			tables: [{ name: "Users", columns: [{ name: "email", type: "text", options: { notNull: true, unique: true } }] }],
+		};
+
+		const result = await migrate(current, next);
+
+		expect(result.up).toEqual([
+			'ALTER TABLE "users" ALTER COLUMN "email" SET DATA TYPE text USING "email"::text;',
+			'ALTER TABLE "users" ALTER COLUMN "email" SET NOT NULL;',
+			'ALTER TABLE "users" ADD CONSTRAINT "users_email_key" UNIQUE ("email");',
+		]);
+		expect(result.down).toEqual([
+			'ALTER TABLE "users" DROP CONSTRAINT "users_email_key";',
+			'ALTER TABLE "users" ALTER COLUMN "email" DROP NOT NULL;',
+			'ALTER TABLE "users" ALTER COLUMN "email" SET DATA TYPE varchar(100) USING "email"::varchar(100);',
+		]);
+	});
+
+	it("should add helper columns to every table using the helper", async () => {
+		const helpers = [{ name: "Timestamps", columns: [{ name: "createdAt", type: "date" }] }];
+		const tables = [
+			{ name: "Users", columns: [{ name: "id", type: "serial" }], helperReferences: ["Timestamps"] },
+			{ name: "Posts", columns: [{ name: "id", type: "serial" }], helperReferences: ["Timestamps"] },
+		];
+		const current: ProjectGeneratorConfig = { outputDir: "./db", helpers, tables };
+		const next: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			helpers: [{ name: "Timestamps", columns: [...helpers[0].columns, { name: "updatedAt", type: "date" }] }],
+			tables,
+		};
+
+		const result = await migrate(current, next);
+
+		expect(result.up).toEqual(['ALTER TABLE "users" ADD COLUMN "updatedAt" timestamp;', 'ALTER TABLE "posts" ADD COLUMN "updatedAt" timestamp;']);
+	});
+
+	it("should drop and recreate changed indexes", async () => {
+		const current: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			tables: [{ name: "Users", columns: [{ name: "email", type: "text" }], indexes: [{ name: "users_email_idx", columns: ["email"] }] }],
+		};
+		const next: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			tables: [{ name: "Users", columns: [{ name: "email", type: "text" }], indexes: [{ name: "users_email_idx", columns: ["email"], unique: true }] }],
+		};
+
+		const result = await migrate(current, next);
+
+		expect(result.up).toEqual(['DROP INDEX "users_email_idx";', 'CREATE UNIQUE INDEX "users_email_idx" ON "users" ("email");']);
+		expect(result.down).toEqual(['DROP INDEX "users_email_idx";', 'CREATE INDEX "users_email_idx" ON "users" ("email");']);
+	});
+
+	it("should recreate dropped tables in the down script", async () => {
+		const current: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			tables: [{ name: "Legacy", columns: [{ name: "id", type: "serial", options: { primaryKey: true } }] }],
+		};
+
+		const result = await migrate(current, empty);
+
+		expect(result.up).toEqual(['DROP TABLE "legacy";']);
+		expect(result.down).toEqual(['CREATE TABLE "legacy" (\n    "id" serial PRIMARY KEY\n);']);
+	});
+
+	it("should rename tables, columns and enum values instead of dropping them", async () => {
+		const current: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			enums: [{ name: "Status", values: ["active", "disabled"] }],
+			tables: [{ name: "Customers", columns: [{ name: "mail", type: "text" }] }],
+		};
+		const next: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			enums: [{ name: "Status", values: ["active", "inactive"] }],
+			tables: [{ name: "Clients", columns: [{ name: "email", type: "text" }] }],
+		};
+
+		const comparison = await detector.compareSchemas(current, next, { renames: { tables: { Customers: "Clients" }, enumValues: { Status: { disabled: "inactive" } } } });
+		const result = MigrationGenerator(comparison, { current, next });
+
+		expect(result.up).toEqual([
+			"ALTER TYPE \"status\" RENAME VALUE 'Disabled' TO 'Inactive';",
+			'ALTER TABLE "customers" RENAME TO "clients";',
+			'ALTER TABLE "clients" RENAME COLUMN "mail" TO "email";',
+		]);
+		expect(result.down).toEqual([
+			'ALTER TABLE "clients" RENAME COLUMN "email" TO "mail";',
+			'ALTER TABLE "clients" RENAME TO "customers";',
+			"ALTER TYPE \"status\" RENAME VALUE 'Inactive' TO 'Disabled';",
+		]);
+	});
+
+	it("should return error for non-postgres dialects", async () => {
+		const result = await migrate(empty, { outputDir: "./db", dialect: "mysql" });
+
+		expect(result.error).toBe("SQL migrations are not supported for dialect 'mysql'.");
+	});
+
+	describe("writeMigrationFile", () => {
+		let tempDir: string;
+
+		beforeEach(async () => {
+			tempDir = await fs.mkdtemp(join(tmpdir(), "migration-test-"));
+		});
+
+		afterEach(async () => {
+			await fs.rm(tempDir, { recursive: true, force: true });
+		});
+
+		it("should write a timestamped file with up and down sections", async () => {
+			const result = await migrate(empty, { outputDir: "./db", tables: [{ name: "Users", columns: [{ name: "id", type: "serial" }] }] });
+
+			const filePath = await writeMigrationFile(result, tempDir, { name: "addUsers", timestamp: new Date("2024-05-01T12:30:45Z") });
+
+			expect(filePath).toBe(join(tempDir, "20240501123045_add_users.sql"));
+			const content = await fs.readFile(filePath, "utf-8");
+			expect(content).toBe(`-- Migration: add_users
+-- Generated at 2024-05-01T12:30:45.000Z
+
+-- Up
+CREATE TABLE "users" (
+    "id" serial
+);
+
+-- Down
+DROP TABLE "users";
+`);
+		});
+	});
+});
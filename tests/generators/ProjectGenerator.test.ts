@@ -3,6 +3,7 @@ import { promises as fs } from "fs";
 import { join } from "path";
 import { ProjectGenerator, generateProject } from "../../src/generators/ProjectGenerator.js";
 import type { ProjectGeneratorConfig } from "../../src/definitions/index.js";
+import { MemorySink } from "../../src/output/MemorySink.js";
 
 const TEST_OUTPUT_DIR = "./test-output";
 
@@ -232,7 +233,55 @@ describe("ProjectGenerator", () => {
 
 		expect(result.success).toBe(false);
 		expect(result.errors).toBeDefined();
-		expect(result.errors?.some((error) => error.includes("Enum name and values are mandatory"))).toBe(true);
+		// Caught by config validation before the enum generator runs
+		expect(result.errors).toEqual(["$.enums[0].name: Must not be empty"]);
+	});
+
+	it("should report a missing output directory as a validation error", async () => {
+		const result = await generateProject({ tables: [{ name: "Users", columns: [{ name: "id", type: "serial" }] }] } as unknown as ProjectGeneratorConfig);
+
+		expect(result.success).toBe(false);
+		expect(result.errors).toEqual(["$.outputDir: Missing required property 'outputDir'"]);
+	});
+
+	it("should not write files when tables reference missing entities", async () => {
+		const result = await generateProject({
+			outputDir: TEST_OUTPUT_DIR,
+			overwrite: true,
+			tables: [{ name: "Posts", columns: [{ name: "author_id", type: "number", options: { references: { table: "users", column: "id" } } }], helperReferences: ["Timestamps"] }],
+		});
+
+		expect(result.success).toBe(false);
+		expect(result.errors).toEqual([
+			"$.tables[0].columns[0].options.references.table: Referenced table 'users' is not defined",
+			"$.tables[0].helperReferences[0]: Helper 'Timestamps' is not defined",
+		]);
+		await expect(fs.access(TEST_OUTPUT_DIR)).rejects.toThrow();
+	});
+
+	it("should plan files with their status and diff on a dry run without writing", async () => {
+		const config: ProjectGeneratorConfig = {
+			outputDir: TEST_OUTPUT_DIR,
+			overwrite: true,
+			enums: [{ name: "Status", values: ["active"] }],
+			tables: [{ name: "Users", columns: [{ name: "id", type: "serial", options: { primaryKey: true } }] }],
+		};
+
+		const planned = await generateProject({ ...config, dryRun: true });
+		expect(planned.success).toBe(true);
+		expect(planned.generatedFiles).toEqual([]);
+		expect(planned.plannedFiles?.every((file) => file.status === "created")).toBe(true);
+		await expect(fs.access(TEST_OUTPUT_DIR)).rejects.toThrow();
+
+		await generateProject(config);
+		const result = await generateProject({ ...config, enums: [{ name: "Status", values: ["active", "inactive"] }], dryRun: true });
+
+		expect(result.message).toBe("Dry run: 0 files to create, 1 to modify, 4 unchanged");
+		const enumFile = result.plannedFiles?.find((file) => file.path === join(TEST_OUTPUT_DIR, "enums", "Status.ts"));
+		expect(enumFile?.status).toBe("modified");
+		expect(enumFile?.diff).toContain("+++ b/enums/Status.ts");
+		expect(enumFile?.diff).toContain("+export const Status = pgEnum('status', ['Active', 'Inactive'] as const);");
+		expect(await fs.readFile(join(TEST_OUTPUT_DIR, "enums", "Status.ts"), "utf-8")).not.toContain("Inactive");
 	});
 
 	it("should generate proper index files", async () => {
@@ -310,4 +359,249 @@ describe("ProjectGenerator", () => {
 		expect(result.success).toBe(true);
 		expect(result.generatedFiles).toHaveLength(3); // enum file + enum index + main index
 	});
+
+	it("should generate MySQL code when dialect is mysql", async () => {
+		const config: ProjectGeneratorConfig = {
+			outputDir: TEST_OUTPUT_DIR,
+			overwrite: true,
+			dialect: "mysql",
+			enums: [
+				{
+					name: "UserStatus",
+					values: ["active", "inactive"],
+				},
+			],
+			tables: [
+				{
+					name: "Users",
+					columns: [
+						{
+							name: "id",
+							type: "serial",
+							options: { primaryKey: true },
+						},
+						{
+							name: "status",
+							options: { enumValues: "UserStatus" },
+						},
+					],
+				},
+			],
+		};
+
+		const result = await generateProject(config);
+		expect(result.success).toBe(true);
+
+		const enumFile = await fs.readFile(join(TEST_OUTPUT_DIR, "enums", "UserStatus.ts"), "utf-8");
+		expect(enumFile).toBe("export const UserStatus = ['Active', 'Inactive'] as const;\n");
+
+		const tableFile = await fs.readFile(join(TEST_OUTPUT_DIR, "tables", "Users.ts"), "utf-8");
+		expect(tableFile).toContain("import { mysqlEnum, mysqlTable, serial } from 'drizzle-orm/mysql-core';");
+		expect(tableFile).toContain("export const users = mysqlTable('users', {");
+		expect(tableFile).toContain("status: mysqlEnum('status', UserStatus)");
+		expect(tableFile).not.toContain("pg-core");
+	});
+
+	it("should generate SQLite code when dialect is sqlite", async () => {
+		const config: ProjectGeneratorConfig = {
+			outputDir: TEST_OUTPUT_DIR,
+			overwrite: true,
+			dialect: "sqlite",
+			enums: [
+				{
+					name: "UserStatus",
+					values: ["active", "inactive"],
+				},
+			],
+			tables: [
+				{
+					name: "Users",
+					columns: [
+						{
+							name: "id",
+							type: "serial",
+							options: { primaryKey: true },
+						},
+						{
+							name: "status",
+							options: { enumValues: "UserStatus" },
+						},
+					],
+				},
+			],
+		};
+
+		const result = await generateProject(config);
+		expect(result.success).toBe(true);
+
+		const enumFile = await fs.readFile(join(TEST_OUTPUT_DIR, "enums", "UserStatus.ts"), "utf-8");
+		expect(enumFile).toBe("export const UserStatus = ['Active', 'Inactive'] as const;\n");
+
+		const tableFile = await fs.readFile(join(TEST_OUTPUT_DIR, "tables", "Users.ts"), "utf-8");
+		expect(tableFile).toContain("import { integer, sqliteTable, text } from 'drizzle-orm/sqlite-core';");
+		expect(tableFile).toContain("status: text('status', { enum: UserStatus })");
+	});
+
+	it("should generate relation files when relations are enabled", async () => {
+		const config: ProjectGeneratorConfig = {
+			outputDir: TEST_OUTPUT_DIR,
+			overwrite: true,
+			relations: true,
+			tables: [
+				{
+					name: "Users",
+					columns: [{ name: "id", type: "serial", options: { primaryKey: true } }],
+				},
+				{
+					name: "Posts",
+					columns: [
+						{ name: "id", type: "serial", options: { primaryKey: true } },
+						{ name: "authorId", type: "number", options: { references: { table: "users", column: "id" } } },
+					],
+				},
+				{
+					name: "Tags",
+					columns: [{ name: "id", type: "serial", options: { primaryKey: true } }],
+				},
+			],
+		};
+
+		const result = await generateProject(config);
+		expect(result.success).toBe(true);
+		expect(result.structure.files.relations).toEqual(["Users.ts", "Posts.ts"]);
+		expect(result.structure.files.indexes).toContain("relations/index.ts");
+
+		const relationFile = await fs.readFile(join(TEST_OUTPUT_DIR, "relations", "Posts.ts"), "utf-8");
+		expect(relationFile).toContain("import { relations } from 'drizzle-orm';");
+		expect(relationFile).toContain("import { posts, users } from '../tables/index.js';");
+		expect(relationFile).toContain("author: one(users, { fields: [posts.authorId], references: [users.id] })");
+
+		const mainIndex = await fs.readFile(join(TEST_OUTPUT_DIR, "index.ts"), "utf-8");
+		expect(mainIndex).toContain("export * from './relations/index.js';");
+	});
+
+	it("should not generate relations unless enabled", async () => {
+		const result = await generateProject({
+			outputDir: TEST_OUTPUT_DIR,
+			overwrite: true,
+			tables: [
+				{
+					name: "Posts",
+					columns: [
+						{ name: "id", type: "serial", options: { primaryKey: true } },
+						{ name: "authorId", type: "number", options: { references: { table: "posts", column: "id" } } },
+					],
+				},
+			],
+		});
+
+		expect(result.success).toBe(true);
+		expect(result.structure.files.relations).toEqual([]);
+		await expect(fs.access(join(TEST_OUTPUT_DIR, "relations"))).rejects.toThrow();
+	});
+
+	it("should only write targeted files when targets are given", async () => {
+		const config: ProjectGeneratorConfig = {
+			outputDir: TEST_OUTPUT_DIR,
+			overwrite: true,
+			enums: [{ name: "Status", values: ["active"] }],
+			tables: [
+				{ name: "Users", columns: [{ name: "id", type: "serial" }] },
+				{ name: "Posts", columns: [{ name: "id", type: "serial" }] },
+			],
+		};
+
+		const result = await new ProjectGenerator(config).generate({ tables: ["Posts"] });
+
+		expect(result.success).toBe(true);
+		expect(result.generatedFiles).toEqual([join(TEST_OUTPUT_DIR, "tables", "Posts.ts")]);
+		expect(result.structure.files.tables).toEqual(["Users.ts", "Posts.ts"]);
+		await expect(fs.access(join(TEST_OUTPUT_DIR, "tables", "index.ts"))).rejects.toThrow();
+	});
+
+	describe("manifest", () => {
+		const config: ProjectGeneratorConfig = {
+			outputDir: "db",
+			overwrite: true,
+			tables: [
+				{ name: "Users", columns: [{ name: "id", type: "serial" }] },
+				{ name: "Posts", columns: [{ name: "id", type: "serial" }] },
+			],
+		};
+		const withoutPosts: ProjectGeneratorConfig = { ...config, tables: [config.tables![0]] };
+
+		it("should record the generated files with their hashes", async () => {
+			const sink = new MemorySink();
+			await generateProject(config, { sink });
+
+			const manifest = JSON.parse((await sink.read("db/.drizzle-gen-manifest.json"))!);
+			expect(manifest.version).toBe(1);
+			expect(Object.keys(manifest.files)).toEqual(["index.ts", "tables/index.ts", "tables/Posts.ts", "tables/Users.ts"]);
+			expect(manifest.files["tables/Users.ts"]).toMatch(/^[0-9a-f]{64}$/);
+		});
+
+		it("should report files the config no longer produces and delete them with prune", async () => {
+			const sink = new MemorySink();
+			await generateProject(config, { sink });
+
+			const reported = await generateProject(withoutPosts, { sink });
+			expect(reported.success).toBe(true);
+			expect(reported.orphanedFiles).toEqual([join("db", "tables", "Posts.ts")]);
+			expect(await sink.read("db/tables/Posts.ts")).toBeDefined();
+			expect(await sink.read("db/tables/index.ts")).toBe("export * from './Users.js';\n");
+
+			const planned = await generateProject({ ...withoutPosts, prune: true, dryRun: true }, { sink });
+			expect(planned.message).toBe("Dry run: 0 files to create, 0 to modify, 1 to delete, 3 unchanged");
+			expect(planned.plannedFiles?.find((file) => file.status === "deleted")?.diff).toContain("--- a/tables/Posts.ts\n+++ /dev/null");
+
+			const pruned = await generateProject({ ...withoutPosts, prune: true }, { sink });
+			expect(pruned.removedFiles).toEqual([join("db", "tables", "Posts.ts")]);
+			expect(await sink.read("db/tables/Posts.ts")).toBeUndefined();
+			expect(await sink.read("db/.drizzle-gen-manifest.json")).not.toContain("Posts");
+		});
+
+		it("should report files edited by hand and overwrite them, without pruning them", async () => {
+			const sink = new MemorySink();
+			await generateProject(config, { sink });
+			await sink.write("db/tables/Users.ts", `${await sink.read("db/tables/Users.ts")}export const admins = 1;\n`);
+			await sink.write("db/tables/Posts.ts", `// keep\n${await sink.read("db/tables/Posts.ts")}`);
+
+			const result = await generateProject({ ...withoutPosts, prune: true }, { sink });
+
+			expect(result.success).toBe(true);
+			expect(result.errors).toBeUndefined();
+			expect(result.editedFiles).toEqual([join("db", "tables", "Users.ts"), join("db", "tables", "Posts.ts")]);
+			expect(await sink.read("db/tables/Users.ts")).not.toContain("export const admins = 1;");
+			expect(await sink.read("db/tables/Posts.ts")).toContain("// keep");
+		});
+
+		it("should not overwrite or prune files edited by hand with keepEditedFiles", async () => {
+			const sink = new MemorySink();
+			await generateProject(config, { sink });
+			await sink.write("db/tables/Users.ts", `${await sink.read("db/tables/Users.ts")}export const admins = 1;\n`);
+			await sink.write("db/tables/Posts.ts", `// keep\n${await sink.read("db/tables/Posts.ts")}`);
+
+			const result = await generateProject({ ...withoutPosts, prune: true, keepEditedFiles: true }, { sink });
+
+			expect(result.errors).toEqual([
+				`${join("db", "tables", "Users.ts")}: edited by hand since the last generation, file not regenerated (move the changes into a custom region or delete the file)`,
+			]);
+			expect(result.editedFiles).toEqual([join("db", "tables", "Users.ts")]);
+			expect(await sink.read("db/tables/Users.ts")).toContain("export const admins = 1;");
+			expect(await sink.read("db/tables/Posts.ts")).toContain("// keep");
+		});
+
+		it("should not count custom regions as hand edits", async () => {
+			const sink = new MemorySink();
+			await generateProject(config, { sink });
+			const users = await sink.read("db/tables/Users.ts");
+			await sink.write("db/tables/Users.ts", `${users}\n// @drizzle-gen:begin-custom\nexport const admins = 1;\n// @drizzle-gen:end-custom\n`);
+
+			const result = await generateProject(config, { sink });
+
+			expect(result.success).toBe(true);
+			expect(result.editedFiles).toBeUndefined();
+			expect(await sink.read("db/tables/Users.ts")).toContain("export const admins = 1;");
+		});
+	});
 });
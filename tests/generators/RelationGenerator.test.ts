@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { RelationGenerator } from "../../src/generators/RelationGenerator.js";
+import type { TableDefinition, HelperDefinition } from "../../src/definitions/index.js";
+
+const users: TableDefinition = {
+	name: "Users",
+	columns: [{ name: "id", type: "serial", options: { primaryKey: true } }],
+};
+
+const posts: TableDefinition = {
+	name: "Posts",
+	columns: [
+		{ name: "id", type: "serial", options: { primaryKey: true } },
+		{ name: "authorId", type: "number", options: { notNull: true, references: { table: "users", column: "id" } } },
+	],
+};
+
+describe("RelationGenerator", () => {
+	it("should generate one() relations from foreign keys", () => {
+		const result = RelationGenerator(posts, { tables: [users, posts] });
+
+		expect(result.error).toBeUndefined();
+		expect(result.relationCode).toBe(`export const postsRelations = relations(posts, ({ one }) => ({
+    author: one(users, { fields: [posts.authorId], references: [users.id] })
+}));`);
+		expect(result.imports).toEqual({
+			"drizzle-orm": ["relations"],
+			"../tables/index.js": ["users", "posts"],
+		});
+		expect(result.tables).toEqual(["users"]);
+	});
+
+	it("should generate many() relations for referenced tables", () => {
+		const result = RelationGenerator(users, { tables: [users, posts] });
+
+		expect(result.error).toBeUndefined();
+		expect(result.relationCode).toBe(`export const usersRelations = relations(users, ({ many }) => ({
+    posts: many(posts)
+}));`);
+		expect(result.tables).toEqual(["posts"]);
+	});
+
+	it("should return empty code for tables without relations", () => {
+		const tags: TableDefinition = { name: "Tags", columns: [{ name: "id", type: "serial" }] };
+
+		const result = RelationGenerator(tags, { tables: [users, posts, tags] });
+
+		expect(result.error).toBeUndefined();
+		expect(result.relationCode).toBe("");
+		expect(result.imports).toEqual({});
+	});
+
+	it("should ignore references to tables outside the project", () => {
+		const result = RelationGenerator(posts, { tables: [posts] });
+
+		expect(result.relationCode).toBe("");
+	});
+
+	it("should include foreign keys from helper columns", () => {
+		const helpers: HelperDefinition[] = [
+			{
+				name: "Ownership",
+				columns: [{ name: "ownerId", type: "number", options: { references: { table: "users", column: "id" } } }],
+			},
+		];
+		const documents: TableDefinition = {
+			name: "Documents",
+			columns: [{ name: "id", type: "serial" }],
+			helperReferences: ["Ownership"],
+		};
+
+		const result = RelationGenerator(documents, { tables: [users, documents], helpers });
+
+		expect(result.relationCode).toContain("owner: one(users, { fields: [documents.ownerId], references: [users.id] })");
+	});
+
+	it("should disambiguate self references with a relation name", () => {
+		const categories: TableDefinition = {
+			name: "Categories",
+			columns: [
+				{ name: "id", type: "serial" },
+				{ name: "parentId", type: "number", options: { references: { table: "categories", column: "id" } } },
+			],
+		};
+
+		const result = RelationGenerator(categories, { tables: [categories] });
+
+		expect(result.relationCode).toBe(`export const categoriesRelations = relations(categories, ({ one, many }) => ({
+    parent: one(categories, { fields: [categories.parentId], references: [categories.id], relationName: 'categories_parentId' }),
+    categoriesByParent: many(categories, { relationName: 'categories_parentId' })
+}));`);
+	});
+
+	it("should apply name overrides", () => {
+		const result = RelationGenerator(users, { tables: [users, posts] }, {
+			overrides: [{ table: "posts", column: "authorId", name: "writer", inverseName: "articles" }],
+		});
+
+		expect(result.relationCode).toContain("articles: many(posts)");
+	});
+
+	it("should generate many-to-many relations through a junction table", () => {
+		const groups: TableDefinition = { name: "Groups", columns: [{ name: "id", type: "serial" }] };
+		const usersToGroups: TableDefinition = {
+			name: "UsersToGroups",
+			columns: [
+				{ name: "userId", type: "number" },
+				{ name: "groupId", type: "number" },
+			],
+			compositePrimaryKey: ["userId", "groupId"],
+		};
+		const project = { tables: [users, groups, usersToGroups] };
+		const config = {
+			manyToMany: [
+				{
+					through: "UsersToGroups",
+					left: { column: "userId", references: { table: "users", column: "id" }, name: "memberships" },
+					right: { column: "groupId", references: { table: "groups", column: "id" } },
+				},
+			],
+		};
+
+		const junction = RelationGenerator(usersToGroups, project, config);
+		expect(junction.relationCode).toBe(`export const userstogroupsRelations = relations(userstogroups, ({ one }) => ({
+    user: one(users, { fields: [userstogroups.userId], references: [users.id] }),
+    group: one(groups, { fields: [userstogroups.groupId], references: [groups.id] })
+}));`);
+
+		expect(RelationGenerator(users, project, config).relationCode).toContain("memberships: many(userstogroups)");
+		expect(RelationGenerator(groups, project, config).relationCode).toContain("userstogroups: many(userstogroups)");
+	});
+
+	it("should return error when table name is missing", () => {
+		const result = RelationGenerator({ name: "", columns: [] }, { tables: [] });
+
+		expect(result.error).toBe("Table name is required.");
+		expect(result.relationCode).toBe("");
+	});
+});
@@ -278,6 +278,169 @@ describe("TableGenerator", () => {
 		});
 	});
 
+	describe("Indexes", () => {
+		it("should render indexes in the extra-config callback", () => {
+			const definition: TableDefinition = {
+				name: "Users",
+				columns: [
+					{ name: "email", type: "string", options: { notNull: true } },
+					{ name: "tags", type: "json" },
+					{ name: "deletedAt", type: "date" },
+				],
+				indexes: [
+					{ name: "users_email_idx", columns: ["email"], unique: true, where: "deleted_at is null" },
+					{ name: "users_tags_idx", columns: ["tags"], method: "gin" },
+				],
+			};
+
+			const result = TableGenerator(definition);
+
+			expect(result.error).toBeUndefined();
+			expect(result.tableCode).toBe(`export const users = pgTable('users', {
+    email: varchar('email').notNull(),
+    tags: jsonb('tags'),
+    deletedAt: timestamp('deletedAt')
+}, (users) => ({
+    users_email_idx: uniqueIndex('users_email_idx').on(users.email).where(sql\`deleted_at is null\`),
+    users_tags_idx: index('users_tags_idx').using('gin', users.tags)
+}));`);
+			expect(result.imports).toEqual({
+				"drizzle-orm/pg-core": ["pgTable", "varchar", "jsonb", "timestamp", "uniqueIndex", "index"],
+				"drizzle-orm": ["sql"],
+			});
+		});
+
+		it("should combine indexes with a composite primary key", () => {
+			const definition: TableDefinition = {
+				name: "Memberships",
+				columns: [
+					{ name: "userId", type: "number" },
+					{ name: "teamId", type: "number" },
+				],
+				compositePrimaryKey: ["userId", "teamId"],
+				indexes: [{ name: "memberships_team_idx", columns: ["teamId"] }],
+			};
+
+			const result = TableGenerator(definition);
+
+			expect(result.error).toBeUndefined();
+			expect(result.tableCode).toContain(`}, (memberships) => ({
+    compositePK: primaryKey({ columns: [memberships.userId, memberships.teamId] }),
+    memberships_team_idx: index('memberships_team_idx').on(memberships.teamId)
+}));`);
+		});
+
+		it("should chain index methods after on() for MySQL", () => {
+			const result = TableGenerator(
+				{
+					name: "Users",
+					columns: [{ name: "email", type: "string" }],
+					indexes: [{ name: "users_email_idx", columns: ["email"], method: "btree" }],
+				},
+				"mysql"
+			);
+
+			expect(result.error).toBeUndefined();
+			expect(result.tableCode).toContain("users_email_idx: index('users_email_idx').on(users.email).using('btree')");
+		});
+
+		it("should reject index features the dialect does not support", () => {
+			const result = TableGenerator(
+				{
+					name: "Users",
+					columns: [{ name: "email", type: "string" }],
+					indexes: [{ name: "users_email_idx", columns: ["email"], method: "gin" }],
+				},
+				"sqlite"
+			);
+
+			expect(result.error).toBe("Error in index 'users_email_idx': Dialect 'sqlite' does not support index methods.");
+		});
+	});
+
+	describe("Unique constraints", () => {
+		it("should render composite unique constraints", () => {
+			const definition: TableDefinition = {
+				name: "Members",
+				columns: [
+					{ name: "tenantId", type: "number" },
+					{ name: "email", type: "string" },
+				],
+				uniqueConstraints: [{ name: "members_tenant_email_unique", columns: ["tenantId", "email"] }],
+			};
+
+			const result = TableGenerator(definition);
+
+			expect(result.error).toBeUndefined();
+			expect(result.tableCode).toContain(`}, (members) => ({
+    members_tenant_email_unique: unique('members_tenant_email_unique').on(members.tenantId, members.email)
+}));`);
+			expect(result.imports["drizzle-orm/pg-core"]).toContain("unique");
+		});
+
+		it("should return error for unique constraint without columns", () => {
+			const result = TableGenerator({
+				name: "Members",
+				columns: [{ name: "email", type: "string" }],
+				uniqueConstraints: [{ name: "members_email_unique", columns: [] }],
+			});
+
+			expect(result.error).toBe("Error in unique constraint 'members_email_unique': At least one column is required.");
+		});
+	});
+
+	describe("Check constraints", () => {
+		it("should render named check constraints", () => {
+			const definition: TableDefinition = {
+				name: "Bookings",
+				columns: [
+					{ name: "price", type: "number" },
+					{ name: "startDate", type: "date" },
+					{ name: "endDate", type: "date" },
+				],
+				checks: [
+					{ name: "bookings_price_check", expression: "price >= 0" },
+					{ name: "bookings_dates_check", expression: "end_date > start_date" },
+				],
+			};
+
+			const result = TableGenerator(definition);
+
+			expect(result.error).toBeUndefined();
+			expect(result.tableCode).toContain(`}, (bookings) => ({
+    bookings_price_check: check('bookings_price_check', sql\`price >= 0\`),
+    bookings_dates_check: check('bookings_dates_check', sql\`end_date > start_date\`)
+}));`);
+			expect(result.imports["drizzle-orm/pg-core"]).toContain("check");
+			expect(result.imports["drizzle-orm"]).toEqual(["sql"]);
+		});
+
+		it("should escape backticks, backslashes and substitutions in SQL expressions", () => {
+			const definition: TableDefinition = {
+				name: "Products",
+				columns: [{ name: "code", type: "text" }],
+				indexes: [{ name: "products_code_idx", columns: ["code"], where: "code <> '${process.exit()}'" }],
+				checks: [{ name: "products_code_check", expression: "code ~ '^\\d+$' AND code <> '`'" }],
+			};
+
+			const result = TableGenerator(definition);
+
+			expect(result.error).toBeUndefined();
+			expect(result.tableCode).toContain("products_code_idx: index('products_code_idx').on(products.code).where(sql`code <> '\\${process.exit()}'`)");
+			expect(result.tableCode).toContain("products_code_check: check('products_code_check', sql`code ~ '^\\\\d+$' AND code <> '\\`'`)");
+		});
+
+		it("should return error for check constraint without expression", () => {
+			const result = TableGenerator({
+				name: "Bookings",
+				columns: [{ name: "price", type: "number" }],
+				checks: [{ name: "bookings_price_check", expression: "" }],
+			});
+
+			expect(result.error).toBe("Error in check constraint 'bookings_price_check': Expression is required.");
+		});
+	});
+
 	describe("Error handling", () => {
 		it("should return error for empty table name", () => {
 			const definition: TableDefinition = {
@@ -363,4 +526,78 @@ describe("TableGenerator", () => {
 			});
 		});
 	});
+
+	describe("MySQL dialect", () => {
+		it("should generate mysqlTable with composite primary key", () => {
+			const definition: TableDefinition = {
+				name: "OrderItems",
+				columns: [
+					{
+						name: "orderId",
+						type: "number",
+						options: {
+							notNull: true,
+						},
+					},
+					{
+						name: "productId",
+						type: "number",
+						options: {
+							notNull: true,
+						},
+					},
+				],
+				compositePrimaryKey: ["orderId", "productId"],
+			};
+
+			const result = TableGenerator(definition, "mysql");
+
+			expect(result.error).toBeUndefined();
+			expect(result.tableCode).toBe(`export const orderitems = mysqlTable('order_items', {
+    orderId: int('orderId').notNull(),
+    productId: int('productId').notNull()
+}, (orderitems) => ({
+    compositePK: primaryKey({ columns: [orderitems.orderId, orderitems.productId] })
+}));`);
+			expect(result.imports).toEqual({
+				"drizzle-orm/mysql-core": ["mysqlTable", "int", "primaryKey"],
+			});
+		});
+	});
+
+	describe("SQLite dialect", () => {
+		it("should generate sqliteTable", () => {
+			const definition: TableDefinition = {
+				name: "Users",
+				columns: [
+					{
+						name: "id",
+						type: "serial",
+						options: {
+							primaryKey: true,
+						},
+					},
+					{
+						name: "email",
+						type: "string",
+						options: {
+							length: 255,
+							notNull: true,
+						},
+					},
+				],
+			};
+
+			const result = TableGenerator(definition, "sqlite");
+
+			expect(result.error).toBeUndefined();
+			expect(result.tableCode).toBe(`export const users = sqliteTable('users', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    email: text('email', { length: 255 }).notNull()
+});`);
+			expect(result.imports).toEqual({
+				"drizzle-orm/sqlite-core": ["sqliteTable", "integer", "text"],
+			});
+		});
+	});
 });
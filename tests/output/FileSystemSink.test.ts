@@ -0,0 +1,34 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { FileSystemSink } from "../../src/output/FileSystemSink.js";
+
+describe("FileSystemSink", () => {
+	let tempDir: string;
+	const sink = new FileSystemSink();
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(join(tmpdir(), "drizzle-sink-test-"));
+	});
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it("should write files and create their directories", async () => {
+		await sink.write(join(tempDir, "tables", "Users.ts"), "export const users = 1;\n");
+
+		expect(await sink.read(join(tempDir, "tables", "Users.ts"))).toBe("export const users = 1;\n");
+	});
+
+	it("should read missing files as undefined", async () => {
+		expect(await sink.read(join(tempDir, "missing.ts"))).toBeUndefined();
+	});
+
+	it("should rethrow errors other than a missing file", async () => {
+		await fs.mkdir(join(tempDir, "tables"));
+
+		await expect(sink.read(join(tempDir, "tables"))).rejects.toMatchObject({ code: "EISDIR" });
+	});
+});
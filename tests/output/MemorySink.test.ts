@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { MemorySink } from "../../src/output/MemorySink.js";
+import { generateProject } from "../../src/generators/ProjectGenerator.js";
+
+describe("MemorySink", () => {
+	it("should collect a generated project without touching the disk", async () => {
+		const sink = new MemorySink();
+
+		const result = await generateProject(
+			{
+				outputDir: "./db",
+				enums: [{ name: "Status", values: ["active"] }],
+				tables: [{ name: "Users", columns: [{ name: "id", type: "serial", options: { primaryKey: true } }] }],
+			},
+			{ sink }
+		);
+
+		expect(result.success).toBe(true);
+		expect(Object.keys(sink.toObject())).toEqual(["db/.drizzle-gen-manifest.json", "db/enums/index.ts", "db/enums/Status.ts", "db/index.ts", "db/tables/index.ts", "db/tables/Users.ts"]);
+		expect(sink.toObject()["db/tables/Users.ts"]).toContain("export const users = pgTable('users', {");
+	});
+
+	it("should treat seeded files as existing ones", async () => {
+		const sink = new MemorySink({ "db/enums/Status.ts": "// hand-written\n" });
+		const config = { outputDir: "db", enums: [{ name: "Status", values: ["active"] }] };
+
+		const refused = await generateProject(config, { sink });
+		expect(refused.errors).toContain("File already exists: db/enums/Status.ts (use overwrite: true to replace)");
+
+		const planned = await generateProject({ ...config, dryRun: true }, { sink });
+		expect(planned.plannedFiles?.find((file) => file.path === "db/enums/Status.ts")?.status).toBe("modified");
+		expect(await sink.read("./db/enums/Status.ts")).toBe("// hand-written\n");
+	});
+});
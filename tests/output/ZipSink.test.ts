@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { inflateRawSync } from "zlib";
+import { ZipSink } from "../../src/output/ZipSink.js";
+
+/**
+ * Read the entries of a zip archive through its central directory
+ */
+function readZip(zip: Buffer): { [name: string]: string } {
+	const end = zip.length - 22;
+	expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+
+	const entries: { [name: string]: string } = {};
+	let position = zip.readUInt32LE(end + 16);
+	for (let i = 0; i < zip.readUInt16LE(end + 10); i++) {
+		const compressedSize = zip.readUInt32LE(position + 20);
+		const nameLength = zip.readUInt16LE(position + 28);
+		const localOffset = zip.readUInt32LE(position + 42);
+		const name = zip.toString("utf-8", position + 46, position + 46 + nameLength);
+
+		const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26);
+		entries[name] = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize)).toString("utf-8");
+		position += 46 + nameLength;
+	}
+	return entries;
+}
+
+describe("ZipSink", () => {
+	it("should pack written files relative to its root", async () => {
+		const sink = new ZipSink("./db");
+		await sink.write("db/index.ts", "export * from './tables/index.js';\n");
+		await sink.write("db/tables/Users.ts", "export const users = 1; // é\n");
+
+		expect(readZip(sink.toZip())).toEqual({
+			"index.ts": "export * from './tables/index.js';\n",
+			"tables/Users.ts": "export const users = 1; // é\n",
+		});
+	});
+
+	it("should produce identical archives for identical files", async () => {
+		const first = new ZipSink();
+		const second = new ZipSink();
+		await first.write("a.ts", "a");
+		await second.write("a.ts", "a");
+
+		expect(first.toZip().equals(second.toZip())).toBe(true);
+	});
+
+	it("should reject files outside of its root", async () => {
+		const sink = new ZipSink("db");
+		await sink.write("db/./tables/../index.ts", "index");
+
+		await expect(sink.write("db/../secret.ts", "secret")).rejects.toThrow("outside of 'db'");
+		await expect(sink.write("/etc/passwd", "root")).rejects.toThrow("outside of 'db'");
+		await expect(new ZipSink().write("../secret.ts", "secret")).rejects.toThrow("outside of '.'");
+		await expect(new ZipSink().write("/secret.ts", "secret")).rejects.toThrow("outside of '.'");
+		expect(readZip(sink.toZip())).toEqual({ "index.ts": "index" });
+	});
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { blankCustomRegions, findCustomRegions, mergeCustomRegions } from "../../src/utils/CustomRegions.js";
+
+const existing = `import { pgTable, serial } from 'drizzle-orm/pg-core';
+
+export const users = pgTable('users', {
+    id: serial('id')
+});
+
+// @drizzle-gen:begin-custom
+export type User = typeof users.$inferSelect;
+// @drizzle-gen:end-custom
+`;
+
+describe("custom regions", () => {
+	it("should find regions with their anchor line", () => {
+		const { regions, error } = findCustomRegions(existing);
+
+		expect(error).toBeUndefined();
+		expect(regions).toHaveLength(1);
+		expect(regions[0]).toMatchObject({ name: "", declaration: "users", nested: false, anchor: "});", leadingBlankLines: 1, start: 6, end: 8 });
+	});
+
+	it("should report unbalanced markers", () => {
+		expect(findCustomRegions("// @drizzle-gen:begin-custom\nconst a = 1;\n").error).toBe("Custom region starting at line 1 is not closed");
+		expect(findCustomRegions("// @drizzle-gen:end-custom\n").error).toBe("Custom region end without a begin at line 1");
+		expect(findCustomRegions("// @drizzle-gen:begin-custom\n// @drizzle-gen:begin-custom\n").error).toBe("Nested custom region at line 2");
+	});
+
+	it("should put regions back after their anchor line in regenerated content", () => {
+		const generated = `import { pgTable, serial, text } from 'drizzle-orm/pg-core';
+
+export const users = pgTable('users', {
+    id: serial('id'),
+    name: text('name')
+});
+`;
+
+		expect(mergeCustomRegions(generated, existing).content).toBe(`import { pgTable, serial, text } from 'drizzle-orm/pg-core';
+
+export const users = pgTable('users', {
+    id: serial('id'),
+    name: text('name')
+});
+
+// @drizzle-gen:begin-custom
+export type User = typeof users.$inferSelect;
+// @drizzle-gen:end-custom
+`);
+	});
+
+	it("should keep regions after their declaration when its lines change", () => {
+		const old = `import { pgTable, serial } from 'drizzle-orm/pg-core';
+// @drizzle-gen:begin-custom
+import { helper } from '../helper';
+// @drizzle-gen:end-custom
+
+export const users = pgTable('users', {
+    id: serial('id'),
+    // @drizzle-gen:begin-custom
+    legacy: serial('legacy'),
+    // @drizzle-gen:end-custom
+});
+
+// @drizzle-gen:begin-custom
+export type User = typeof users.$inferSelect;
+// @drizzle-gen:end-custom
+
+export const posts = pgTable('posts', {
+    id: serial('id')
+});
+`;
+		const generated = `import { index, pgTable, serial } from 'drizzle-orm/pg-core';
+
+export const users = pgTable('users', {
+    id: serial('id'),
+    email: serial('email')
+}, (users) => ({
+    emailIdx: index('email_idx').on(users.email)
+}));
+
+export const posts = pgTable('posts', {
+    id: serial('id')
+});
+`;
+
+		expect(mergeCustomRegions(generated, old).content).toBe(`import { index, pgTable, serial } from 'drizzle-orm/pg-core';
+// @drizzle-gen:begin-custom
+import { helper } from '../helper';
+// @drizzle-gen:end-custom
+
+export const users = pgTable('users', {
+    id: serial('id'),
+    // @drizzle-gen:begin-custom
+    legacy: serial('legacy'),
+    // @drizzle-gen:end-custom
+    email: serial('email')
+}, (users) => ({
+    emailIdx: index('email_idx').on(users.email)
+}));
+
+// @drizzle-gen:begin-custom
+export type User = typeof users.$inferSelect;
+// @drizzle-gen:end-custom
+
+export const posts = pgTable('posts', {
+    id: serial('id')
+});
+`);
+	});
+
+	it("should fill named regions and append regions whose anchor is gone", () => {
+		const old = "a\n// @drizzle-gen:begin-custom extras\nkept\n// @drizzle-gen:end-custom\nb\n// @drizzle-gen:begin-custom\nmoved\n// @drizzle-gen:end-custom\n";
+		const generated = "a\n// @drizzle-gen:begin-custom extras\n// @drizzle-gen:end-custom\nc\n";
+
+		expect(mergeCustomRegions(generated, old).content).toBe(
+			"a\n// @drizzle-gen:begin-custom extras\nkept\n// @drizzle-gen:end-custom\nc\n\n// @drizzle-gen:begin-custom\nmoved\n// @drizzle-gen:end-custom\n"
+		);
+	});
+
+	it("should blank regions while keeping line positions", () => {
+		const { content } = blankCustomRegions(existing);
+
+		expect(content.split("\n")).toHaveLength(existing.split("\n").length);
+		expect(content).not.toContain("$inferSelect");
+	});
+});
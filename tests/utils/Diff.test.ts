@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { unifiedDiff } from "../../src/utils/Diff.js";
+
+describe("unifiedDiff", () => {
+	it("should return an empty string for equal texts", () => {
+		expect(unifiedDiff("a\nb\n", "a\nb\n", "file.ts")).toBe("");
+	});
+
+	it("should print changed lines with their context and hunk ranges", () => {
+		const oldText = ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j", "k", "l"].join("\n") + "\n";
+		const newText = ["a", "B", "c", "d", "e", "f", "g", "h", "i", "j", "k", "l", "m"].join("\n") + "\n";
+
+		expect(unifiedDiff(oldText, newText, "a/file.ts", "b/file.ts")).toBe(
+			["--- a/file.ts", "+++ b/file.ts", "@@ -1,5 +1,5 @@", " a", "-b", "+B", " c", " d", " e", "@@ -10,3 +10,4 @@", " j", " k", " l", "+m", ""].join("\n")
+		);
+	});
+
+	it("should merge changes whose context overlaps into one hunk", () => {
+		expect(unifiedDiff("a\nb\nc\nd\n", "x\nb\nc\ny\n", "file.ts", "file.ts", 1)).toBe(
+			["--- file.ts", "+++ file.ts", "@@ -1,4 +1,4 @@", "-a", "+x", " b", " c", "-d", "+y", ""].join("\n")
+		);
+	});
+});
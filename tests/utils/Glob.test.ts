@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { expandGlobs, globToRegExp, isGlob } from "../../src/utils/Glob.js";
+
+describe("globToRegExp", () => {
+	it("should match single path segments with * and ?", () => {
+		expect(globToRegExp("src/*.ts").test("src/schema.ts")).toBe(true);
+		expect(globToRegExp("src/*.ts").test("src/db/schema.ts")).toBe(false);
+		expect(globToRegExp("v?.ts").test("v1.ts")).toBe(true);
+	});
+
+	it("should match any depth with **", () => {
+		const matcher = globToRegExp("src/**/*.ts");
+		expect(matcher.test("src/schema.ts")).toBe(true);
+		expect(matcher.test("src/db/tables/users.ts")).toBe(true);
+		expect(matcher.test("lib/schema.ts")).toBe(false);
+	});
+
+	it("should match brace alternatives", () => {
+		const matcher = globToRegExp("db/{tables,enums}.ts");
+		expect(matcher.test("db/tables.ts")).toBe(true);
+		expect(matcher.test("db/enums.ts")).toBe(true);
+		expect(matcher.test("db/helpers.ts")).toBe(false);
+	});
+
+	it("should detect glob patterns", () => {
+		expect(isGlob("src/**/*.ts")).toBe(true);
+		expect(isGlob("src/schema.ts")).toBe(false);
+	});
+});
+
+describe("expandGlobs", () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(join(tmpdir(), "glob-test-"));
+		for (const file of ["schema.ts", "db/users.ts", "db/types.d.ts", "db/notes.md", "node_modules/pkg/index.ts"]) {
+			await fs.mkdir(join(tempDir, file, ".."), { recursive: true });
+			await fs.writeFile(join(tempDir, file), "");
+		}
+	});
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it("should expand files, directories and globs to sorted absolute paths", async () => {
+		const files = await expandGlobs(["schema.ts", "db"], tempDir);
+
+		expect(files).toEqual([join(tempDir, "db", "users.ts"), join(tempDir, "schema.ts")]);
+	});
+
+	it("should skip node_modules when walking a glob", async () => {
+		const files = await expandGlobs(["**/*.ts"], tempDir);
+
+		expect(files).toEqual([join(tempDir, "db", "types.d.ts"), join(tempDir, "db", "users.ts"), join(tempDir, "schema.ts")]);
+	});
+
+	it("should return nothing for missing paths", async () => {
+		expect(await expandGlobs(["missing.ts", "missing/**/*.ts"], tempDir)).toEqual([]);
+	});
+});
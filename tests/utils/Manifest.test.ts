@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { hashGeneratedContent, parseManifest, serializeManifest } from "../../src/utils/Manifest.js";
+
+describe("Manifest", () => {
+	it("should hash files the same with or without custom regions", () => {
+		const generated = "export const a = 1;\n";
+		const customized = "export const a = 1;\n\n// @drizzle-gen:begin-custom\nexport const b = 2;\n// @drizzle-gen:end-custom\n";
+
+		expect(hashGeneratedContent(customized)).toBe(hashGeneratedContent(generated));
+		expect(hashGeneratedContent("export const a = 2;\n")).not.toBe(hashGeneratedContent(generated));
+	});
+
+	it("should round-trip manifests with sorted paths and ignore other files", () => {
+		const serialized = serializeManifest({ version: 1, files: { "tables/Users.ts": "b", "index.ts": "a" } });
+
+		expect(Object.keys(JSON.parse(serialized).files)).toEqual(["index.ts", "tables/Users.ts"]);
+		expect(parseManifest(serialized)).toEqual({ version: 1, files: { "index.ts": "a", "tables/Users.ts": "b" } });
+		expect(parseManifest("{}")).toBeUndefined();
+		expect(parseManifest("not json")).toBeUndefined();
+		expect(parseManifest(undefined)).toBeUndefined();
+	});
+});
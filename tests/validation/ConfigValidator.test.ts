@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { promises as fs } from "fs";
+import { join } from "path";
+import { getConfigJsonSchema, validateConfig } from "../../src/validation/index.js";
+
+const root = join(__dirname, "..", "..");
+
+describe("validateConfig", () => {
+	it("should accept the bundled test schemas", async () => {
+		for (const file of await fs.readdir(join(root, "test-schemas"))) {
+			const config = JSON.parse(await fs.readFile(join(root, "test-schemas", file), "utf-8"));
+			expect(validateConfig(config), file).toEqual({ valid: true, errors: [] });
+		}
+	});
+
+	it("should report typos, wrong types and missing properties with their JSON path", () => {
+		const result = validateConfig({
+			outputDir: "./db",
+			dialect: 42,
+			tables: [
+				{
+					name: "Users",
+					columns: [
+						{ name: "id", type: "serial", options: { primaryKey: true } },
+						{ name: "email", type: "string", options: { notnull: true, length: "255" } },
+						{ type: "text" },
+					],
+					indexes: [{ name: "users_email_idx", columns: [] }],
+				},
+			],
+			relations: { overrides: [{ table: "posts", column: "author_id", inverse: "posts" }] },
+		});
+
+		expect(result.valid).toBe(false);
+		expect(result.errors).toEqual([
+			{ path: "$.dialect", message: "Expected one of 'postgresql', 'mysql', 'sqlite' or string, got number" },
+			{ path: "$.tables[0].columns[1].options.notnull", message: "Unknown property 'notnull', did you mean 'notNull'?" },
+			{ path: "$.tables[0].columns[1].options.length", message: "Expected integer, got string" },
+			{ path: "$.tables[0].columns[2].name", message: "Missing required property 'name'" },
+			{ path: "$.tables[0].indexes[0].columns", message: "Must have at least 1 item" },
+			{ path: "$.relations.overrides[0].inverse", message: "Unknown property 'inverse'" },
+		]);
+	});
+
+	it("should reject invalid referential actions and duplicate enum values", () => {
+		const result = validateConfig({
+			outputDir: "./db",
+			enums: [{ name: "Status", values: ["active", "active"] }],
+			helpers: [{ name: "Owned", columns: [{ name: "owner_id", type: "number", options: { references: { table: "users", column: "id", onDelete: "delete" } } }] }],
+		});
+
+		expect(result.errors).toEqual([
+			{ path: "$.enums[0].values[1]", message: 'Duplicate value "active"' },
+			{ path: "$.helpers[0].columns[0].options.references.onDelete", message: "Expected one of 'cascade', 'restrict', 'set null', 'set default', 'no action', got \"delete\"" },
+		]);
+	});
+
+	it("should require the output directory only when asked to", () => {
+		const config = { tables: [{ name: "Users", columns: [{ name: "id", type: "serial" }] }] };
+
+		expect(validateConfig(config).valid).toBe(true);
+		expect(validateConfig(config, { requireOutputDir: true }).errors).toEqual([{ path: "$.outputDir", message: "Missing required property 'outputDir'" }]);
+	});
+
+	it("should keep the published JSON Schema in sync with the definitions", async () => {
+		const published = JSON.parse(await fs.readFile(join(root, "schema", "drizzle-gen.schema.json"), "utf-8"));
+
+		// Regenerate with `npm run schema` after changing the config format
+		expect(published).toEqual(getConfigJsonSchema());
+	});
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { validateSemantics } from "../../src/validation/SemanticValidator.js";
+import { validateConfig } from "../../src/validation/ConfigValidator.js";
+import type { ProjectGeneratorConfig } from "../../src/definitions/index.js";
+
+describe("validateSemantics", () => {
+	it("should report every broken cross-entity reference at once", () => {
+		const config: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			enums: [{ name: "Status", values: ["active", "inactive"] }],
+			helpers: [{ name: "Timestamps", columns: [{ name: "created_at", type: "date" }] }],
+			tables: [
+				{
+					name: "Users",
+					columns: [
+						{ name: "id", type: "serial", options: { primaryKey: true } },
+						{ name: "status", options: { enumValues: "Status", default: "deleted" } },
+						{ name: "role", options: { enumValues: "Role" } },
+						{ name: "created_at", type: "date" },
+					],
+					helperReferences: ["Timestamps", "SoftDelete"],
+				},
+				{
+					name: "Posts",
+					columns: [
+						{ name: "author_id", type: "number", options: { references: { table: "Users", column: "id" } } },
+						{ name: "editor_id", type: "number", options: { references: { table: "users", column: "uuid" } } },
+						{ name: "slug", type: "varchar" },
+					],
+					compositePrimaryKey: ["author_id", "slug_id"],
+					indexes: [{ name: "posts_title_idx", columns: ["title"] }],
+				},
+			],
+		};
+
+		expect(validateSemantics(config)).toEqual([
+			{ path: "$.tables[0].columns[1].options.default", message: "Default 'deleted' is not a value of enum 'Status'" },
+			{ path: "$.tables[0].columns[2].options.enumValues", message: "Enum 'Role' is not defined" },
+			{ path: "$.tables[0].helperReferences[0]", message: "Column 'created_at' of helper 'Timestamps' is already defined by table 'Users'" },
+			{ path: "$.tables[0].helperReferences[1]", message: "Helper 'SoftDelete' is not defined" },
+			{ path: "$.tables[1].columns[0].options.references.table", message: "Referenced table 'Users' is not defined, did you mean 'users'?" },
+			{ path: "$.tables[1].columns[1].options.references.column", message: "Column 'uuid' is not defined in table 'Users'" },
+			{ path: "$.tables[1].columns[2].type", message: "Unknown column type 'varchar' for dialect 'postgresql'" },
+			{ path: "$.tables[1].compositePrimaryKey[1]", message: "Column 'slug_id' is not defined in table 'Posts'" },
+			{ path: "$.tables[1].indexes[0].columns[0]", message: "Column 'title' is not defined in table 'Posts'" },
+		]);
+	});
+
+	it("should report duplicate names", () => {
+		const config: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			enums: [
+				{ name: "Status", values: ["a"] },
+				{ name: "Status", values: ["b"] },
+			],
+			helpers: [
+				{ name: "Audit", columns: [{ name: "updated_by", type: "text" }] },
+				{ name: "Owner", columns: [{ name: "updated_by", type: "text" }] },
+			],
+			tables: [
+				{ name: "Users", columns: [{ name: "id", type: "serial" }, { name: "id", type: "uuid" }], helperReferences: ["Audit", "Owner"] },
+				{ name: "users", columns: [{ name: "id", type: "serial" }] },
+			],
+		};
+
+		expect(validateSemantics(config)).toEqual([
+			{ path: "$.enums[1]", message: "Duplicate enum name 'Status', first declared at $.enums[0]" },
+			{ path: "$.tables[1]", message: "Duplicate table name 'users', first declared at $.tables[0]" },
+			{ path: "$.tables[1]", message: "Duplicate database table name 'users', first declared at $.tables[0]" },
+			{ path: "$.tables[0].columns[1]", message: "Duplicate column name 'id', first declared at $.tables[0].columns[0]" },
+			{ path: "$.tables[0].helperReferences[1]", message: "Column 'updated_by' of helper 'Owner' is already defined by helper 'Audit'" },
+		]);
+	});
+
+	it("should report type-specific options used on other types", () => {
+		const config: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			tables: [
+				{
+					name: "Prices",
+					columns: [
+						{ name: "amount", type: "numeric", options: { precision: 4, scale: 6 } },
+						{ name: "label", type: "text", options: { precision: 2, fields: "day" } },
+					],
+				},
+			],
+		};
+		const mysql: ProjectGeneratorConfig = { outputDir: "./db", dialect: "mysql", tables: [{ name: "Posts", columns: [{ name: "tags", type: "text", options: { array: true } }] }] };
+
+		expect(validateSemantics(config)).toEqual([
+			{ path: "$.tables[0].columns[0].options.scale", message: "Scale 6 needs a precision of at least 6" },
+			{ path: "$.tables[0].columns[1].options.precision", message: "Option 'precision' is not supported by type 'text'" },
+			{ path: "$.tables[0].columns[1].options.fields", message: "Option 'fields' is not supported by type 'text'" },
+		]);
+		expect(validateSemantics(mysql)).toEqual([{ path: "$.tables[0].columns[0].options.array", message: "Dialect 'mysql' does not support array columns" }]);
+	});
+
+	it("should accept column types in any case, as the generator does", () => {
+		const config: ProjectGeneratorConfig = {
+			outputDir: "./db",
+			tables: [
+				{
+					name: "Prices",
+					columns: [
+						{ name: "label", type: "String", options: { length: 40 } },
+						{ name: "amount", type: "Numeric", options: { precision: 10, scale: 2 } },
+						{ name: "count", type: "Number" },
+						{ name: "note", type: "Strings" },
+					],
+				},
+			],
+		};
+
+		expect(validateSemantics(config)).toEqual([{ path: "$.tables[0].columns[3].type", message: "Unknown column type 'Strings' for dialect 'postgresql'" }]);
+	});
+
+	it("should only run once the structure of the config is valid", () => {
+		const result = validateConfig({ outputDir: "./db", tables: [{ name: "Posts", columns: [{ name: "user_id", type: "number", options: { references: { table: "users" } } }] }] });
+
+		expect(result.errors).toEqual([{ path: "$.tables[0].columns[0].options.references.column", message: "Missing required property 'column'" }]);
+	});
+});